@@ -1,14 +1,33 @@
 import React from 'react';
-import { Routes, Route } from 'react-router-dom';
+import { Routes, Route, Outlet } from 'react-router-dom';
 import Home from './pages/Home';
 import GameRoom from './pages/GameRoom';
+import AnalysisBoard from './pages/AnalysisBoard';
+import BotGameRoom from './pages/BotGameRoom';
+import GameReview from './pages/GameReview';
+import LocalGameRoom from './pages/LocalGameRoom';
+import BoardEditor from './pages/BoardEditor';
+import PlayerProfile from './pages/PlayerProfile';
+import { AuthProvider } from './lib/auth';
+import { SettingsProvider } from './lib/settings';
 
+// Pass-and-play stays outside the auth gate so it works with no backend
 const App: React.FC = () => {
   return (
-    <Routes>
-      <Route path="/" element={<Home />} />
-      <Route path="/game/:id" element={<GameRoom />} />
-    </Routes>
+    <SettingsProvider>
+      <Routes>
+        <Route path="/local/:id" element={<LocalGameRoom />} />
+        <Route element={<AuthProvider><Outlet /></AuthProvider>}>
+          <Route path="/" element={<Home />} />
+          <Route path="/game/:id" element={<GameRoom />} />
+          <Route path="/game/:id/analysis" element={<GameReview />} />
+          <Route path="/analysis" element={<AnalysisBoard />} />
+          <Route path="/editor" element={<BoardEditor />} />
+          <Route path="/player/:id" element={<PlayerProfile />} />
+          <Route path="/computer" element={<BotGameRoom />} />
+        </Route>
+      </Routes>
+    </SettingsProvider>
   );
 };
 
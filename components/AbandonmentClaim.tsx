@@ -0,0 +1,40 @@
+import React from 'react';
+import { Trophy, Handshake, UserX } from 'lucide-react';
+
+interface AbandonmentClaimProps {
+  // Milliseconds until the claim opens; zero or less once it is open
+  msUntilClaim: number;
+  busy: boolean;
+  onClaim: (draw: boolean) => void;
+}
+
+const AbandonmentClaim: React.FC<AbandonmentClaimProps> = ({ msUntilClaim, busy, onClaim }) => (
+  <div className="p-3 bg-amber-900/30 border border-amber-700 rounded-lg text-sm text-amber-100">
+    <p className="flex items-center gap-2">
+      <UserX className="w-4 h-4 shrink-0" />
+      {msUntilClaim > 0
+        ? `Your opponent left. You can end the game in ${Math.ceil(msUntilClaim / 1000)}s.`
+        : 'Your opponent left the game.'}
+    </p>
+    {msUntilClaim <= 0 && (
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <button
+          onClick={() => onClaim(false)}
+          disabled={busy}
+          className="flex items-center justify-center gap-1 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded font-medium transition-colors disabled:opacity-50"
+        >
+          <Trophy className="w-4 h-4" /> Claim win
+        </button>
+        <button
+          onClick={() => onClaim(true)}
+          disabled={busy}
+          className="flex items-center justify-center gap-1 py-1.5 bg-slate-600 hover:bg-slate-500 rounded font-medium transition-colors disabled:opacity-50"
+        >
+          <Handshake className="w-4 h-4" /> Call draw
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+export default AbandonmentClaim;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { PenLine, Save, Trash2 } from 'lucide-react';
+import { isEmptyAnnotations } from '../lib/annotations';
+import { BoardAnnotations } from '../types';
+
+interface AnnotationPanelProps {
+  // e.g. "12... Nf6" or "the starting position"
+  positionLabel: string;
+  drawn: BoardAnnotations;
+  // What the current user saved on this position
+  saved: BoardAnnotations;
+  busy?: boolean;
+  // Who else saved annotations here
+  others?: string[];
+  onSave: () => void;
+  onRemove: () => void;
+}
+
+// Saves the arrows and circles drawn on the board onto the shown move
+const AnnotationPanel: React.FC<AnnotationPanelProps> = ({ positionLabel, drawn, saved, busy = false, others = [], onSave, onRemove }) => (
+  <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 space-y-2">
+    <h3 className="text-sm uppercase text-slate-400 font-semibold flex items-center gap-2">
+      <PenLine className="w-4 h-4" /> Arrows
+    </h3>
+    <p className="text-xs text-slate-400">
+      Right-drag to draw an arrow, right-click to circle a square. Hold Shift, Alt or both for other colours.
+    </p>
+    {others.length > 0 && (
+      <p className="text-xs text-slate-300">Also showing arrows from {others.join(', ')}.</p>
+    )}
+    <div className="grid grid-cols-2 gap-2">
+      <button
+        onClick={onSave}
+        disabled={busy || isEmptyAnnotations(drawn)}
+        title={`Save onto ${positionLabel}`}
+        className="flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Save className="w-4 h-4" /> Save to move
+      </button>
+      <button
+        onClick={onRemove}
+        disabled={busy || isEmptyAnnotations(saved)}
+        className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Trash2 className="w-4 h-4" /> Remove
+      </button>
+    </div>
+    <p className="text-xs text-slate-500 truncate">On {positionLabel}</p>
+  </div>
+);
+
+export default AnnotationPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Profile } from '../types';
+
+interface AvatarProps {
+  profile?: Profile | null;
+  size?: 'sm' | 'md';
+}
+
+const Avatar: React.FC<AvatarProps> = ({ profile, size = 'sm' }) => {
+  const sizeClass = size === 'sm' ? 'w-6 h-6 text-[10px]' : 'w-10 h-10 text-sm';
+  const initials = (profile?.display_name ?? '?')
+    .split(/\s+/)
+    .map((part) => part[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+  if (profile?.avatar_url) {
+    return <img src={profile.avatar_url} alt="" className={`${sizeClass} rounded-full object-cover bg-slate-700`} />;
+  }
+  return (
+    <div className={`${sizeClass} rounded-full bg-slate-700 text-slate-200 font-bold flex items-center justify-center shrink-0`}>
+      {initials}
+    </div>
+  );
+};
+
+export default Avatar;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Cpu, Play } from 'lucide-react';
+import { ENGINE_LEVELS } from '../lib/engine';
+
+interface BotSetupProps {
+  onStart: (level: number, color: 'w' | 'b') => void;
+}
+
+const BotSetup: React.FC<BotSetupProps> = ({ onStart }) => {
+  const [level, setLevel] = useState(3);
+  const [color, setColor] = useState<'white' | 'black' | 'random'>('white');
+
+  const start = () => {
+    const seat = color === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : color;
+    onStart(level, seat === 'white' ? 'w' : 'b');
+  };
+
+  const buttonClass = (selected: boolean) =>
+    `py-2 rounded-lg text-sm font-semibold capitalize transition-colors ${
+      selected ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+    }`;
+
+  return (
+    <div className="max-w-md w-full bg-slate-900/80 p-8 rounded-2xl border border-slate-700 shadow-2xl space-y-6">
+      <div className="text-center">
+        <div className="inline-flex items-center justify-center w-14 h-14 bg-gradient-to-br from-emerald-500 to-blue-600 rounded-2xl mb-3">
+          <Cpu className="w-7 h-7 text-white" />
+        </div>
+        <h1 className="text-2xl font-bold">Play vs Computer</h1>
+        <p className="text-slate-400 text-sm mt-1">Stockfish runs in your browser. No connection needed.</p>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase text-slate-400 font-semibold">Strength</p>
+        <div className="grid grid-cols-4 gap-2">
+          {ENGINE_LEVELS.map((l) => (
+            <button key={l.level} type="button" onClick={() => setLevel(l.level)} className={buttonClass(level === l.level)}>
+              {l.level}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs uppercase text-slate-400 font-semibold">Play as</p>
+        <div className="grid grid-cols-3 gap-2">
+          {(['white', 'black', 'random'] as const).map((c) => (
+            <button key={c} type="button" onClick={() => setColor(c)} className={buttonClass(color === c)}>
+              {c}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={start}
+        className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 active:bg-emerald-700 text-white rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2"
+      >
+        <Play className="w-5 h-5 fill-current" /> Start Game
+      </button>
+    </div>
+  );
+};
+
+export default BotSetup;
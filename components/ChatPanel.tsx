@@ -0,0 +1,136 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageSquare, Send, VolumeX, Volume2 } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+// Matches the length check on messages.body
+export const MAX_MESSAGE_LENGTH = 200;
+
+const CANNED_MESSAGES = ['Hi!', 'Good luck', 'Have fun', 'Good game', 'Thanks', 'Well played'];
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // 'players' or 'spectators': the room the viewer writes to
+  room: ChatMessage['audience'];
+  currentUserId: string;
+  nameFor: (userId: string) => string;
+  // Seated players can mute their opponent; spectators get no toggle
+  opponentId?: string | null;
+  opponentMuted?: boolean;
+  onToggleMute?: () => void;
+  onSend: (body: string) => Promise<void>;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+  messages,
+  room,
+  currentUserId,
+  nameFor,
+  opponentId,
+  opponentMuted = false,
+  onToggleMute,
+  onSend,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const visible = messages.filter((m) => !(opponentMuted && m.user_id === opponentId));
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [visible.length]);
+
+  const send = async (body: string) => {
+    const text = body.trim();
+    if (!text || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onSend(text);
+      setDraft('');
+    } catch (err: any) {
+      console.error('Chat send failed', err);
+      setError(err.message || 'Message not sent.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
+      <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2 flex items-center gap-2">
+        <MessageSquare className="w-4 h-4" />
+        {room === 'players' ? 'Chat' : 'Spectator chat'}
+        {opponentId && onToggleMute && (
+          <button
+            onClick={onToggleMute}
+            className="ml-auto text-slate-400 hover:text-white normal-case font-normal flex items-center gap-1"
+            title={opponentMuted ? 'Unmute opponent' : 'Mute opponent'}
+          >
+            {opponentMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+          </button>
+        )}
+      </h3>
+
+      <div ref={listRef} className="h-40 overflow-y-auto space-y-1 text-sm mb-2">
+        {visible.length === 0 ? (
+          <p className="text-slate-500 text-center pt-12">No messages yet.</p>
+        ) : (
+          visible.map((m) => (
+            <p key={m.id} className="break-words">
+              <span className={`font-semibold ${m.user_id === currentUserId ? 'text-emerald-400' : 'text-blue-300'}`}>
+                {nameFor(m.user_id)}
+              </span>
+              {m.audience !== room && <span className="text-xs text-slate-500"> ({m.audience})</span>}
+              <span className="text-slate-200">: {m.body}</span>
+            </p>
+          ))
+        )}
+      </div>
+
+      {room === 'players' && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {CANNED_MESSAGES.map((text) => (
+            <button
+              key={text}
+              onClick={() => send(text)}
+              disabled={sending}
+              className="px-2 py-0.5 bg-slate-800 hover:bg-slate-600 rounded text-xs text-slate-300 disabled:opacity-50"
+            >
+              {text}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_MESSAGE_LENGTH}
+          placeholder="Say something..."
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={sending || !draft.trim()}
+          className="px-2 bg-blue-600 hover:bg-blue-500 rounded disabled:opacity-50"
+          title="Send"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </form>
+      {error && <p className="text-xs text-red-300 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { formatClock } from '../lib/timeControl';
+
+interface ChessClockProps {
+  ms: number;
+  running: boolean;
+}
+
+const ChessClock: React.FC<ChessClockProps> = ({ ms, running }) => {
+  const low = ms < 10000;
+  return (
+    <div
+      className={`ml-auto px-3 py-1 rounded font-mono text-xl font-bold tabular-nums transition-colors ${
+        running
+          ? low
+            ? 'bg-red-600 text-white'
+            : 'bg-slate-100 text-slate-900'
+          : 'bg-slate-800 text-slate-400'
+      }`}
+    >
+      {formatClock(ms)}
+    </div>
+  );
+};
+
+export default ChessClock;
@@ -1,12 +1,52 @@
-import React, { useState, useEffect } from 'react';
-import { Chessboard } from 'react-chessboard';
-import { Chess } from 'chess.js';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Arrow, Chessboard, PieceDropHandlerArgs, PieceHandlerArgs } from 'react-chessboard';
+import PromotionPicker from './PromotionPicker';
+import { BoardAnnotations, MoveRecord, PromotionPiece, Variant } from '../types';
+import { ANIMATION_MS, BOARD_THEMES, useSettings } from '../lib/settings';
+import { PIECE_SETS } from '../lib/pieceSets';
+import { playSound, soundForSan } from '../lib/sounds';
+import { checkedKingSquare } from '../lib/chess';
+import { createChess } from '../lib/variants';
+import { Premove, applyPremoves, premoveCastling, premovePromotion, premoveTargets } from '../lib/premoves';
+import {
+  ANNOTATION_COLORS,
+  EMPTY_ANNOTATIONS,
+  colorForModifiers,
+  isEmptyAnnotations,
+  mergeAnnotations,
+  toggleArrow,
+  toggleCircle,
+} from '../lib/annotations';
+
+const FILES = 'abcdefgh';
+
+const LAST_MOVE_STYLE = { background: 'rgba(255, 255, 0, 0.35)' };
+const CHECK_STYLE = { background: 'radial-gradient(circle, rgba(255,0,0,.8) 0%, rgba(255,0,0,.4) 45%, transparent 75%)' };
+const PREMOVE_STYLE = { background: 'rgba(59, 130, 246, 0.45)' };
+const CURSOR_SHADOW = 'inset 0 0 0 4px rgba(59, 130, 246, 0.9)';
+const PIECE_WORDS: Record<string, string> = { p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king' };
 
 interface CustomChessBoardProps {
   fen: string;
-  onPieceDrop: (sourceSquare: string, targetSquare: string, piece: string) => boolean;
+  onPieceDrop: (sourceSquare: string, targetSquare: string, piece: string, promotion?: PromotionPiece) => boolean;
   boardOrientation: 'white' | 'black';
   arePiecesDraggable: boolean;
+  // Arrows drawn over the board, e.g. engine suggestions
+  arrows?: Arrow[];
+  // The move that led to `fen`; stepping one ply forward plays its sound
+  lastMove?: Pick<MoveRecord, 'ply' | 'san' | 'from_square' | 'to_square'> | null;
+  // Plays the end-of-game sound when this turns true
+  gameOver?: boolean;
+  // The player's colour; lets them queue moves during the opponent's turn
+  premoveColor?: 'w' | 'b';
+  // Arrows and circles drawn with the right mouse button. Pass both to keep
+  // them in the parent; otherwise the board keeps its own until the position changes.
+  annotations?: BoardAnnotations;
+  onAnnotationsChange?: (annotations: BoardAnnotations) => void;
+  // Shown under the drawn ones and not cleared by a left click, e.g. saved ones
+  savedAnnotations?: BoardAnnotations;
+  // Decides which moves the board offers, e.g. castling onto the rook in Chess960
+  variant?: Variant;
 }
 
 const CustomChessBoard: React.FC<CustomChessBoardProps> = ({
@@ -14,26 +54,118 @@ const CustomChessBoard: React.FC<CustomChessBoardProps> = ({
   onPieceDrop,
   boardOrientation,
   arePiecesDraggable,
+  arrows = [],
+  lastMove = null,
+  gameOver = false,
+  premoveColor,
+  annotations,
+  onAnnotationsChange,
+  savedAnnotations = EMPTY_ANNOTATIONS,
+  variant,
 }) => {
-  const [game, setGame] = useState(new Chess(fen));
+  const { settings } = useSettings();
+  const theme = BOARD_THEMES[settings.board_theme];
+  const [game, setGame] = useState(createChess(fen, variant));
   const [moveFrom, setMoveFrom] = useState<string | null>(null);
   const [optionSquares, setOptionSquares] = useState<Record<string, any>>({});
+  // A pawn move to the last rank waiting for the player to pick a piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string; piece: string } | null>(null);
+  const [premoves, setPremoves] = useState<Premove[]>([]);
+  const [ownAnnotations, setOwnAnnotations] = useState<BoardAnnotations>(EMPTY_ANNOTATIONS);
+  const drawn = annotations ?? ownAnnotations;
+  const setDrawn = onAnnotationsChange ?? setOwnAnnotations;
+  const boardRef = useRef<HTMLDivElement>(null);
+  // Square a right-button drag started on
+  const drawFromRef = useRef<string | null>(null);
+  // Keyboard focus square, shown while the board has focus
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [focused, setFocused] = useState(false);
+
+  // While the opponent is to move, the player picks pieces for premoves
+  // from the position their queued premoves lead to
+  const premoving = !!premoveColor && game.turn() !== premoveColor;
+  const movableColor = premoveColor ?? game.turn();
+  const board = useMemo(
+    () => (premoves.length > 0 ? applyPremoves(game.fen(), premoves, variant) : game),
+    [game, premoves, variant]
+  );
+  const castling = useMemo(() => premoveCastling(game.fen(), premoves, variant), [game, premoves, variant]);
+  const premoveTargetsFrom = (square: string) => premoveTargets(board, square, variant, castling);
   
   // Sync internal game instance when FEN changes from parent
   useEffect(() => {
     try {
-      const newGame = new Chess(fen);
+      const newGame = createChess(fen, variant);
       setGame(newGame);
       // We only clear selection if the board totally changes (new FEN from server)
       // This prevents "flickering" if the local optimistic update was successful
       setMoveFrom(null);
       setOptionSquares({});
+      setPendingPromotion(null);
+      setOwnAnnotations(EMPTY_ANNOTATIONS);
     } catch (e) {
       console.error("Invalid FEN:", fen);
     }
-  }, [fen]);
+  }, [fen, variant]);
+
+  // Play the first premove as soon as it is our turn, or drop the queue
+  // if it is no longer legal
+  useEffect(() => {
+    if (premoves.length === 0) return;
+    if (!arePiecesDraggable) {
+      setPremoves([]);
+      return;
+    }
+    if (game.turn() !== premoveColor) return;
+
+    const [next, ...rest] = premoves;
+    const legal = game
+      .moves({ square: next.from as any, verbose: true })
+      .some((m) => m.to === next.to);
+    if (!legal) {
+      setPremoves([]);
+      return;
+    }
+    setPremoves(rest);
+    const piece = game.get(next.from as any);
+    if (!playMove(next.from, next.to, piece.color + piece.type.toUpperCase(), next.promotion)) setPremoves([]);
+  }, [game, arePiecesDraggable]);
+
+  // Sounds only follow changes after the board first shows up
+  const lastPlyRef = useRef(lastMove?.ply ?? 0);
+  const gameOverRef = useRef(gameOver);
+  useEffect(() => {
+    const ply = lastMove?.ply ?? 0;
+    if (settings.sound && lastMove && ply === lastPlyRef.current + 1) playSound(soundForSan(lastMove.san));
+    lastPlyRef.current = ply;
+  }, [lastMove?.ply, lastMove?.san]);
+
+  useEffect(() => {
+    if (settings.sound && gameOver && !gameOverRef.current) playSound('end');
+    gameOverRef.current = gameOver;
+  }, [gameOver]);
+
+  function queuePremove(from: string, to: string) {
+    setPremoves((queued) => [...queued, { from, to, promotion: premovePromotion(board, from, to) }]);
+    setMoveFrom(null);
+    setOptionSquares({});
+  }
 
   function getMoveOptions(square: string) {
+    if (premoving) {
+      const targets = premoveTargetsFrom(square);
+      const newSquares: Record<string, any> = {};
+      targets.forEach((target) => {
+        newSquares[target] = {
+          background: 'radial-gradient(circle, rgba(59,130,246,.6) 25%, transparent 25%)',
+          borderRadius: '50%',
+        };
+      });
+      newSquares[square] = PREMOVE_STYLE;
+      setOptionSquares(newSquares);
+      return targets.length > 0;
+    }
+
     const moves = game.moves({
       square: square as any,
       verbose: true,
@@ -63,11 +195,47 @@ const CustomChessBoard: React.FC<CustomChessBoardProps> = ({
     return true;
   }
 
+  function isPromotionMove(from: string, to: string) {
+    return game
+      .moves({ square: from as any, verbose: true })
+      .some((m) => m.to === to && m.promotion);
+  }
+
+  function playMove(from: string, to: string, pieceString: string, promotion?: PromotionPiece) {
+    // Optimistically update internal state
+    const gameCopy = createChess(game.fen(), variant);
+    gameCopy.move({ from, to, promotion });
+    setGame(gameCopy);
+
+    // Notify parent
+    const success = onPieceDrop(from, to, pieceString, promotion);
+
+    if (!success) {
+        // Revert if parent rejected
+        setGame(createChess(fen, variant));
+    }
+    return success;
+  }
+
+  function onPromotionSelect(promotion: PromotionPiece) {
+    if (!pendingPromotion) return;
+    const { from, to, piece } = pendingPromotion;
+    setPendingPromotion(null);
+    playMove(from, to, piece, promotion);
+    // The picker had focus; give it back to the board for keyboard players
+    boardRef.current?.focus();
+  }
+
   function onSquareClick(square: string) {
     if (!arePiecesDraggable) return;
 
     // 1. If we have a piece selected, try to move to the clicked square
-    if (moveFrom) {
+    if (moveFrom && premoving && premoveTargetsFrom(moveFrom).includes(square)) {
+      queuePremove(moveFrom, square);
+      return;
+    }
+
+    if (moveFrom && !premoving) {
       // Get all valid moves for the selected piece
       const moves = game.moves({
         square: moveFrom as any,
@@ -81,104 +249,243 @@ const CustomChessBoard: React.FC<CustomChessBoardProps> = ({
         const piece = game.get(moveFrom as any);
         const pieceString = piece.color + piece.type.toUpperCase(); // e.g., 'wP'
         
-        // Optimistically update internal state
-        const gameCopy = new Chess(game.fen());
-        gameCopy.move({
-            from: moveFrom,
-            to: square,
-            promotion: 'q'
-        });
-        setGame(gameCopy);
-        
         // Clear selection immediately on valid move attempt
         setMoveFrom(null);
         setOptionSquares({});
 
-        // Notify parent
-        const success = onPieceDrop(moveFrom, square, pieceString);
-        
-        if (!success) {
-            // Revert if parent rejected
-            setGame(new Chess(fen));
+        // Ask which piece to promote to before sending anything
+        if (isPromotionMove(moveFrom, square)) {
+            setPendingPromotion({ from: moveFrom, to: square, piece: pieceString });
+            return;
         }
-        return;
-      }
 
-      // B. Clicked on the same square (Deselect)
-      if (moveFrom === square) {
-        setMoveFrom(null);
-        setOptionSquares({});
+        playMove(moveFrom, square, pieceString);
         return;
       }
     }
 
+    // B. Clicked on the same square (Deselect)
+    if (moveFrom === square) {
+      setMoveFrom(null);
+      setOptionSquares({});
+      return;
+    }
+
     // 2. Select a new piece
-    const piece = game.get(square as any);
+    const piece = board.get(square as any);
     if (piece) {
        // Only allow selecting own pieces
-       if (piece.color === game.turn()) {
+       if (piece.color === movableColor) {
            setMoveFrom(square);
            getMoveOptions(square);
            return;
        }
     }
 
-    // 3. Clicked empty square or enemy piece (without a valid capture move) -> Deselect
+    // 3. Clicked empty square or enemy piece (without a valid capture move) -> Deselect.
+    // With nothing selected, this cancels the queued premoves.
+    if (!moveFrom) setPremoves([]);
     setMoveFrom(null);
     setOptionSquares({});
   }
 
-  function onPieceDragBegin(piece: string, sourceSquare: string) {
-    if (!arePiecesDraggable) return;
+  function onPieceDragBegin({ piece, square }: PieceHandlerArgs) {
+    if (!arePiecesDraggable || !square) return;
     
     // Check if it's actually the turn of the piece being dragged
-    const turnColor = game.turn();
-    const pieceColor = piece[0]; // 'w' or 'b'
-    if (turnColor !== pieceColor) return;
+    const pieceColor = piece.pieceType[0]; // 'w' or 'b'
+    if (movableColor !== pieceColor) return;
 
-    setMoveFrom(sourceSquare);
-    getMoveOptions(sourceSquare);
+    setMoveFrom(square);
+    getMoveOptions(square);
+  }
+
+  // CRITICAL FIX FOR MOBILE:
+  // Nothing clears optionSquares or moveFrom when a drag ends without a drop.
+  // On touch devices, a "tap" can start and end a drag, and clearing then
+  // makes the selection vanish immediately. We strictly rely on onBoardDrop
+  // (for successful drags) or onSquareClick (for clicking elsewhere) to clear state.
+  function onBoardDrop({ piece, sourceSquare, targetSquare }: PieceDropHandlerArgs) {
+    // Dropped off the board
+    if (!targetSquare) return false;
+    if (premoving) {
+      if (piece.pieceType[0] === premoveColor && premoveTargetsFrom(sourceSquare).includes(targetSquare)) {
+        queuePremove(sourceSquare, targetSquare);
+      } else {
+        setOptionSquares({});
+        setMoveFrom(null);
+      }
+      // The piece snaps back; the queued move shows as a highlight
+      return false;
+    }
+    // Let the piece snap back while the player picks a promotion piece
+    if (isPromotionMove(sourceSquare, targetSquare)) {
+      setOptionSquares({});
+      setMoveFrom(null);
+      setPendingPromotion({ from: sourceSquare, to: targetSquare, piece: piece.pieceType });
+      return false;
+    }
+    const success = onPieceDrop(sourceSquare, targetSquare, piece.pieceType);
+    if (success) {
+      setOptionSquares({});
+      setMoveFrom(null);
+    }
+    return success;
   }
 
-  function onPieceDragEnd() {
-    // CRITICAL FIX FOR MOBILE:
-    // Do NOT clear optionSquares or moveFrom here.
-    // On touch devices, a "tap" can trigger DragBegin -> DragEnd.
-    // If we clear here, the selection vanishes immediately.
-    // We strictly rely on onPieceDrop (for successful drags) 
-    // or onSquareClick (for clicking elsewhere) to clear state.
+  function squareAt(e: React.MouseEvent) {
+    const rect = boardRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * 8);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * 8);
+    if (col < 0 || col > 7 || row < 0 || row > 7) return null;
+    return boardOrientation === 'white' ? `${FILES[col]}${8 - row}` : `${FILES[7 - col]}${row + 1}`;
   }
 
+  function onMouseDown(e: React.MouseEvent) {
+    if (e.button === 2) drawFromRef.current = squareAt(e);
+    else if (e.button === 0 && !isEmptyAnnotations(drawn)) setDrawn(EMPTY_ANNOTATIONS);
+  }
+
+  // Right-drag draws an arrow, a right click on one square circles it
+  function onMouseUp(e: React.MouseEvent) {
+    if (e.button !== 2) return;
+    const from = drawFromRef.current;
+    drawFromRef.current = null;
+    const to = squareAt(e);
+    if (!from || !to) return;
+    const color = colorForModifiers(e);
+    setDrawn(from === to ? toggleCircle(drawn, to, color) : toggleArrow(drawn, from, to, color));
+  }
+
+  // Arrow keys move around the board as the player sees it; Enter picks
+  // up and drops like a click, Escape lets go
+  function onKeyDown(e: React.KeyboardEvent) {
+    const current = cursor ?? (boardOrientation === 'white' ? 'a1' : 'h8');
+    const flip = boardOrientation === 'white' ? 1 : -1;
+    const steps: Record<string, [number, number]> = {
+      ArrowUp: [0, flip],
+      ArrowDown: [0, -flip],
+      ArrowRight: [flip, 0],
+      ArrowLeft: [-flip, 0],
+    };
+
+    if (steps[e.key]) {
+      const [df, dr] = steps[e.key];
+      const file = Math.min(7, Math.max(0, FILES.indexOf(current[0]) + df));
+      const rank = Math.min(8, Math.max(1, Number(current[1]) + dr));
+      setCursor(`${FILES[file]}${rank}`);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      setCursor(current);
+      onSquareClick(current);
+    } else if (e.key === 'Escape') {
+      setMoveFrom(null);
+      setOptionSquares({});
+    } else {
+      return;
+    }
+    // Keep the page's own arrow-key move navigation out of it
+    e.preventDefault();
+    e.stopPropagation();
+  }
+
+  // What the square under the keyboard cursor holds, for screen readers
+  const describeCursor = () => {
+    if (!cursor) return '';
+    const piece = board.get(cursor as any);
+    const contents = piece ? `${piece.color === 'w' ? 'white' : 'black'} ${PIECE_WORDS[piece.type]}` : 'empty';
+    return `${cursor}, ${contents}${moveFrom === cursor ? ', selected' : ''}`;
+  };
+
+  // Last move, then check, then queued premoves; selection hints go on top
+  const highlightSquares: Record<string, any> = {};
+  if (lastMove) {
+    highlightSquares[lastMove.from_square] = LAST_MOVE_STYLE;
+    highlightSquares[lastMove.to_square] = LAST_MOVE_STYLE;
+  }
+  const checkedKing = checkedKingSquare(game);
+  if (checkedKing) highlightSquares[checkedKing] = CHECK_STYLE;
+  premoves.forEach(({ from, to }) => {
+    highlightSquares[from] = PREMOVE_STYLE;
+    highlightSquares[to] = PREMOVE_STYLE;
+  });
+  const shown = mergeAnnotations(savedAnnotations, drawn);
+  shown.circles.forEach(({ square, color }) => {
+    const ring = ANNOTATION_COLORS[color];
+    highlightSquares[square] = {
+      background: `radial-gradient(circle, transparent 56%, ${ring} 58%, ${ring} 66%, transparent 68%)`,
+    };
+  });
+
   return (
     <div className="relative w-full max-w-[500px] aspect-square shadow-2xl rounded-lg overflow-hidden border-4 border-slate-700 bg-slate-800 touch-none">
       {/* Testing Badge */}
-      <div className="absolute top-0 right-0 z-20 bg-blue-600 text-white text-[10px] font-bold px-2 py-1 rounded-bl shadow-md pointer-events-none">
-        v3.1 Mobile Fix
-      </div>
+      {settings.show_badge && (
+        <div className="absolute top-0 right-0 z-20 bg-blue-600 text-white text-[10px] font-bold px-2 py-1 rounded-bl shadow-md pointer-events-none">
+          v3.1 Mobile Fix
+        </div>
+      )}
 
-      <Chessboard
-        id="BasicBoard"
-        position={game.fen()}
-        onPieceDrop={(source, target, piece) => {
-            const success = onPieceDrop(source, target, piece);
-            if (success) {
-                setOptionSquares({});
-                setMoveFrom(null);
-            }
-            return success;
-        }}
-        onPieceDragBegin={onPieceDragBegin}
-        onPieceDragEnd={onPieceDragEnd}
-        onSquareClick={onSquareClick}
-        boardOrientation={boardOrientation}
-        arePiecesDraggable={arePiecesDraggable}
-        customDarkSquareStyle={{ backgroundColor: '#779556' }}
-        customLightSquareStyle={{ backgroundColor: '#ebecd0' }}
-        customSquareStyles={{
-          ...optionSquares,
-        }}
-        animationDuration={200}
-      />
+      {pendingPromotion && (
+        <PromotionPicker
+          color={pendingPromotion.piece[0] as 'w' | 'b'}
+          onSelect={onPromotionSelect}
+          onCancel={() => {
+            setPendingPromotion(null);
+            boardRef.current?.focus();
+          }}
+        />
+      )}
+
+      <div
+        ref={boardRef}
+        tabIndex={0}
+        role="application"
+        aria-label="Chess board. Arrow keys move between squares, Enter picks up and drops a piece, Escape cancels."
+        onKeyDown={onKeyDown}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onMouseDown={onMouseDown}
+        onMouseUp={onMouseUp}
+        onContextMenu={(e) => e.preventDefault()}
+        className="focus:outline-none"
+      >
+        <div aria-live="polite" className="sr-only">{focused ? describeCursor() : ''}</div>
+        <Chessboard
+          options={{
+            id: 'BasicBoard',
+            position: board.fen(),
+            onPieceDrop: onBoardDrop,
+            onPieceDrag: onPieceDragBegin,
+            onSquareClick: ({ square }) => onSquareClick(square),
+            boardOrientation,
+            allowDragging: arePiecesDraggable,
+            canDragPiece: ({ piece }) => piece.pieceType[0] === movableColor,
+            darkSquareStyle: { backgroundColor: theme.dark },
+            lightSquareStyle: { backgroundColor: theme.light },
+            pieces: PIECE_SETS[settings.piece_set].pieces,
+            showNotation: settings.show_coordinates,
+            squareStyles: {
+              ...highlightSquares,
+              ...optionSquares,
+              ...(focused && cursor ? {
+                [cursor]: { ...highlightSquares[cursor], ...optionSquares[cursor], boxShadow: CURSOR_SHADOW },
+              } : {}),
+            },
+            arrows: [
+              ...arrows,
+              ...shown.arrows.map(({ from, to, color }): Arrow => ({
+                startSquare: from,
+                endSquare: to,
+                color: ANNOTATION_COLORS[color],
+              })),
+            ],
+            // Right-button drawing is ours, so arrows can be saved onto moves
+            allowDrawingArrows: false,
+            animationDurationInMs: ANIMATION_MS[settings.animation_speed],
+          }}
+        />
+      </div>
     </div>
   );
 };
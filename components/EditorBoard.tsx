@@ -0,0 +1,96 @@
+import React from 'react';
+import { defaultPieces } from 'react-chessboard';
+import { BOARD_THEMES, useSettings } from '../lib/settings';
+import { PIECE_SETS } from '../lib/pieceSets';
+import { squareName } from '../lib/boardEditor';
+
+// What travels with a drag: a FEN piece letter, and the square it left if it was on the board
+export interface EditorDrag {
+  piece: string;
+  from?: string;
+}
+
+export const DRAG_TYPE = 'application/x-chess-editor-piece';
+
+// Piece in the current piece set for a FEN letter
+export const EditorPiece: React.FC<{ piece: string }> = ({ piece }) => {
+  const { settings } = useSettings();
+  const pieces = PIECE_SETS[settings.piece_set].pieces ?? defaultPieces;
+  const render = pieces[(piece === piece.toUpperCase() ? 'w' : 'b') + piece.toUpperCase()];
+  return <div className="w-full h-full pointer-events-none">{render()}</div>;
+};
+
+interface EditorBoardProps {
+  pieces: Record<string, string>;
+  orientation: 'white' | 'black';
+  onDrop: (square: string, drag: EditorDrag) => void;
+  // A piece dragged off the board
+  onRemove: (square: string) => void;
+  onSquareClick: (square: string) => void;
+}
+
+/**
+ * Plain board for setting up positions: pieces go anywhere, no rules apply.
+ * Dragging a piece off the board removes it; right-click clears a square.
+ */
+const EditorBoard: React.FC<EditorBoardProps> = ({ pieces, orientation, onDrop, onRemove, onSquareClick }) => {
+  const { settings } = useSettings();
+  const theme = BOARD_THEMES[settings.board_theme];
+  const ranks = orientation === 'white' ? [7, 6, 5, 4, 3, 2, 1, 0] : [0, 1, 2, 3, 4, 5, 6, 7];
+  const files = orientation === 'white' ? [0, 1, 2, 3, 4, 5, 6, 7] : [7, 6, 5, 4, 3, 2, 1, 0];
+
+  return (
+    <div className="w-full max-w-[500px] aspect-square shadow-2xl rounded-lg overflow-hidden border-4 border-slate-700 grid grid-cols-8 grid-rows-8 select-none">
+      {ranks.map((rank, row) =>
+        files.map((file, col) => {
+          const square = squareName(file, rank);
+          const piece = pieces[square];
+          return (
+            <div
+              key={square}
+              aria-label={piece ? `${square} ${piece}` : square}
+              onClick={() => onSquareClick(square)}
+              onContextMenu={(e) => {
+                e.preventDefault();
+                if (piece) onRemove(square);
+              }}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => {
+                e.preventDefault();
+                const data = e.dataTransfer.getData(DRAG_TYPE);
+                if (data) onDrop(square, JSON.parse(data) as EditorDrag);
+              }}
+              className="relative cursor-pointer"
+              style={{ backgroundColor: (file + rank) % 2 === 0 ? theme.dark : theme.light }}
+            >
+              {settings.show_coordinates && col === 0 && (
+                <span className="absolute top-0.5 left-1 text-[10px] font-semibold text-slate-900/60">{rank + 1}</span>
+              )}
+              {settings.show_coordinates && row === 7 && (
+                <span className="absolute bottom-0.5 right-1 text-[10px] font-semibold text-slate-900/60">{'abcdefgh'[file]}</span>
+              )}
+              {piece && (
+                <div
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ piece, from: square } satisfies EditorDrag));
+                    e.dataTransfer.effectAllowed = 'move';
+                  }}
+                  onDragEnd={(e) => {
+                    // Nothing accepted the drop, so it landed off the board
+                    if (e.dataTransfer.dropEffect === 'none') onRemove(square);
+                  }}
+                  className="w-full h-full cursor-grab"
+                >
+                  <EditorPiece piece={piece} />
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default EditorBoard;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { PositionEval, formatEval, winPercent } from '../lib/review';
+
+interface EvalBarProps {
+  evaluation: PositionEval | null;
+  orientation: 'white' | 'black';
+}
+
+// Vertical bar beside the board; White's share grows from White's side
+const EvalBar: React.FC<EvalBarProps> = ({ evaluation, orientation }) => {
+  const white = evaluation ? winPercent(evaluation.cp) : 50;
+  return (
+    <div
+      className={`relative w-6 self-stretch rounded overflow-hidden bg-slate-950 border border-slate-700 flex ${
+        orientation === 'white' ? 'flex-col-reverse' : 'flex-col'
+      }`}
+      title={evaluation ? formatEval(evaluation) : 'Analyzing...'}
+    >
+      <div className="bg-slate-100 transition-all duration-300" style={{ height: `${white}%` }} />
+      <span
+        className={`absolute left-0 right-0 text-center text-[9px] font-bold ${
+          (orientation === 'white') === white >= 50 ? 'bottom-1 text-slate-900' : 'top-1 text-slate-100'
+        }`}
+      >
+        {evaluation ? formatEval(evaluation) : ''}
+      </span>
+    </div>
+  );
+};
+
+export default EvalBar;
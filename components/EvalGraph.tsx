@@ -0,0 +1,60 @@
+import React from 'react';
+import { MoveReview, PositionEval, winPercent } from '../lib/review';
+
+interface EvalGraphProps {
+  // One entry per position, analyzed ones only
+  evals: PositionEval[];
+  reviews: MoveReview[];
+  currentPly: number;
+  totalPlies: number;
+  onSelect: (ply: number) => void;
+}
+
+const WIDTH = 300;
+const HEIGHT = 80;
+
+const MARKER_COLORS = {
+  inaccuracy: '#facc15',
+  mistake: '#fb923c',
+  blunder: '#ef4444',
+};
+
+const EvalGraph: React.FC<EvalGraphProps> = ({ evals, reviews, currentPly, totalPlies, onSelect }) => {
+  const x = (ply: number) => (totalPlies === 0 ? 0 : (ply / totalPlies) * WIDTH);
+  const y = (evaluation: PositionEval) => HEIGHT - (winPercent(evaluation.cp) / 100) * HEIGHT;
+
+  const line = evals.map((e, ply) => `${x(ply)},${y(e)}`).join(' ');
+  const area = evals.length ? `0,${HEIGHT} ${line} ${x(evals.length - 1)},${HEIGHT}` : '';
+
+  const onClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ply = Math.round(((e.clientX - rect.left) / rect.width) * totalPlies);
+    onSelect(Math.max(0, Math.min(totalPlies, ply)));
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-20 bg-slate-900 rounded cursor-pointer"
+      onClick={onClick}
+    >
+      <polygon points={area} fill="#e2e8f0" />
+      <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#64748b" strokeWidth={0.5} />
+      <line x1={x(currentPly)} y1={0} x2={x(currentPly)} y2={HEIGHT} stroke="#10b981" strokeWidth={1} />
+      {reviews.map((r) =>
+        r.classification && evals[r.ply] ? (
+          <circle
+            key={r.ply}
+            cx={x(r.ply)}
+            cy={y(evals[r.ply])}
+            r={2.5}
+            fill={MARKER_COLORS[r.classification]}
+          />
+        ) : null
+      )}
+    </svg>
+  );
+};
+
+export default EvalGraph;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Flag, Handshake, Undo2, Check, X } from 'lucide-react';
+import { GameState, Player } from '../types';
+
+interface GameActionsProps {
+  // Only the fields the actions depend on, so local games can pass their own state
+  gameState: Pick<GameState, 'status' | 'ply' | 'draw_offer' | 'takeback_offer'>;
+  playerRole: Player['color'];
+  busy: boolean;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  // Left out where offers are answered at once, e.g. by the computer
+  onRespondDraw?: (accept: boolean) => void;
+  onRequestTakeback: () => void;
+  onRespondTakeback?: (accept: boolean) => void;
+}
+
+const colorName = (color: 'w' | 'b') => (color === 'w' ? 'White' : 'Black');
+
+interface OfferProps {
+  text: string;
+  busy: boolean;
+  // Shows the answer buttons; left out when we may not answer
+  onAnswer?: (accept: boolean) => void;
+}
+
+const PendingOffer: React.FC<OfferProps> = ({ text, busy, onAnswer }) => (
+  <div className="p-3 bg-amber-900/30 border border-amber-700 rounded-lg text-sm text-amber-100">
+    <p>{text}</p>
+    {onAnswer && (
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <button
+          onClick={() => onAnswer(true)}
+          disabled={busy}
+          className="flex items-center justify-center gap-1 py-1.5 bg-emerald-600 hover:bg-emerald-500 rounded font-medium transition-colors disabled:opacity-50"
+        >
+          <Check className="w-4 h-4" /> Accept
+        </button>
+        <button
+          onClick={() => onAnswer(false)}
+          disabled={busy}
+          className="flex items-center justify-center gap-1 py-1.5 bg-slate-600 hover:bg-slate-500 rounded font-medium transition-colors disabled:opacity-50"
+        >
+          <X className="w-4 h-4" /> Decline
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+const GameActions: React.FC<GameActionsProps> = ({
+  gameState,
+  playerRole,
+  busy,
+  onResign,
+  onOfferDraw,
+  onRespondDraw,
+  onRequestTakeback,
+  onRespondTakeback,
+}) => {
+  // Nothing to resign or offer before both players are seated, or after the end
+  if (gameState.status !== 'active') return null;
+
+  const isPlayer = playerRole !== 'spectator';
+  const { draw_offer: drawOffer, takeback_offer: takebackOffer } = gameState;
+
+  const offerText = (color: 'w' | 'b', what: string, waiting: string) =>
+    color === playerRole ? waiting : `${colorName(color)} ${what}`;
+
+  if (!isPlayer && !drawOffer && !takebackOffer) return null;
+
+  const buttonClass =
+    'flex items-center justify-center gap-1 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 space-y-3">
+      <h3 className="text-sm uppercase text-slate-400 font-semibold">Game actions</h3>
+
+      {drawOffer && (
+        <PendingOffer
+          text={offerText(drawOffer, 'offers a draw', 'Draw offered. Waiting for an answer...')}
+          busy={busy}
+          onAnswer={isPlayer && drawOffer !== playerRole ? onRespondDraw : undefined}
+        />
+      )}
+
+      {takebackOffer && (
+        <PendingOffer
+          text={offerText(takebackOffer, 'asks to take back a move', 'Takeback requested. Waiting for an answer...')}
+          busy={busy}
+          onAnswer={isPlayer && takebackOffer !== playerRole ? onRespondTakeback : undefined}
+        />
+      )}
+
+      {isPlayer && (
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={onResign} disabled={busy} title="Resign" className={buttonClass}>
+            <Flag className="w-4 h-4" /> Resign
+          </button>
+          <button onClick={onOfferDraw} disabled={busy || drawOffer === playerRole} title="Offer a draw" className={buttonClass}>
+            <Handshake className="w-4 h-4" /> Draw
+          </button>
+          <button
+            onClick={onRequestTakeback}
+            disabled={busy || gameState.ply === 0 || takebackOffer === playerRole}
+            title="Ask to take back your last move"
+            className={buttonClass}
+          >
+            <Undo2 className="w-4 h-4" /> Undo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameActions;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { RefreshCw, Trophy } from 'lucide-react';
+
+interface GameStatusCardProps {
+  message: string;
+  finished: boolean;
+  // Highlights the message, e.g. when it is the viewer's turn
+  highlight: boolean;
+  onRefresh?: () => void;
+}
+
+const GameStatusCard: React.FC<GameStatusCardProps> = ({ message, finished, highlight, onRefresh }) => (
+  <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
+    <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2 flex justify-between items-center">
+      Game Status
+      {onRefresh && (
+        <button onClick={onRefresh} title="Refresh Status" className="text-slate-400 hover:text-white">
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      )}
+    </h3>
+    <div className={`text-lg font-bold flex items-center gap-2 ${highlight ? 'text-emerald-400' : 'text-white'}`}>
+      {finished && <Trophy className="w-5 h-5 text-yellow-400" />}
+      {message}
+    </div>
+  </div>
+);
+
+export default GameStatusCard;
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, Loader2 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import { displayName, fetchProfiles } from '../lib/profiles';
+import { formatTimeControl, getTimeControl } from '../lib/timeControl';
+import { RatingBook, fetchRatings, formatRating, ratingCategory, ratingIn } from '../lib/ratings';
+import { VARIANTS } from '../lib/variants';
+import { GameState, Profile } from '../types';
+import Avatar from './Avatar';
+
+// Waiting games older than this are most likely abandoned by their creator
+const LOBBY_MAX_AGE_MS = 60 * 60 * 1000;
+const LOBBY_SIZE = 30;
+
+// Whether a game row belongs in the lobby; matches the fetch below
+const isListed = (g: GameState) =>
+  g.status === 'waiting' &&
+  g.is_public &&
+  !g.invite_only &&
+  Date.parse(g.created_at) >= Date.now() - LOBBY_MAX_AGE_MS;
+
+const Lobby: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [games, setGames] = useState<GameState[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [ratings, setRatings] = useState<RatingBook>({});
+  // Bounds on the creator's rating; blank means no bound
+  const [minRating, setMinRating] = useState('');
+  const [maxRating, setMaxRating] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchLobby = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('games')
+      .select('*')
+      .eq('status', 'waiting')
+      .eq('is_public', true)
+      .eq('invite_only', false)
+      .gte('created_at', new Date(Date.now() - LOBBY_MAX_AGE_MS).toISOString())
+      .order('created_at', { ascending: false })
+      .limit(LOBBY_SIZE);
+
+    if (error) {
+      console.error('Lobby fetch failed', error);
+    } else {
+      const open = data as GameState[];
+      setGames(open);
+      const creators = open.map((g) => g.player_white ?? g.player_black);
+      const [foundProfiles, foundRatings] = await Promise.all([fetchProfiles(creators), fetchRatings(creators)]);
+      setProfiles(foundProfiles);
+      setRatings(foundRatings);
+    }
+    setLoading(false);
+  }, []);
+
+  // Puts a changed game row in place, or takes it out once it can't be joined
+  const applyChange = useCallback(async (row: GameState) => {
+    setGames((current) => {
+      const rest = current.filter((g) => g.id !== row.id);
+      if (!isListed(row)) return rest;
+      return [row, ...rest].sort((a, b) => Date.parse(b.created_at) - Date.parse(a.created_at)).slice(0, LOBBY_SIZE);
+    });
+    const creatorId = row.player_white ?? row.player_black;
+    if (!isListed(row) || !creatorId) return;
+    const [foundProfiles, foundRatings] = await Promise.all([fetchProfiles([creatorId]), fetchRatings([creatorId])]);
+    setProfiles((current) => ({ ...current, ...foundProfiles }));
+    setRatings((current) => ({ ...current, ...foundRatings }));
+  }, []);
+
+  useEffect(() => {
+    fetchLobby();
+    // Only waiting games: the rows of games being played never reach the lobby
+    const channel = supabase
+      .channel('lobby')
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'games', filter: 'status=eq.waiting' },
+        (payload) => applyChange(payload.new as GameState)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'games', filter: 'status=eq.waiting' },
+        (payload) => applyChange(payload.new as GameState)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchLobby, applyChange]);
+
+  // Games leave the lobby by changing status, which the filter above no longer
+  // matches, so the listed games are watched by id as well
+  const listedIds = games.map((g) => g.id).join(',');
+  useEffect(() => {
+    if (!listedIds) return;
+    const channel = supabase
+      .channel('lobby_listed')
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'games', filter: `id=in.(${listedIds})` },
+        (payload) => applyChange(payload.new as GameState)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [listedIds, applyChange]);
+
+  // Creator's rating in the game's pool; untimed games have none
+  const creatorRating = (g: GameState) => {
+    const creatorId = g.player_white ?? g.player_black;
+    const category = ratingCategory(g);
+    return creatorId && category ? ratingIn(ratings, creatorId, category) : null;
+  };
+
+  const filtering = minRating.trim() !== '' || maxRating.trim() !== '';
+  const shown = games.filter((g) => {
+    if (!filtering) return true;
+    const rating = creatorRating(g);
+    if (!rating) return false;
+    if (minRating.trim() !== '' && rating.rating < Number(minRating)) return false;
+    if (maxRating.trim() !== '' && rating.rating > Number(maxRating)) return false;
+    return true;
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="flex-1 text-xs uppercase text-slate-400 font-semibold flex items-center gap-1">
+          <Users className="w-3 h-3" /> Open games
+        </p>
+        <span className="text-xs text-slate-500">Rating</span>
+        {[
+          { label: 'Minimum rating', value: minRating, onChange: setMinRating, placeholder: 'min' },
+          { label: 'Maximum rating', value: maxRating, onChange: setMaxRating, placeholder: 'max' },
+        ].map((bound) => (
+          <input
+            key={bound.label}
+            type="number"
+            step={50}
+            aria-label={bound.label}
+            placeholder={bound.placeholder}
+            value={bound.value}
+            onChange={(e) => bound.onChange(e.target.value)}
+            className="w-16 bg-slate-800 border border-slate-700 text-white rounded py-0.5 px-1.5 text-xs focus:outline-none focus:ring-1 focus:ring-emerald-500 placeholder:text-slate-500"
+          />
+        ))}
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="w-5 h-5 animate-spin text-slate-500" />
+        </div>
+      ) : shown.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-2">
+          {games.length === 0 ? 'No open games right now.' : 'No open games in that rating range.'}
+        </p>
+      ) : (
+        <ul className="max-h-56 overflow-y-auto space-y-1">
+          {shown.map((g) => {
+            const creatorId = g.player_white ?? g.player_black;
+            const rating = creatorRating(g);
+            const mine = creatorId === user.id;
+            // The joiner takes whichever seat is still empty
+            const joinAs = g.player_white ? 'Black' : 'White';
+            return (
+              <li key={g.id} className="flex items-center gap-2 bg-slate-800 rounded-lg px-3 py-2 text-sm">
+                <Avatar profile={creatorId ? profiles[creatorId] : null} />
+                <span className="flex-1 truncate">{creatorId ? displayName(profiles[creatorId]) : '?'}</span>
+                {rating && <span className="font-mono text-xs text-slate-400">{formatRating(rating)}</span>}
+                {g.rated && <span className="text-xs text-emerald-300">Rated</span>}
+                {g.variant !== 'standard' && (
+                  <span className="text-xs text-amber-300" title={VARIANTS[g.variant].description}>
+                    {VARIANTS[g.variant].label}
+                  </span>
+                )}
+                <span className="font-mono text-slate-300">{formatTimeControl(getTimeControl(g))}</span>
+                <span className="w-12 text-xs text-slate-400">{mine ? 'Yours' : joinAs}</span>
+                <button
+                  onClick={() => navigate(`/game/${g.id}`)}
+                  className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 rounded font-semibold text-xs"
+                >
+                  {mine ? 'Open' : 'Join'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Lobby;
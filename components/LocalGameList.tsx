@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { HardDrive, Trash2 } from 'lucide-react';
+import { deleteLocalGame, listLocalGames } from '../lib/localGames';
+import { LocalGame } from '../types';
+
+// Saved pass-and-play games on this device
+const LocalGameList: React.FC = () => {
+  const navigate = useNavigate();
+  const [games, setGames] = useState<LocalGame[]>([]);
+
+  useEffect(() => {
+    listLocalGames()
+      .then(setGames)
+      .catch((err) => console.error('Loading local games failed', err));
+  }, []);
+
+  const remove = async (id: string) => {
+    if (!window.confirm('Delete this saved game?')) return;
+    try {
+      await deleteLocalGame(id);
+      setGames((current) => current.filter((g) => g.id !== id));
+    } catch (err: any) {
+      console.error('Deleting local game failed', err);
+    }
+  };
+
+  if (games.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs uppercase text-slate-400 font-semibold flex items-center gap-1">
+        <HardDrive className="w-3 h-3" /> Saved on this device
+      </p>
+      <ul className="max-h-40 overflow-y-auto space-y-1">
+        {games.map((g) => (
+          <li key={g.id} className="flex items-center gap-2 bg-slate-800 rounded-lg px-3 py-2 text-sm">
+            <button onClick={() => navigate(`/local/${g.id}`)} className="flex-1 text-left truncate hover:text-emerald-400">
+              {new Date(g.updated_at).toLocaleString()}
+            </button>
+            <span className="text-xs text-slate-400">{g.moves.length} plies</span>
+            <span className="w-12 text-right font-mono text-xs text-slate-300">{g.result ?? 'live'}</span>
+            <button onClick={() => remove(g.id)} className="text-slate-500 hover:text-red-400" title="Delete">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default LocalGameList;
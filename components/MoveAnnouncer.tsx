@@ -0,0 +1,40 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { spokenMove } from '../lib/chess';
+import { MoveRecord } from '../types';
+
+interface MoveAnnouncerProps {
+  lastMove: Pick<MoveRecord, 'ply' | 'san' | 'color'> | null;
+  // Moves by this side are the player's own and go unannounced
+  ownColor?: 'w' | 'b';
+  // Empty until the game is over
+  result: string;
+}
+
+// Screen-reader announcements of new moves and the result; nothing on screen
+const MoveAnnouncer: React.FC<MoveAnnouncerProps> = ({ lastMove, ownColor, result }) => {
+  const [message, setMessage] = useState('');
+  // Only what happens after the page opens is news
+  const lastPlyRef = useRef(lastMove?.ply ?? 0);
+  const resultRef = useRef(result);
+
+  useEffect(() => {
+    const ply = lastMove?.ply ?? 0;
+    if (lastMove && ply > lastPlyRef.current && lastMove.color !== ownColor) {
+      setMessage(`${lastMove.color === 'w' ? 'White' : 'Black'} played ${spokenMove(lastMove.san)}`);
+    }
+    lastPlyRef.current = ply;
+  }, [lastMove?.ply, lastMove?.san]);
+
+  useEffect(() => {
+    if (result && result !== resultRef.current) setMessage(result);
+    resultRef.current = result;
+  }, [result]);
+
+  return (
+    <div role="status" aria-live="polite" className="sr-only">
+      {message}
+    </div>
+  );
+};
+
+export default MoveAnnouncer;
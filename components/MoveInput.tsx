@@ -0,0 +1,84 @@
+import React, { useId, useMemo, useState } from 'react';
+import { Keyboard } from 'lucide-react';
+import { findTypedMove } from '../lib/chess';
+import { createChess } from '../lib/variants';
+import { PromotionPiece, Variant } from '../types';
+
+interface MoveInputProps {
+  fen: string;
+  variant?: Variant;
+  disabled: boolean;
+  onMove: (from: string, to: string, promotion?: PromotionPiece) => boolean;
+}
+
+// Type a move instead of dragging: SAN or UCI, with the legal moves offered as suggestions
+const MoveInput: React.FC<MoveInputProps> = ({ fen, variant, disabled, onMove }) => {
+  const listId = useId();
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const game = useMemo(() => {
+    try {
+      return createChess(fen, variant);
+    } catch {
+      return null;
+    }
+  }, [fen, variant]);
+  const legalSans = useMemo(() => game?.moves() ?? [], [game]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!game || disabled) return;
+    const move = findTypedMove(game, text);
+    if (!move) {
+      setError(`"${text.trim()}" is not a legal move here.`);
+      return;
+    }
+    if (onMove(move.from, move.to, move.promotion as PromotionPiece | undefined)) {
+      setText('');
+      setError(null);
+    } else {
+      setError('That move could not be played.');
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-1">
+      <label className="text-xs uppercase text-slate-400 font-semibold flex items-center gap-1" htmlFor={`${listId}-input`}>
+        <Keyboard className="w-3 h-3" /> Type a move
+      </label>
+      <div className="flex gap-2">
+        <input
+          id={`${listId}-input`}
+          list={listId}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setError(null);
+          }}
+          disabled={disabled}
+          placeholder={disabled ? 'Not your turn' : 'e.g. Nf3 or e2e4'}
+          autoComplete="off"
+          aria-invalid={!!error}
+          aria-describedby={error ? `${listId}-error` : undefined}
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Play
+        </button>
+      </div>
+      <datalist id={listId}>
+        {legalSans.map((san) => <option key={san} value={san} />)}
+      </datalist>
+      {error && (
+        <p id={`${listId}-error`} role="alert" className="text-xs text-red-300">{error}</p>
+      )}
+    </form>
+  );
+};
+
+export default MoveInput;
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Radio } from 'lucide-react';
+import { MoveClassification, MoveRecord } from '../types';
+
+interface MoveListProps {
+  moves: MoveRecord[];
+  // Ply shown on the board, or null when following the live game
+  viewPly: number | null;
+  onNavigate: (ply: number | null) => void;
+  // Engine verdicts by ply, shown after the move in post-game analysis
+  annotations?: Record<number, MoveClassification | null>;
+}
+
+const ANNOTATION_MARKS: Record<MoveClassification, { mark: string; className: string }> = {
+  inaccuracy: { mark: '?!', className: 'text-yellow-400' },
+  mistake: { mark: '?', className: 'text-orange-400' },
+  blunder: { mark: '??', className: 'text-red-400' },
+};
+
+interface MoveRow {
+  number: number;
+  white?: MoveRecord;
+  black?: MoveRecord;
+}
+
+// Pair moves into numbered rows. Numbers come from the position itself so
+// games that start from a custom FEN (or with Black to move) line up.
+const toRows = (moves: MoveRecord[]): MoveRow[] => {
+  const rows: MoveRow[] = [];
+  moves.forEach((move) => {
+    const fullmove = parseInt(move.fen_after.split(' ')[5], 10) || 1;
+    const number = move.color === 'b' ? fullmove - 1 : fullmove;
+    const last = rows[rows.length - 1];
+    if (move.color === 'b' && last && last.number === number && !last.black) {
+      last.black = move;
+    } else {
+      rows.push(move.color === 'w' ? { number, white: move } : { number, black: move });
+    }
+  });
+  return rows;
+};
+
+const MoveList: React.FC<MoveListProps> = ({ moves, viewPly, onNavigate, annotations }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+  const lastPly = moves.length;
+  const currentPly = viewPly ?? lastPly;
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentPly]);
+
+  const goTo = (ply: number) => onNavigate(ply >= lastPly ? null : Math.max(0, ply));
+
+  const renderMove = (move?: MoveRecord) => {
+    if (!move) return <span className="px-2 py-0.5 text-slate-600">…</span>;
+    const active = move.ply === currentPly;
+    const annotation = annotations?.[move.ply];
+    return (
+      <button
+        ref={active ? activeRef : undefined}
+        onClick={() => goTo(move.ply)}
+        className={`px-2 py-0.5 rounded text-left font-mono transition-colors ${
+          active ? 'bg-emerald-600 text-white' : 'text-slate-200 hover:bg-slate-600'
+        }`}
+      >
+        {move.san}
+        {annotation && (
+          <span className={`ml-0.5 font-bold ${active ? 'text-white' : ANNOTATION_MARKS[annotation].className}`}>
+            {ANNOTATION_MARKS[annotation].mark}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  const navButton = 'p-2 rounded bg-slate-800 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-800 transition-colors';
+
+  return (
+    <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
+      <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2">Moves</h3>
+
+      <div className="max-h-56 overflow-y-auto text-sm">
+        {moves.length === 0 ? (
+          <p className="text-slate-500 italic">No moves yet</p>
+        ) : (
+          <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-y-0.5 items-center">
+            {toRows(moves).map((row) => (
+              <React.Fragment key={row.number}>
+                <span className="text-slate-500 font-mono">{row.number}.</span>
+                {renderMove(row.white)}
+                {renderMove(row.black)}
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-1 mt-3">
+        <button onClick={() => goTo(0)} disabled={currentPly === 0} title="First move" className={navButton}>
+          <ChevronsLeft className="w-4 h-4" />
+        </button>
+        <button onClick={() => goTo(currentPly - 1)} disabled={currentPly === 0} title="Previous move (←)" className={navButton}>
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button onClick={() => goTo(currentPly + 1)} disabled={viewPly === null} title="Next move (→)" className={navButton}>
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <button onClick={() => onNavigate(null)} disabled={viewPly === null} title="Last move" className={navButton}>
+          <ChevronsRight className="w-4 h-4" />
+        </button>
+      </div>
+
+      {viewPly !== null && (
+        <button
+          onClick={() => onNavigate(null)}
+          className="w-full mt-3 flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition-colors text-sm"
+        >
+          <Radio className="w-4 h-4" /> Back to live
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MoveList;
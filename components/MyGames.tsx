@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Swords, Archive } from 'lucide-react';
+import { useAuth } from '../lib/auth';
+import { displayName, fetchProfiles } from '../lib/profiles';
+import { fetchGamesToMove } from '../lib/playerGames';
+import { formatTimeControl, getTimeControl } from '../lib/timeControl';
+import { GameState, Profile } from '../types';
+import Avatar from './Avatar';
+
+// Ongoing online games waiting on the current user's move, and the way to their archive
+const MyGames: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [games, setGames] = useState<GameState[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+
+  useEffect(() => {
+    fetchGamesToMove(user.id)
+      .then(async (found) => {
+        setGames(found);
+        setProfiles(await fetchProfiles(found.map((g) => (g.player_white === user.id ? g.player_black : g.player_white))));
+      })
+      .catch((err: any) => console.error('Loading my games failed', err));
+  }, [user.id]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs uppercase text-slate-400 font-semibold flex items-center gap-1">
+          <Swords className="w-3 h-3" /> My games
+        </p>
+        <button
+          onClick={() => navigate(`/player/${user.id}`)}
+          className="text-xs text-slate-400 hover:text-emerald-400 flex items-center gap-1"
+        >
+          <Archive className="w-3 h-3" /> Profile and past games
+        </button>
+      </div>
+      {games.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center py-2">No games waiting on your move.</p>
+      ) : (
+        <ul className="max-h-40 overflow-y-auto space-y-1">
+          {games.map((g) => {
+            const opponentId = g.player_white === user.id ? g.player_black : g.player_white;
+            return (
+              <li key={g.id} className="flex items-center gap-2 bg-slate-800 rounded-lg px-3 py-2 text-sm">
+                <Avatar profile={opponentId ? profiles[opponentId] : null} />
+                <span className="flex-1 truncate">vs {opponentId ? displayName(profiles[opponentId]) : '?'}</span>
+                <span className="font-mono text-slate-300">{formatTimeControl(getTimeControl(g))}</span>
+                <button
+                  onClick={() => navigate(`/game/${g.id}`)}
+                  className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 rounded font-semibold text-xs"
+                >
+                  Your move
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MyGames;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { FileUp, Microscope, Play } from 'lucide-react';
+import { parsePgn, ParsedPgn } from '../lib/pgn';
+import { VARIANTS } from '../lib/variants';
+
+interface PgnImportPanelProps {
+  busy: boolean;
+  onPlay: (parsed: ParsedPgn) => void;
+  onAnalyze: (parsed: ParsedPgn) => void;
+}
+
+const PgnImportPanel: React.FC<PgnImportPanelProps> = ({ busy, onPlay, onAnalyze }) => {
+  const [pgn, setPgn] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setPgn(await file.text());
+    setError(null);
+    e.target.value = '';
+  };
+
+  const parse = (): ParsedPgn | null => {
+    try {
+      const parsed = parsePgn(pgn);
+      setError(null);
+      return parsed;
+    } catch (err: any) {
+      setError(err.message || 'Could not read this PGN.');
+      return null;
+    }
+  };
+
+  const play = () => {
+    const parsed = parse();
+    if (!parsed) return;
+    if (parsed.gameOver) {
+      setError('The imported game is already over. Open it in analysis instead.');
+      return;
+    }
+    // New games start with no checks given, so the count would be lost
+    if (parsed.variant === 'three_check' && (parsed.checks.w > 0 || parsed.checks.b > 0)) {
+      setError('Checks already given in this Three-check game would not carry over, so it can only be continued before the first check.');
+      return;
+    }
+    onPlay(parsed);
+  };
+
+  const analyze = () => {
+    const parsed = parse();
+    if (!parsed) return;
+    // The analysis board and its engine only know regular chess
+    if (parsed.variant !== 'standard') {
+      setError(`Analysis is only available for standard chess, not ${VARIANTS[parsed.variant].label}.`);
+      return;
+    }
+    onAnalyze(parsed);
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        placeholder="Paste PGN here..."
+        value={pgn}
+        onChange={(e) => setPgn(e.target.value)}
+        rows={5}
+        className="w-full bg-slate-800 border border-slate-700 text-white rounded-xl p-3 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all placeholder:text-slate-500"
+      />
+      <label className="flex items-center justify-center gap-2 text-sm text-slate-400 hover:text-white cursor-pointer transition-colors">
+        <FileUp className="w-4 h-4" /> Upload .pgn file
+        <input type="file" accept=".pgn,text/plain" onChange={onFile} className="hidden" />
+      </label>
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={play}
+          disabled={!pgn.trim() || busy}
+          className="py-2 bg-emerald-700 hover:bg-emerald-600 text-white rounded-lg font-semibold text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <Play className="w-4 h-4" /> Play from here
+        </button>
+        <button
+          onClick={analyze}
+          disabled={!pgn.trim()}
+          className="py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg font-semibold text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <Microscope className="w-4 h-4" /> Analyze
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PgnImportPanel;
@@ -0,0 +1,20 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Player } from '../types';
+
+const PlayerRoleCard: React.FC<{ role: Player['color'] }> = ({ role }) => (
+  <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
+    <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2">You are playing as</h3>
+    <div className="flex items-center gap-2 font-medium">
+      {role === 'w' && <div className="w-4 h-4 bg-white rounded-full border border-slate-300"></div>}
+      {role === 'b' && <div className="w-4 h-4 bg-black rounded-full border border-slate-500"></div>}
+      {role === 'spectator' && <Users className="w-4 h-4" />}
+
+      {role === 'w' && 'White'}
+      {role === 'b' && 'Black'}
+      {role === 'spectator' && 'Spectator'}
+    </div>
+  </div>
+);
+
+export default PlayerRoleCard;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { PresenceStatus } from '../lib/presence';
+
+const DOT_CLASSES: Record<PresenceStatus, string> = {
+  online: 'bg-emerald-400',
+  away: 'bg-amber-400',
+  offline: 'bg-slate-500',
+};
+
+const PresenceDot: React.FC<{ status: PresenceStatus }> = ({ status }) => (
+  <span
+    className={`inline-block w-2.5 h-2.5 rounded-full shrink-0 ${DOT_CLASSES[status]}`}
+    title={status.charAt(0).toUpperCase() + status.slice(1)}
+  />
+);
+
+export default PresenceDot;
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, Pencil, LogOut } from 'lucide-react';
+import { useAuth } from '../lib/auth';
+import Avatar from './Avatar';
+
+const ProfileCard: React.FC = () => {
+  const { user, profile, updateProfile, linkEmail, signInWithEmail, signOut } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [avatarUrl, setAvatarUrl] = useState('');
+  const [email, setEmail] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(profile?.display_name ?? '');
+    setAvatarUrl(profile?.avatar_url ?? '');
+  }, [profile]);
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setNotice(null);
+    try {
+      await updateProfile({ display_name: name.trim(), avatar_url: avatarUrl.trim() || null });
+      setEditing(false);
+    } catch (err: any) {
+      console.error('Profile update failed', err);
+      setNotice(err.message || 'Could not save profile.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const sendEmail = async (mode: 'link' | 'signin') => {
+    if (!email.trim()) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      if (mode === 'link') {
+        await linkEmail(email.trim());
+        setNotice('Check your inbox to confirm the address and keep this account.');
+      } else {
+        await signInWithEmail(email.trim());
+        setNotice('Check your inbox for a sign-in link.');
+      }
+    } catch (err: any) {
+      console.error('Email auth failed', err);
+      setNotice(err.message || 'Could not send email.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <Avatar profile={profile} size="md" />
+        <div className="flex-1 min-w-0">
+          <div className="font-semibold truncate">{profile?.display_name ?? 'Anonymous'}</div>
+          <div className="text-xs text-slate-400 truncate">{user.is_anonymous ? 'Guest account' : user.email}</div>
+        </div>
+        <button
+          onClick={() => setEditing((v) => !v)}
+          className="p-2 text-slate-400 hover:text-white transition-colors"
+          title="Edit profile"
+        >
+          <Pencil className="w-4 h-4" />
+        </button>
+        {!user.is_anonymous && (
+          <button onClick={signOut} className="p-2 text-slate-400 hover:text-red-400 transition-colors" title="Sign out">
+            <LogOut className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <form onSubmit={saveProfile} className="space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={30}
+            placeholder="Display name"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <input
+            type="url"
+            value={avatarUrl}
+            onChange={(e) => setAvatarUrl(e.target.value)}
+            placeholder="Avatar image URL (optional)"
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || !name.trim()}
+            className="w-full py-2 bg-blue-600 hover:bg-blue-500 rounded-lg text-sm font-semibold disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {user.is_anonymous && (
+        <div className="space-y-2">
+          <div className="relative">
+            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 w-4 h-4" />
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email to keep your games"
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg py-2 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => sendEmail('link')}
+              disabled={busy || !email.trim()}
+              className="py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs font-semibold disabled:opacity-50"
+            >
+              Save account
+            </button>
+            <button
+              onClick={() => sendEmail('signin')}
+              disabled={busy || !email.trim()}
+              className="py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-xs font-semibold disabled:opacity-50"
+            >
+              Sign in instead
+            </button>
+          </div>
+        </div>
+      )}
+
+      {notice && <p className="text-xs text-slate-300">{notice}</p>}
+    </div>
+  );
+};
+
+export default ProfileCard;
@@ -0,0 +1,50 @@
+import React from 'react';
+import { PromotionPiece } from '../types';
+
+interface PromotionPickerProps {
+  color: 'w' | 'b';
+  onSelect: (piece: PromotionPiece) => void;
+  onCancel: () => void;
+}
+
+const PIECES: { type: PromotionPiece; label: string; white: string; black: string }[] = [
+  { type: 'q', label: 'Queen', white: '♕', black: '♛' },
+  { type: 'r', label: 'Rook', white: '♖', black: '♜' },
+  { type: 'b', label: 'Bishop', white: '♗', black: '♝' },
+  { type: 'n', label: 'Knight', white: '♘', black: '♞' },
+];
+
+const PromotionPicker: React.FC<PromotionPickerProps> = ({ color, onSelect, onCancel }) => {
+  return (
+    <div
+      className="absolute inset-0 z-30 bg-slate-950/70 flex items-center justify-center"
+      onClick={onCancel}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <div
+        className="bg-slate-800 border border-slate-600 rounded-xl p-3 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <p className="text-xs uppercase text-slate-400 font-semibold mb-2 text-center">Promote to</p>
+        <div className="flex gap-2">
+          {PIECES.map((p, i) => (
+            <button
+              key={p.type}
+              title={p.label}
+              aria-label={p.label}
+              autoFocus={i === 0}
+              onClick={() => onSelect(p.type)}
+              className="w-14 h-14 text-4xl leading-none rounded-lg bg-slate-700 hover:bg-emerald-600 text-white transition-colors flex items-center justify-center"
+            >
+              {color === 'w' ? p.white : p.black}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromotionPicker;
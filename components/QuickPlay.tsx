@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Zap, Loader2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import { formatTimeControl } from '../lib/timeControl';
+import { TimeControl } from '../types';
+
+// join_queue doubles as the heartbeat; the server drops entries after 15s
+const QUEUE_POLL_MS = 3000;
+
+interface QuickPlayProps {
+  timeControl: TimeControl | null;
+  rated: boolean;
+}
+
+const QuickPlay: React.FC<QuickPlayProps> = ({ timeControl, rated }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!searching) return;
+    let stopped = false;
+
+    const leaveQueue = () => {
+      supabase.from('matchmaking_queue').delete().eq('user_id', user.id).then(({ error }) => {
+        if (error) console.error('Leaving queue failed', error);
+      });
+    };
+
+    const poll = async () => {
+      const { data, error } = await supabase.rpc('join_queue', {
+        p_base_seconds: timeControl?.baseSeconds ?? null,
+        p_increment_seconds: timeControl?.incrementSeconds ?? 0,
+        p_rated: rated,
+      });
+      if (stopped) return;
+      if (error) {
+        console.error('Quick play failed', error);
+        setError(error.message);
+        setSearching(false);
+      } else if (data) {
+        stopped = true;
+        navigate(`/game/${data}`);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, QUEUE_POLL_MS);
+    window.addEventListener('beforeunload', leaveQueue);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', leaveQueue);
+      if (!stopped) leaveQueue();
+      stopped = true;
+    };
+  }, [searching, timeControl, rated, user.id, navigate]);
+
+  if (searching) {
+    return (
+      <div className="w-full py-3 px-4 bg-slate-800 border border-emerald-700 rounded-xl flex items-center gap-3">
+        <Loader2 className="w-5 h-5 animate-spin text-emerald-400" />
+        <span className="flex-1 text-sm">Looking for a {rated ? 'rated' : 'casual'} {formatTimeControl(timeControl)} opponent...</span>
+        <button onClick={() => setSearching(false)} className="text-slate-400 hover:text-white" title="Cancel">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => {
+          setError(null);
+          setSearching(true);
+        }}
+        className="w-full py-3 bg-blue-600 hover:bg-blue-500 active:bg-blue-700 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-2"
+      >
+        <Zap className="w-5 h-5 fill-current" /> Quick play {formatTimeControl(timeControl)}
+      </button>
+      {error && <p className="text-xs text-red-300 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default QuickPlay;
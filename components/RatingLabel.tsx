@@ -0,0 +1,23 @@
+import React from 'react';
+import { formatRatingChange } from '../lib/ratings';
+
+interface RatingLabelProps {
+  // Already formatted, e.g. "1500?"
+  rating: string;
+  // Set once a rated game is over
+  change: number | null;
+}
+
+const RatingLabel: React.FC<RatingLabelProps> = ({ rating, change }) => (
+  <span className="shrink-0 text-sm font-mono text-slate-500">
+    ({rating}
+    {change !== null && (
+      <span className={change > 0 ? 'text-emerald-400' : change < 0 ? 'text-red-400' : 'text-slate-400'}>
+        {' '}{formatRatingChange(change)}
+      </span>
+    )}
+    )
+  </span>
+);
+
+export default RatingLabel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Settings as SettingsIcon, X } from 'lucide-react';
+import { ANIMATION_MS, BOARD_THEMES, useSettings } from '../lib/settings';
+import { PIECE_SETS } from '../lib/pieceSets';
+import { playSound } from '../lib/sounds';
+import { AnimationSpeed, BoardTheme, PieceSet } from '../types';
+
+const Choice: React.FC<{ selected: boolean; onClick: () => void; children: React.ReactNode }> = ({ selected, onClick, children }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className={`py-1.5 px-2 rounded-lg text-sm font-semibold capitalize transition-colors ${
+      selected ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+const Toggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string }> = ({ checked, onChange, label }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-emerald-500" />
+    {label}
+  </label>
+);
+
+// Gear button that opens the board and sound settings
+const SettingsButton: React.FC = () => {
+  const { settings, updateSettings } = useSettings();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors"
+      >
+        <SettingsIcon className="w-4 h-4" /> Settings
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 z-50 bg-slate-950/70 flex items-center justify-center p-4" onClick={() => setOpen(false)}>
+          <div
+            role="dialog"
+            aria-label="Settings"
+            className="w-full max-w-sm bg-slate-900 border border-slate-700 rounded-2xl p-6 shadow-2xl space-y-5 text-slate-100"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold">Settings</h2>
+              <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-white" title="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div>
+              <p className="text-xs uppercase text-slate-400 font-semibold mb-2">Board</p>
+              <div className="grid grid-cols-5 gap-2">
+                {(Object.keys(BOARD_THEMES) as BoardTheme[]).map((theme) => (
+                  <button
+                    key={theme}
+                    type="button"
+                    title={BOARD_THEMES[theme].label}
+                    onClick={() => updateSettings({ board_theme: theme })}
+                    className={`aspect-square rounded-lg overflow-hidden grid grid-cols-2 border-2 ${
+                      settings.board_theme === theme ? 'border-emerald-500' : 'border-transparent'
+                    }`}
+                  >
+                    {[0, 1, 2, 3].map((i) => (
+                      <span
+                        key={i}
+                        style={{ backgroundColor: i === 0 || i === 3 ? BOARD_THEMES[theme].light : BOARD_THEMES[theme].dark }}
+                      />
+                    ))}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs uppercase text-slate-400 font-semibold mb-2">Pieces</p>
+              <div className="grid grid-cols-3 gap-2">
+                {(Object.keys(PIECE_SETS) as PieceSet[]).map((set) => (
+                  <Choice key={set} selected={settings.piece_set === set} onClick={() => updateSettings({ piece_set: set })}>
+                    {PIECE_SETS[set].label}
+                  </Choice>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs uppercase text-slate-400 font-semibold mb-2">Animation</p>
+              <div className="grid grid-cols-4 gap-2">
+                {(Object.keys(ANIMATION_MS) as AnimationSpeed[]).map((speed) => (
+                  <Choice key={speed} selected={settings.animation_speed === speed} onClick={() => updateSettings({ animation_speed: speed })}>
+                    {speed}
+                  </Choice>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Toggle
+                label="Show coordinates"
+                checked={settings.show_coordinates}
+                onChange={(show_coordinates) => updateSettings({ show_coordinates })}
+              />
+              <Toggle
+                label="Sounds"
+                checked={settings.sound}
+                onChange={(sound) => {
+                  updateSettings({ sound });
+                  if (sound) playSound('move');
+                }}
+              />
+              <Toggle
+                label="Show build badge on the board"
+                checked={settings.show_badge}
+                onChange={(show_badge) => updateSettings({ show_badge })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default SettingsButton;
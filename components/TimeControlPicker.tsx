@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Timer } from 'lucide-react';
+import { TimeControl } from '../types';
+import { TIME_CONTROL_PRESETS, formatTimeControl } from '../lib/timeControl';
+
+interface TimeControlPickerProps {
+  value: TimeControl | null;
+  onChange: (value: TimeControl | null) => void;
+}
+
+const isSame = (a: TimeControl | null, b: TimeControl | null) =>
+  a?.baseSeconds === b?.baseSeconds && a?.incrementSeconds === b?.incrementSeconds;
+
+const TimeControlPicker: React.FC<TimeControlPickerProps> = ({ value, onChange }) => {
+  const [custom, setCustom] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState('5');
+  const [customIncrement, setCustomIncrement] = useState('3');
+
+  const applyCustom = (minutes: string, increment: string) => {
+    const baseSeconds = Math.round(parseFloat(minutes) * 60);
+    const incrementSeconds = parseInt(increment, 10);
+    if (baseSeconds > 0 && incrementSeconds >= 0) {
+      onChange({ baseSeconds, incrementSeconds });
+    }
+  };
+
+  const buttonClass = (selected: boolean) =>
+    `py-2 rounded-lg text-sm font-semibold transition-colors ${
+      selected ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+    }`;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs uppercase text-slate-400 font-semibold flex items-center gap-1">
+        <Timer className="w-3 h-3" /> Time control
+      </p>
+      {TIME_CONTROL_PRESETS.map(({ category, controls }) => (
+        <div key={category} className="flex items-center gap-2">
+          <span className="w-14 text-xs text-slate-500 capitalize">{category}</span>
+          <div className="flex-1 grid grid-cols-3 gap-2">
+            {controls.map((tc) => (
+              <button
+                key={formatTimeControl(tc)}
+                type="button"
+                onClick={() => {
+                  setCustom(false);
+                  onChange(tc);
+                }}
+                className={buttonClass(!custom && isSame(value, tc))}
+              >
+                {formatTimeControl(tc)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className="grid grid-cols-2 gap-2 pt-1">
+        <button
+          type="button"
+          onClick={() => {
+            setCustom(false);
+            onChange(null);
+          }}
+          className={buttonClass(!custom && value === null)}
+        >
+          Untimed
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setCustom(true);
+            applyCustom(customMinutes, customIncrement);
+          }}
+          className={buttonClass(custom)}
+        >
+          Custom
+        </button>
+      </div>
+      {custom && (
+        <div className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="number"
+            min="0.25"
+            step="0.25"
+            value={customMinutes}
+            onChange={(e) => {
+              setCustomMinutes(e.target.value);
+              applyCustom(e.target.value, customIncrement);
+            }}
+            className="w-20 bg-slate-800 border border-slate-700 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>min +</span>
+          <input
+            type="number"
+            min="0"
+            value={customIncrement}
+            onChange={(e) => {
+              setCustomIncrement(e.target.value);
+              applyCustom(customMinutes, e.target.value);
+            }}
+            className="w-20 bg-slate-800 border border-slate-700 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <span>sec</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeControlPicker;
@@ -0,0 +1,34 @@
+import React, { useEffect } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+
+interface ToastProps {
+  message: string | null;
+  onDismiss: () => void;
+  durationMs?: number;
+}
+
+// Short-lived notice pinned to the bottom of the screen
+const Toast: React.FC<ToastProps> = ({ message, onDismiss, durationMs = 4000 }) => {
+  useEffect(() => {
+    if (!message) return;
+    const timeout = setTimeout(onDismiss, durationMs);
+    return () => clearTimeout(timeout);
+  }, [message, onDismiss, durationMs]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      role="alert"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 px-4 py-3 bg-red-900/90 border border-red-700 rounded-lg shadow-lg text-sm text-red-100"
+    >
+      <AlertTriangle className="w-4 h-4 shrink-0" />
+      <span>{message}</span>
+      <button onClick={onDismiss} className="text-red-300 hover:text-white" title="Dismiss">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default Toast;
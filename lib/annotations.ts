@@ -0,0 +1,89 @@
+import { AnnotationColor, BoardAnnotations } from '../types';
+
+export const EMPTY_ANNOTATIONS: BoardAnnotations = { arrows: [], circles: [] };
+
+export const ANNOTATION_COLORS: Record<AnnotationColor, string> = {
+  green: 'rgba(21, 128, 61, 0.8)',
+  red: 'rgba(220, 38, 38, 0.8)',
+  blue: 'rgba(37, 99, 235, 0.8)',
+  yellow: 'rgba(234, 179, 8, 0.8)',
+};
+
+// Plain right-drag draws green; Shift red, Alt blue, both yellow
+export const colorForModifiers = (e: { shiftKey: boolean; altKey: boolean }): AnnotationColor => {
+  if (e.shiftKey && e.altKey) return 'yellow';
+  if (e.shiftKey) return 'red';
+  if (e.altKey) return 'blue';
+  return 'green';
+};
+
+export const isEmptyAnnotations = (annotations: BoardAnnotations) =>
+  annotations.arrows.length === 0 && annotations.circles.length === 0;
+
+// Drawing the same arrow again removes it; a new colour replaces the old
+export const toggleArrow = (annotations: BoardAnnotations, from: string, to: string, color: AnnotationColor): BoardAnnotations => {
+  const existing = annotations.arrows.find((a) => a.from === from && a.to === to);
+  const arrows = annotations.arrows.filter((a) => a !== existing);
+  if (existing?.color !== color) arrows.push({ from, to, color });
+  return { ...annotations, arrows };
+};
+
+export const toggleCircle = (annotations: BoardAnnotations, square: string, color: AnnotationColor): BoardAnnotations => {
+  const existing = annotations.circles.find((c) => c.square === square);
+  const circles = annotations.circles.filter((c) => c !== existing);
+  if (existing?.color !== color) circles.push({ square, color });
+  return { ...annotations, circles };
+};
+
+// Later sets win where they mark the same arrow or square
+export const mergeAnnotations = (...sets: BoardAnnotations[]): BoardAnnotations => {
+  const arrows = new Map<string, BoardAnnotations['arrows'][number]>();
+  const circles = new Map<string, BoardAnnotations['circles'][number]>();
+  sets.forEach((set) => {
+    set.arrows.forEach((arrow) => arrows.set(arrow.from + arrow.to, arrow));
+    set.circles.forEach((circle) => circles.set(circle.square, circle));
+  });
+  return { arrows: [...arrows.values()], circles: [...circles.values()] };
+};
+
+/*
+ * PGN carries annotations in move comments the way most chess software
+ * writes them: [%cal Ge2e4,Rd1d8] for arrows and [%csl Gd4] for squares,
+ * with the colour as its initial.
+ */
+
+const COLOR_LETTERS: Record<AnnotationColor, string> = { green: 'G', red: 'R', blue: 'B', yellow: 'Y' };
+
+const colorForLetter = (letter: string): AnnotationColor | undefined =>
+  (Object.keys(COLOR_LETTERS) as AnnotationColor[]).find((c) => COLOR_LETTERS[c] === letter.toUpperCase());
+
+// The comment for a move, without braces; empty when there is nothing to say
+export const annotationsToComment = (annotations: BoardAnnotations): string => {
+  const parts: string[] = [];
+  if (annotations.arrows.length > 0) {
+    parts.push(`[%cal ${annotations.arrows.map((a) => `${COLOR_LETTERS[a.color]}${a.from}${a.to}`).join(',')}]`);
+  }
+  if (annotations.circles.length > 0) {
+    parts.push(`[%csl ${annotations.circles.map((c) => `${COLOR_LETTERS[c.color]}${c.square}`).join(',')}]`);
+  }
+  return parts.join(' ');
+};
+
+// Reads [%cal] and [%csl] out of a comment; anything else is ignored
+export const annotationsFromComment = (comment: string): BoardAnnotations => {
+  const annotations: BoardAnnotations = { arrows: [], circles: [] };
+  const square = '[a-h][1-8]';
+  for (const match of comment.matchAll(/\[%(cal|csl)\s+([^\]]*)\]/g)) {
+    match[2].split(',').forEach((entry) => {
+      const token = entry.trim();
+      const color = colorForLetter(token[0] ?? '');
+      if (!color) return;
+      if (match[1] === 'cal' && new RegExp(`^.${square}${square}$`).test(token)) {
+        annotations.arrows.push({ from: token.slice(1, 3), to: token.slice(3, 5), color });
+      } else if (match[1] === 'csl' && new RegExp(`^.${square}$`).test(token)) {
+        annotations.circles.push({ square: token.slice(1, 3), color });
+      }
+    });
+  }
+  return annotations;
+};
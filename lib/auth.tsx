@@ -0,0 +1,172 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { Loader2 } from 'lucide-react';
+import { supabase } from './supabase';
+import { transport } from './backend';
+import { useAccountSettings } from './settings';
+import { clearLegacyUserId, getGuestId, getLegacyUserId } from './utils';
+import { GUEST_ID_KEY } from '../constants';
+import { Profile } from '../types';
+
+// The self-hosted server has no accounts; everyone plays as a guest
+const GUEST_ONLY = transport.kind !== 'supabase';
+
+type AuthUser = Pick<User, 'id' | 'email' | 'is_anonymous'>;
+
+interface AuthContextValue {
+  user: AuthUser;
+  profile: Profile | null;
+  updateProfile: (changes: Partial<Pick<Profile, 'display_name' | 'avatar_url'>>) => Promise<void>;
+  // Attach an email to the current (anonymous) account so it survives devices
+  linkEmail: (email: string) => Promise<void>;
+  // Sign in to an existing email account with a magic link
+  signInWithEmail: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Seats held under this browser's old localStorage id move into the account
+const migrateLegacyIdentity = async () => {
+  const legacyId = getLegacyUserId();
+  if (!legacyId) return;
+  const { error } = await supabase.rpc('migrate_legacy_identity', { p_legacy_id: legacyId });
+  if (error) {
+    console.error('Legacy identity migration failed', error);
+    // Claimed by another account already; nothing left to migrate here
+    if (error.code !== '42501') return;
+  }
+  clearLegacyUserId();
+};
+
+/**
+ * Makes sure every visitor has a Supabase Auth session before the app renders,
+ * signing in anonymously when there is none.
+ */
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Guests on the self-hosted server keep settings in this browser only
+  useAccountSettings(GUEST_ONLY ? null : user?.id ?? null);
+
+  const loadProfile = useCallback(async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, display_name, avatar_url')
+      .eq('id', userId)
+      .single();
+    if (error) console.error('Profile load failed', error);
+    setProfile(data ?? null);
+  }, []);
+
+  useEffect(() => {
+    if (GUEST_ONLY) {
+      const id = getGuestId();
+      setUser({ id, is_anonymous: true });
+      setProfile({ id, display_name: `Guest ${id.slice(0, 4).toUpperCase()}`, avatar_url: null });
+      return;
+    }
+
+    const init = async () => {
+      try {
+        let { data: { session } } = await supabase.auth.getSession();
+        if (!session) {
+          const { data, error } = await supabase.auth.signInAnonymously();
+          if (error) throw error;
+          session = data.session;
+        }
+        if (!session) throw new Error('No session');
+
+        await migrateLegacyIdentity();
+        setUser(session.user);
+        await loadProfile(session.user.id);
+      } catch (err: any) {
+        console.error('Sign-in failed', err);
+        setError(err.message || 'Could not sign in.');
+      }
+    };
+    init();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (session?.user) {
+        setUser(session.user);
+        loadProfile(session.user.id);
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [loadProfile]);
+
+  const updateProfile: AuthContextValue['updateProfile'] = async (changes) => {
+    if (!user) return;
+    if (GUEST_ONLY) {
+      // Only this tab sees the change
+      setProfile((current) => current && { ...current, ...changes });
+      return;
+    }
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', user.id)
+      .select('id, display_name, avatar_url')
+      .single();
+    if (error) throw error;
+    setProfile(data);
+  };
+
+  const linkEmail = async (email: string) => {
+    if (GUEST_ONLY) throw new Error('Accounts need the Supabase backend.');
+    const { error } = await supabase.auth.updateUser({ email });
+    if (error) throw error;
+  };
+
+  const signInWithEmail = async (email: string) => {
+    if (GUEST_ONLY) throw new Error('Accounts need the Supabase backend.');
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: window.location.origin },
+    });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    if (GUEST_ONLY) localStorage.removeItem(GUEST_ID_KEY);
+    else await supabase.auth.signOut();
+    window.location.reload();
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white p-4">
+        <div className="bg-red-900/50 p-6 rounded-lg border border-red-700 text-center">
+            <h2 className="text-xl font-bold mb-2">Error</h2>
+            <p>{error}</p>
+            <a href="#/local/new" className="inline-block mt-4 px-4 py-2 bg-slate-700 rounded hover:bg-slate-600">
+                Play offline
+            </a>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white">
+        <Loader2 className="w-10 h-10 animate-spin mb-4 text-emerald-500" />
+        <p>Signing in...</p>
+      </div>
+    );
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, profile, updateProfile, linkEmail, signInWithEmail, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = (): AuthContextValue => {
+  const value = useContext(AuthContext);
+  if (!value) throw new Error('useAuth must be used inside AuthProvider');
+  return value;
+};
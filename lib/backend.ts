@@ -0,0 +1,9 @@
+import { GameTransport } from './transport';
+import { supabaseTransport } from './supabaseTransport';
+import { createWsTransport } from './wsTransport';
+
+// The backend games are played through. VITE_TRANSPORT=ws uses the
+// self-hosted server in server/ instead of Supabase.
+export const transport: GameTransport = import.meta.env.VITE_TRANSPORT === 'ws'
+  ? createWsTransport(import.meta.env.VITE_WS_URL || 'ws://localhost:8787')
+  : supabaseTransport;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_POSITION, parseEditorFen, possibleCastling, possibleEnPassant, setupProblems, toEditorFen } from './boardEditor';
+import { STARTING_FEN } from '../constants';
+
+describe('parseEditorFen', () => {
+  it('reads a full FEN', () => {
+    const position = parseEditorFen('4k3/8/8/3pP3/8/8/8/R3K3 w Q d6 3 20');
+    expect(position).toEqual({
+      pieces: { e8: 'k', d5: 'p', e5: 'P', a1: 'R', e1: 'K' },
+      turn: 'w',
+      castling: ['Q'],
+      enPassant: 'd6',
+      halfmoves: 3,
+      fullmoves: 20,
+    });
+  });
+
+  it('fills in the rest from a bare piece placement', () => {
+    const position = parseEditorFen('4k3/8/8/8/8/8/8/4K3');
+    expect(position.turn).toBe('w');
+    expect(position.castling).toEqual([]);
+    expect(position.enPassant).toBeNull();
+    expect([position.halfmoves, position.fullmoves]).toEqual([0, 1]);
+  });
+
+  it('says what is wrong with a bad FEN', () => {
+    expect(() => parseEditorFen('8/8/8')).toThrow('The piece placement needs 8 ranks separated by "/".');
+    expect(() => parseEditorFen('4k3/8/8/8/8/8/8/4X3')).toThrow('"X" is not a piece.');
+    expect(() => parseEditorFen('4k3/8/8/8/8/8/8/4K2')).toThrow('Rank 1 does not have 8 squares.');
+    expect(() => parseEditorFen('4k3/8/8/8/8/8/8/4K3 x')).toThrow('The side to move must be "w" or "b".');
+    expect(() => parseEditorFen('4k3/8/8/8/8/8/8/4K3 w KX')).toThrow('Castling rights');
+    expect(() => parseEditorFen('4k3/8/8/8/8/8/8/4K3 w - e4')).toThrow('en-passant square');
+  });
+});
+
+describe('toEditorFen', () => {
+  it('round-trips the starting position', () => {
+    expect(toEditorFen(parseEditorFen(STARTING_FEN))).toBe(STARTING_FEN);
+  });
+
+  it('writes an empty board', () => {
+    expect(toEditorFen(EMPTY_POSITION)).toBe('8/8/8/8/8/8/8/8 w - - 0 1');
+  });
+
+  it('leaves out castling and en-passant claims the board cannot back up', () => {
+    const position = parseEditorFen('4k3/8/8/8/8/8/8/4K2R w KQkq e6 0 1');
+    expect(toEditorFen(position)).toBe('4k3/8/8/8/8/8/8/4K2R w K - 0 1');
+  });
+});
+
+describe('possibleCastling', () => {
+  it('allows rights whose king and rook are at home', () => {
+    expect(possibleCastling(parseEditorFen(STARTING_FEN).pieces)).toEqual(['K', 'Q', 'k', 'q']);
+    expect(possibleCastling(parseEditorFen('r3k3/8/8/8/8/8/8/4K2R').pieces)).toEqual(['K', 'q']);
+    expect(possibleCastling(parseEditorFen('r6k/8/8/8/8/8/8/R3K3').pieces)).toEqual(['Q']);
+  });
+});
+
+describe('possibleEnPassant', () => {
+  it('finds squares behind pawns that can just have double-stepped', () => {
+    const { pieces } = parseEditorFen('4k3/8/8/3pPp2/8/8/8/4K3');
+    expect(possibleEnPassant({ pieces, turn: 'w' })).toEqual(['d6', 'f6']);
+    expect(possibleEnPassant({ pieces, turn: 'b' })).toEqual([]);
+  });
+
+  it('needs the square passed over and the one left behind to be empty', () => {
+    const { pieces } = parseEditorFen('4k3/3p4/8/3pP3/8/8/8/4K3');
+    expect(possibleEnPassant({ pieces, turn: 'w' })).toEqual([]);
+  });
+});
+
+describe('setupProblems', () => {
+  it('accepts a playable position', () => {
+    expect(setupProblems(parseEditorFen(STARTING_FEN))).toEqual([]);
+  });
+
+  it('needs exactly one king each', () => {
+    expect(setupProblems(parseEditorFen('8/8/8/8/8/8/8/4K3'))).toEqual(['Black has no king.']);
+    expect(setupProblems(parseEditorFen('k6k/8/8/8/8/8/8/4K3'))).toEqual(['Black has more than one king.']);
+  });
+
+  it('limits pawns and pieces', () => {
+    expect(setupProblems(parseEditorFen('4k3/8/8/8/8/P7/PPPPPPPP/4K3'))).toEqual(['White has more than 8 pawns.']);
+    expect(setupProblems(parseEditorFen('QQQQkQQQ/QQQQQQQQ/Q7/8/8/8/8/4K3'))).toEqual(['White has more than 16 pieces.']);
+  });
+
+  it('keeps pawns off the first and last ranks', () => {
+    expect(setupProblems(parseEditorFen('3pk3/8/8/8/8/8/8/P3K3'))).toEqual([
+      "Pawns can't stand on the first or last rank (a1, d8).",
+    ]);
+  });
+
+  it('refuses a position where the side not to move is in check', () => {
+    expect(setupProblems(parseEditorFen('4k3/8/8/8/8/8/8/4KR2 b'))).toEqual([]);
+    expect(setupProblems(parseEditorFen('4k3/8/8/8/8/8/8/4R1K1 w'))).toEqual([
+      "Black is in check, so it can't be White's move.",
+    ]);
+  });
+});
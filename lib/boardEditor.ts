@@ -0,0 +1,171 @@
+import { Chess, Color, Square } from 'chess.js';
+
+const FILES = 'abcdefgh';
+const PIECE_CHARS = 'pnbrqkPNBRQK';
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export const CASTLING_RIGHTS: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+
+// Where king and rook have to stand for each castling right
+const CASTLING_HOMES: Record<CastlingRight, { king: string; rook: string }> = {
+  K: { king: 'e1', rook: 'h1' },
+  Q: { king: 'e1', rook: 'a1' },
+  k: { king: 'e8', rook: 'h8' },
+  q: { king: 'e8', rook: 'a8' },
+};
+
+/**
+ * A position being set up in the editor. Pieces are FEN letters by square,
+ * e.g. { e1: 'K', e8: 'k' }.
+ */
+export interface EditorPosition {
+  pieces: Record<string, string>;
+  turn: Color;
+  castling: CastlingRight[];
+  enPassant: string | null;
+  halfmoves: number;
+  fullmoves: number;
+}
+
+export const EMPTY_POSITION: EditorPosition = {
+  pieces: {},
+  turn: 'w',
+  castling: [],
+  enPassant: null,
+  halfmoves: 0,
+  fullmoves: 1,
+};
+
+export const squareName = (file: number, rank: number): string => `${FILES[file]}${rank + 1}`;
+
+/**
+ * Read a FEN, possibly just its piece placement, without judging whether the
+ * position could occur in a game; setupProblems does that.
+ */
+export const parseEditorFen = (fen: string): EditorPosition => {
+  const [placement, turn = 'w', castling = '-', enPassant = '-', halfmoves = '0', fullmoves = '1'] = fen.trim().split(/\s+/);
+  const rows = placement.split('/');
+  if (rows.length !== 8) throw new Error('The piece placement needs 8 ranks separated by "/".');
+
+  const pieces: Record<string, string> = {};
+  rows.forEach((row, i) => {
+    let file = 0;
+    for (const char of row) {
+      if (/[1-8]/.test(char)) {
+        file += Number(char);
+      } else if (PIECE_CHARS.includes(char)) {
+        if (file < 8) pieces[squareName(file, 7 - i)] = char;
+        file += 1;
+      } else {
+        throw new Error(`"${char}" is not a piece.`);
+      }
+    }
+    if (file !== 8) throw new Error(`Rank ${8 - i} does not have 8 squares.`);
+  });
+
+  if (turn !== 'w' && turn !== 'b') throw new Error('The side to move must be "w" or "b".');
+  if (!/^(-|K?Q?k?q?)$/.test(castling)) throw new Error('Castling rights must be "-" or some of "KQkq".');
+  if (!/^(-|[a-h][36])$/.test(enPassant)) throw new Error('The en-passant square must be "-" or on the 3rd or 6th rank.');
+
+  return {
+    pieces,
+    turn,
+    castling: CASTLING_RIGHTS.filter((right) => castling.includes(right)),
+    enPassant: enPassant === '-' ? null : enPassant,
+    halfmoves: Math.max(0, parseInt(halfmoves, 10) || 0),
+    fullmoves: Math.max(1, parseInt(fullmoves, 10) || 1),
+  };
+};
+
+// Rights whose king and rook are still on their starting squares
+export const possibleCastling = (pieces: EditorPosition['pieces']): CastlingRight[] =>
+  CASTLING_RIGHTS.filter((right) => {
+    const { king, rook } = CASTLING_HOMES[right];
+    const white = right === right.toUpperCase();
+    return pieces[king] === (white ? 'K' : 'k') && pieces[rook] === (white ? 'R' : 'r');
+  });
+
+/**
+ * Squares the side to move could capture en passant on: behind an enemy pawn
+ * that can only just have made a double step.
+ */
+export const possibleEnPassant = (position: Pick<EditorPosition, 'pieces' | 'turn'>): string[] => {
+  const { pieces, turn } = position;
+  // Rank index of the square passed over, the pawn that moved, and where it came from
+  const [passed, pawnRank, fromRank, pawn] = turn === 'w' ? [5, 4, 6, 'p'] : [2, 3, 1, 'P'];
+  return [...FILES].flatMap((_, file) => {
+    const target = squareName(file, passed);
+    const ok =
+      pieces[squareName(file, pawnRank)] === pawn && !pieces[target] && !pieces[squareName(file, fromRank)];
+    return ok ? [target] : [];
+  });
+};
+
+// FEN for the position, leaving out castling and en-passant claims the board can't back up
+export const toEditorFen = (position: EditorPosition): string => {
+  const ranks: string[] = [];
+  for (let rank = 7; rank >= 0; rank--) {
+    let row = '';
+    let empty = 0;
+    for (let file = 0; file < 8; file++) {
+      const piece = position.pieces[squareName(file, rank)];
+      if (piece) {
+        row += (empty || '') + piece;
+        empty = 0;
+      } else {
+        empty += 1;
+      }
+    }
+    ranks.push(row + (empty || ''));
+  }
+
+  const allowed = possibleCastling(position.pieces);
+  const castling = position.castling.filter((right) => allowed.includes(right)).join('') || '-';
+  const enPassant =
+    position.enPassant && possibleEnPassant(position).includes(position.enPassant) ? position.enPassant : '-';
+  return `${ranks.join('/')} ${position.turn} ${castling} ${enPassant} ${position.halfmoves} ${position.fullmoves}`;
+};
+
+/**
+ * Reasons the position can't be played from, in plain words; empty when it
+ * is fine to start a game.
+ */
+export const setupProblems = (position: EditorPosition): string[] => {
+  const problems: string[] = [];
+  const squares = Object.keys(position.pieces);
+  const colorName = (color: Color) => (color === 'w' ? 'White' : 'Black');
+
+  (['w', 'b'] as const).forEach((color) => {
+    const king = color === 'w' ? 'K' : 'k';
+    const kings = squares.filter((sq) => position.pieces[sq] === king).length;
+    if (kings === 0) problems.push(`${colorName(color)} has no king.`);
+    if (kings > 1) problems.push(`${colorName(color)} has more than one king.`);
+
+    const pawn = color === 'w' ? 'P' : 'p';
+    if (squares.filter((sq) => position.pieces[sq] === pawn).length > 8) {
+      problems.push(`${colorName(color)} has more than 8 pawns.`);
+    }
+    const own = color === 'w' ? /[A-Z]/ : /[a-z]/;
+    if (squares.filter((sq) => own.test(position.pieces[sq])).length > 16) {
+      problems.push(`${colorName(color)} has more than 16 pieces.`);
+    }
+  });
+
+  const backRankPawns = squares.filter((sq) => /[18]$/.test(sq) && /p/i.test(position.pieces[sq]));
+  if (backRankPawns.length > 0) {
+    problems.push(`Pawns can't stand on the first or last rank (${backRankPawns.sort().join(', ')}).`);
+  }
+
+  // Only meaningful once each side has exactly one king
+  if (problems.length === 0) {
+    const waiting: Color = position.turn === 'w' ? 'b' : 'w';
+    const king = squares.find((sq) => position.pieces[sq] === (waiting === 'w' ? 'K' : 'k')) as Square;
+    const board = new Chess(toEditorFen(position), { skipValidation: true });
+    if (board.isAttacked(king, position.turn)) {
+      problems.push(`${colorName(waiting)} is in check, so it can't be ${colorName(position.turn)}'s move.`);
+    }
+  }
+
+  return problems;
+};
@@ -0,0 +1,16 @@
+import { BOT_GAME_KEY } from '../constants';
+import { BotGame } from '../types';
+
+export const loadBotGame = (): BotGame | null => {
+  try {
+    const raw = localStorage.getItem(BOT_GAME_KEY);
+    return raw ? (JSON.parse(raw) as BotGame) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveBotGame = (game: BotGame) => localStorage.setItem(BOT_GAME_KEY, JSON.stringify(game));
+
+export const clearBotGame = () => localStorage.removeItem(BOT_GAME_KEY);
+
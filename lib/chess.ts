@@ -0,0 +1,167 @@
+import { Chess, Move } from 'chess.js';
+import { GameState, MoveRecord, PromotionPiece, Termination, Variant } from '../types';
+import { VariantChess, createChess } from './variants';
+
+/**
+ * Rebuild a game from its move log so chess.js knows the full history
+ * (repetitions, undo) instead of only the last position.
+ */
+export const replayGame = (
+  initialFen: string,
+  moves: Pick<MoveRecord, 'from_square' | 'to_square' | 'promotion'>[],
+  variant: Variant = 'standard'
+): Chess => {
+  const game = createChess(initialFen, variant);
+  moves.forEach((m) => {
+    game.move({ from: m.from_square, to: m.to_square, promotion: m.promotion ?? undefined });
+  });
+  return game;
+};
+
+export const TERMINATION_LABELS: Record<Termination, string> = {
+  checkmate: 'checkmate',
+  stalemate: 'stalemate',
+  repetition: 'threefold repetition',
+  fifty_move: 'the fifty-move rule',
+  insufficient_material: 'insufficient material',
+  resignation: 'resignation',
+  timeout: 'timeout',
+  agreement: 'agreement',
+  abandonment: 'abandonment',
+  king_in_center: 'king in the centre',
+  third_check: 'third check',
+  horde_captured: 'capturing the horde',
+};
+
+// e.g. "White wins by resignation", "Draw by threefold repetition"
+export const describeResult = (gameState: Pick<GameState, 'result' | 'termination'>): string => {
+  const { result, termination } = gameState;
+  if (!result) return '';
+
+  const reason = termination ? ` by ${TERMINATION_LABELS[termination]}` : '';
+  if (result === '1/2-1/2') {
+    // A flag falling against a lone king is a draw, not a "draw by timeout"
+    if (termination === 'timeout') return 'Draw (timeout vs insufficient material)';
+    return `Draw${reason}`;
+  }
+  return `${result === '1-0' ? 'White' : 'Black'} wins${reason}`;
+};
+
+// Value for the PGN Termination header
+export const pgnTermination = (gameState: Pick<GameState, 'result' | 'termination'>): string => {
+  if (!gameState.result) return 'Unterminated';
+  if (gameState.termination === 'timeout') return 'Time forfeit';
+  if (gameState.termination === 'abandonment') return 'Abandoned';
+  return 'Normal';
+};
+
+/**
+ * Result of a game that ended on the board, for games played without the
+ * server (which decides the outcome of online games itself).
+ */
+export const getBoardOutcome = (game: Chess): Pick<GameState, 'result' | 'termination'> | null => {
+  const variantWin = game instanceof VariantChess ? game.variantOutcome() : null;
+  if (variantWin) return variantWin;
+  if (game.isCheckmate()) return { result: game.turn() === 'w' ? '0-1' : '1-0', termination: 'checkmate' };
+  if (game.isStalemate()) return { result: '1/2-1/2', termination: 'stalemate' };
+  if (game.isInsufficientMaterial()) return { result: '1/2-1/2', termination: 'insufficient_material' };
+  if (game.isThreefoldRepetition()) return { result: '1/2-1/2', termination: 'repetition' };
+  if (game.isDrawByFiftyMoves()) return { result: '1/2-1/2', termination: 'fifty_move' };
+  return null;
+};
+
+// What games kept on this device (bot and pass-and-play) have in common
+export interface LocalMoveLog {
+  id: string;
+  initial_fen: string;
+  moves: MoveRecord[];
+  result: GameState['result'];
+  termination: Termination | null;
+}
+
+/**
+ * Plays a move in a game kept on this device and records the result if it
+ * ends the game. Throws like chess.js when the move is illegal.
+ */
+export const playLocalMove = <T extends LocalMoveLog>(log: T, from: string, to: string, promotion?: PromotionPiece): T => {
+  const game = replayGame(log.initial_fen, log.moves);
+  const move = game.move({ from, to, promotion });
+  const ply = log.moves.length + 1;
+  const record: MoveRecord = {
+    id: `${log.id}-${ply}`,
+    game_id: log.id,
+    ply,
+    color: move.color,
+    from_square: move.from,
+    to_square: move.to,
+    promotion: (move.promotion as PromotionPiece | undefined) ?? null,
+    san: move.san,
+    uci: move.lan,
+    fen_after: move.after,
+    created_at: new Date().toISOString(),
+  };
+  const outcome = getBoardOutcome(game);
+  return {
+    ...log,
+    moves: [...log.moves, record],
+    result: outcome?.result ?? null,
+    termination: outcome?.termination ?? null,
+  };
+};
+
+// Where the king of the side to move stands, if it is in check
+export const checkedKingSquare = (game: Chess): string | null =>
+  game.inCheck() ? game.findPiece({ type: 'k', color: game.turn() })[0] ?? null : null;
+
+// e.g. "12. e4" or "12... Nf6"
+export const moveLabel = (move: Pick<MoveRecord, 'color' | 'san' | 'fen_after'>): string => {
+  const fullmove = parseInt(move.fen_after.split(' ')[5], 10) || 1;
+  return move.color === 'w' ? `${fullmove}. ${move.san}` : `${fullmove - 1}... ${move.san}`;
+};
+
+const stripSuffixes = (san: string) => san.replace(/[+#!?]+$/, '');
+
+/**
+ * The legal move a player typed, in SAN ("Nf3", "exd5", "0-0") or UCI
+ * ("e2e4", "e7e8q"). Piece letters may be lower case when that leaves
+ * only one move.
+ */
+export const findTypedMove = (game: Chess, text: string): Move | null => {
+  const typed = text.trim().replace(/^0-0(-0)?/, (castle) => castle.replace(/0/g, 'O'));
+  if (!typed) return null;
+  const legal = game.moves({ verbose: true });
+
+  const uci = typed.toLowerCase().match(/^([a-h][1-8])-?([a-h][1-8])([qrbn])?$/);
+  if (uci) {
+    const found = legal.find((m) => m.from === uci[1] && m.to === uci[2] && (m.promotion ?? undefined) === (uci[3] ?? (m.promotion ? 'q' : undefined)));
+    if (found) return found;
+  }
+
+  const san = stripSuffixes(typed);
+  const exact = legal.find((m) => stripSuffixes(m.san) === san);
+  if (exact) return exact;
+  const loose = legal.filter((m) => stripSuffixes(m.san).toLowerCase() === san.toLowerCase());
+  return loose.length === 1 ? loose[0] : null;
+};
+
+const PIECE_NAMES: Record<string, string> = { K: 'King', Q: 'Queen', R: 'Rook', B: 'Bishop', N: 'Knight' };
+
+// A move as a screen reader should say it, e.g. "Knight takes f6, check"
+export const spokenMove = (san: string): string => {
+  const suffix = san.endsWith('#') ? ', checkmate' : san.endsWith('+') ? ', check' : '';
+  const bare = stripSuffixes(san);
+  if (bare === 'O-O') return `castles kingside${suffix}`;
+  if (bare === 'O-O-O') return `castles queenside${suffix}`;
+
+  const match = bare.match(/^([KQRBN])?([a-h]?[1-8]?)(x)?([a-h][1-8])(?:=([QRBN]))?$/);
+  if (!match) return san;
+  const [, piece, from, capture, to, promotion] = match;
+  const words = [
+    piece ? PIECE_NAMES[piece] : '',
+    from,
+    capture ? 'takes' : piece && from ? 'to' : '',
+    to,
+    promotion ? `promotes to ${PIECE_NAMES[promotion].toLowerCase()}` : '',
+  ];
+  return words.filter(Boolean).join(' ') + suffix;
+};
@@ -0,0 +1,148 @@
+import engineUrl from 'stockfish/bin/stockfish-18-lite-single.js?url';
+import engineWasmUrl from 'stockfish/bin/stockfish-18-lite-single.wasm?url';
+
+export interface EngineLevel {
+  level: number;
+  // Stockfish "Skill Level", 0-20
+  skill: number;
+  depth: number;
+  moveTimeMs: number;
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { level: 1, skill: 0, depth: 1, moveTimeMs: 50 },
+  { level: 2, skill: 3, depth: 2, moveTimeMs: 100 },
+  { level: 3, skill: 6, depth: 4, moveTimeMs: 150 },
+  { level: 4, skill: 9, depth: 6, moveTimeMs: 250 },
+  { level: 5, skill: 12, depth: 8, moveTimeMs: 400 },
+  { level: 6, skill: 15, depth: 10, moveTimeMs: 600 },
+  { level: 7, skill: 18, depth: 14, moveTimeMs: 1000 },
+  { level: 8, skill: 20, depth: 22, moveTimeMs: 2000 },
+];
+
+export const getEngineLevel = (level: number): EngineLevel =>
+  ENGINE_LEVELS.find((l) => l.level === level) ?? ENGINE_LEVELS[0];
+
+// One "info" line of a search. Scores are from the side to move's view.
+export interface EngineInfo {
+  depth: number;
+  scoreCp: number | null;
+  // Moves to mate; negative when the side to move is getting mated
+  mate: number | null;
+  pv: string[];
+}
+
+export interface SearchResult {
+  bestMove: string | null;
+  info: EngineInfo | null;
+}
+
+export interface SearchLimits {
+  depth?: number;
+  moveTimeMs?: number;
+  skill?: number;
+}
+
+export interface Engine {
+  search: (fen: string, limits: SearchLimits, onInfo?: (info: EngineInfo) => void) => Promise<SearchResult>;
+  newGame: () => void;
+  // Ends the running search early; its promise still resolves
+  stop: () => void;
+  terminate: () => void;
+}
+
+const parseInfo = (line: string): EngineInfo | null => {
+  const tokens = line.split(' ');
+  const depthAt = tokens.indexOf('depth');
+  const scoreAt = tokens.indexOf('score');
+  if (depthAt < 0 || scoreAt < 0) return null;
+  // Bounds are interim results of a re-search; wait for the exact score
+  if (tokens.includes('lowerbound') || tokens.includes('upperbound')) return null;
+
+  const pvAt = tokens.indexOf('pv');
+  const kind = tokens[scoreAt + 1];
+  const value = parseInt(tokens[scoreAt + 2], 10);
+  return {
+    depth: parseInt(tokens[depthAt + 1], 10),
+    scoreCp: kind === 'cp' ? value : null,
+    mate: kind === 'mate' ? value : null,
+    pv: pvAt >= 0 ? tokens.slice(pvAt + 1) : [],
+  };
+};
+
+/**
+ * Starts Stockfish in a Web Worker. Searches run one at a time in the order
+ * they were requested; everything stays on this device.
+ */
+export const createEngine = (): Engine => {
+  // The hash tells the engine script where its wasm file was bundled to
+  const worker = new Worker(`${engineUrl}#${encodeURIComponent(engineWasmUrl)}`);
+  let lineListener: ((line: string) => void) | null = null;
+
+  worker.onmessage = (e: MessageEvent) => {
+    if (typeof e.data === 'string') lineListener?.(e.data);
+  };
+  worker.onerror = (e) => console.error('Engine worker error', e);
+
+  const send = (command: string) => worker.postMessage(command);
+
+  // Resolves on the first line starting with the given token
+  const waitFor = (token: string, onLine?: (line: string) => void) =>
+    new Promise<string>((resolve) => {
+      lineListener = (line) => {
+        onLine?.(line);
+        if (line.startsWith(token)) {
+          lineListener = null;
+          resolve(line);
+        }
+      };
+    });
+
+  let queue: Promise<unknown> = (async () => {
+    const ready = waitFor('uciok');
+    send('uci');
+    await ready;
+  })();
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const search: Engine['search'] = (fen, limits, onInfo) =>
+    enqueue(async () => {
+      const ready = waitFor('readyok');
+      send(`setoption name Skill Level value ${limits.skill ?? 20}`);
+      send('isready');
+      await ready;
+
+      let latest: EngineInfo | null = null;
+      const done = waitFor('bestmove', (line) => {
+        if (!line.startsWith('info')) return;
+        const info = parseInfo(line);
+        if (info) {
+          latest = info;
+          onInfo?.(info);
+        }
+      });
+
+      send(`position fen ${fen}`);
+      const go = ['go'];
+      if (limits.depth) go.push('depth', String(limits.depth));
+      if (limits.moveTimeMs) go.push('movetime', String(limits.moveTimeMs));
+      send(go.join(' '));
+
+      const move = (await done).split(' ')[1];
+      return { bestMove: move && move !== '(none)' ? move : null, info: latest };
+    });
+
+  return {
+    search,
+    newGame: () => {
+      enqueue(async () => send('ucinewgame'));
+    },
+    stop: () => send('stop'),
+    terminate: () => worker.terminate(),
+  };
+};
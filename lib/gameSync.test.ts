@@ -0,0 +1,183 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useGameSync } from './gameSync';
+import { transport } from './backend';
+import { TransportError } from './transport';
+import { toMoveRecords } from './pgn';
+import { STARTING_FEN } from '../constants';
+import { GameState } from '../types';
+
+vi.mock('./backend', () => ({ transport: { submitMove: vi.fn() } }));
+
+const submitMove = vi.mocked(transport.submitMove);
+
+const MOVES = toMoveRecords(STARTING_FEN, ['e4', 'e5', 'Nf3', 'Nc6'], 'game-1');
+
+const gameAt = (ply: number, version = ply): GameState => ({
+  id: 'game-1',
+  created_at: '2024-01-01T00:00:00Z',
+  player_white: 'alice',
+  player_black: 'bob',
+  fen: ply === 0 ? STARTING_FEN : MOVES[ply - 1].fen_after,
+  initial_fen: STARTING_FEN,
+  variant: 'standard',
+  status: 'active',
+  turn: ply % 2 === 0 ? 'white' : 'black',
+  base_seconds: null,
+  increment_seconds: 0,
+  white_time_ms: null,
+  black_time_ms: null,
+  last_move_at: null,
+  ply,
+  draw_offer: null,
+  takeback_offer: null,
+  result: null,
+  termination: null,
+  is_public: false,
+  invite_only: false,
+  rated: false,
+  white_rating: null,
+  black_rating: null,
+  white_rating_change: null,
+  black_rating_change: null,
+  version,
+});
+
+const setup = (connected = true) => {
+  const resync = vi.fn();
+  const onRejected = vi.fn();
+  const hook = renderHook((props: { connected: boolean }) =>
+    useGameSync({ gameId: 'game-1', connected: props.connected, resync, onRejected }), { initialProps: { connected } });
+  return { ...hook, resync, onRejected };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  submitMove.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('useGameSync', () => {
+  it('loads a game with its moves in ply order', () => {
+    const { result } = setup();
+    act(() => result.current.load(gameAt(2), [MOVES[1], MOVES[0]]));
+    expect(result.current.gameState?.ply).toBe(2);
+    expect(result.current.moves.map((m) => m.ply)).toEqual([1, 2]);
+  });
+
+  it('drops moves it already has and refetches when one is skipped', () => {
+    const { result, resync } = setup();
+    act(() => result.current.load(gameAt(1), [MOVES[0]]));
+
+    act(() => result.current.moveInserted(MOVES[0]));
+    expect(result.current.moves).toHaveLength(1);
+    expect(resync).not.toHaveBeenCalled();
+
+    act(() => result.current.moveInserted(MOVES[2]));
+    expect(result.current.moves).toHaveLength(1);
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores game rows older than the one it holds', () => {
+    const { result } = setup();
+    act(() => result.current.load(gameAt(2, 5), MOVES.slice(0, 2)));
+    act(() => result.current.gameUpdated(gameAt(1, 4)));
+    expect(result.current.gameState?.version).toBe(5);
+  });
+
+  it('shortens the move log when a takeback arrives', () => {
+    const { result } = setup();
+    act(() => result.current.load(gameAt(2), MOVES.slice(0, 2)));
+    act(() => result.current.gameUpdated(gameAt(1, 3)));
+    expect(result.current.moves.map((m) => m.ply)).toEqual([1]);
+  });
+
+  it('refetches when the game row and the log still disagree after a moment', () => {
+    const { result, resync } = setup();
+    act(() => result.current.load(gameAt(1), [MOVES[0]]));
+    act(() => result.current.gameUpdated(gameAt(2)));
+
+    act(() => vi.advanceTimersByTime(1000));
+    expect(resync).not.toHaveBeenCalled();
+    act(() => vi.advanceTimersByTime(1000));
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not refetch when the missing move arrives in time', () => {
+    const { result, resync } = setup();
+    act(() => result.current.load(gameAt(1), [MOVES[0]]));
+    act(() => result.current.gameUpdated(gameAt(2)));
+    act(() => result.current.moveInserted(MOVES[1]));
+    act(() => vi.advanceTimersByTime(5000));
+    expect(resync).not.toHaveBeenCalled();
+  });
+
+  it('sends a move and keeps it queued until the log shows it', async () => {
+    submitMove.mockResolvedValue(gameAt(1));
+    const { result } = setup();
+    act(() => result.current.load(gameAt(0), []));
+
+    act(() => result.current.submit({ ply: 1, from: 'e2', to: 'e4' }));
+    await act(async () => {});
+    expect(submitMove).toHaveBeenCalledWith('game-1', { ply: 1, from: 'e2', to: 'e4', promotion: undefined });
+    expect(result.current.outbox).toEqual([{ ply: 1, from: 'e2', to: 'e4', sent: true }]);
+
+    act(() => result.current.moveInserted(MOVES[0]));
+    expect(result.current.outbox).toEqual([]);
+  });
+
+  it('waits for the connection before sending', async () => {
+    submitMove.mockResolvedValue(gameAt(1));
+    const { result, rerender } = setup(false);
+    act(() => result.current.load(gameAt(0), []));
+    act(() => result.current.submit({ ply: 1, from: 'e2', to: 'e4' }));
+    await act(async () => {});
+    expect(submitMove).not.toHaveBeenCalled();
+
+    rerender({ connected: true });
+    await act(async () => {});
+    expect(submitMove).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries moves that never reached the server', async () => {
+    submitMove
+      .mockRejectedValueOnce(new TransportError('Network down', true))
+      .mockResolvedValueOnce(gameAt(1));
+    const { result } = setup();
+    act(() => result.current.load(gameAt(0), []));
+    act(() => result.current.submit({ ply: 1, from: 'e2', to: 'e4' }));
+    await act(async () => {});
+    expect(submitMove).toHaveBeenCalledTimes(1);
+    expect(result.current.outbox[0].sent).toBe(false);
+
+    await act(async () => vi.advanceTimersByTime(1000));
+    expect(submitMove).toHaveBeenCalledTimes(2);
+    expect(result.current.outbox[0].sent).toBe(true);
+  });
+
+  it('drops a rejected move, says why and refetches', async () => {
+    submitMove.mockRejectedValue(new TransportError('Not your turn', false));
+    const { result, onRejected, resync } = setup();
+    act(() => result.current.load(gameAt(0), []));
+    act(() => result.current.submit({ ply: 1, from: 'e2', to: 'e4' }));
+    await act(async () => {});
+    expect(result.current.outbox).toEqual([]);
+    expect(onRejected).toHaveBeenCalledWith('Move rejected: Not your turn');
+    expect(resync).toHaveBeenCalled();
+  });
+
+  it('reports a queued move the log shows a different move for', () => {
+    const { result, onRejected } = setup(false);
+    act(() => result.current.load(gameAt(0), []));
+    act(() => result.current.submit({ ply: 1, from: 'd2', to: 'd4' }));
+    act(() => result.current.moveInserted(MOVES[0]));
+    expect(result.current.outbox).toEqual([]);
+    expect(onRejected).toHaveBeenCalledWith('Your move was not played: the position changed.');
+  });
+});
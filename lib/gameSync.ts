@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { transport } from './backend';
+import { TransportError } from './transport';
+import { GameState, MoveRecord, PromotionPiece } from '../types';
+
+// A move of ours the move log does not show yet
+export interface OutgoingMove {
+  ply: number;
+  from: string;
+  to: string;
+  promotion?: PromotionPiece;
+  // Accepted by the server; waiting for its row in the move log
+  sent: boolean;
+}
+
+interface SyncState {
+  game: GameState | null;
+  moves: MoveRecord[];
+}
+
+interface GameSyncOptions {
+  gameId?: string;
+  connected: boolean;
+  // Refetches the game and its move log and passes them to load()
+  resync: () => void;
+  onRejected: (message: string) => void;
+}
+
+// Delays between attempts while the server can't be reached
+const RETRY_MS = [1000, 2000, 5000, 10000];
+// How long the game row and the move log may disagree before we refetch;
+// the two arrive as separate realtime events in no particular order.
+const GAP_GRACE_MS = 2000;
+
+const sameMove = (record: MoveRecord, move: OutgoingMove) =>
+  record.from_square === move.from && record.to_square === move.to;
+
+/**
+ * Keeps a game and its move log in step with the server. Moves are keyed
+ * by ply: events for plies we already have are dropped, a skipped ply
+ * triggers a refetch, and game rows older than the one we hold (by
+ * version) are ignored. Our own moves wait in an outbox until the log
+ * shows them, and are resent while the connection is down.
+ */
+export const useGameSync = ({ gameId, connected, resync, onRejected }: GameSyncOptions) => {
+  const stateRef = useRef<SyncState>({ game: null, moves: [] });
+  const [state, setState] = useState<SyncState>(stateRef.current);
+  const outboxRef = useRef<OutgoingMove[]>([]);
+  const [outbox, setOutbox] = useState<OutgoingMove[]>([]);
+  const inFlightRef = useRef(false);
+  const attemptsRef = useRef(0);
+  const [retryTick, setRetryTick] = useState(0);
+  const gapTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Realtime handlers are registered once, so they reach the latest callbacks here
+  const callbacksRef = useRef({ resync, onRejected });
+  callbacksRef.current = { resync, onRejected };
+
+  const commit = (next: Partial<SyncState>) => {
+    stateRef.current = { ...stateRef.current, ...next };
+    setState(stateRef.current);
+  };
+
+  const setQueue = (next: OutgoingMove[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+  };
+
+  // Refetch if the game row and the log still disagree after a moment
+  const checkGap = () => {
+    if (gapTimerRef.current) clearTimeout(gapTimerRef.current);
+    gapTimerRef.current = null;
+    const { game, moves } = stateRef.current;
+    if (!game || game.ply === moves.length) return;
+    gapTimerRef.current = setTimeout(() => {
+      gapTimerRef.current = null;
+      const latest = stateRef.current;
+      if (latest.game && latest.game.ply !== latest.moves.length) callbacksRef.current.resync();
+    }, GAP_GRACE_MS);
+  };
+
+  // Drops queued moves the log has caught up with. A different move at
+  // that ply means ours never counted.
+  const settle = (game: GameState, moves: MoveRecord[]) => {
+    let lost = false;
+    const remaining = outboxRef.current.filter((move) => {
+      const record = moves[move.ply - 1];
+      if (record) {
+        if (!sameMove(record, move)) lost = true;
+        return false;
+      }
+      // Gone from the game again, e.g. taken back
+      return move.sent ? move.ply <= game.ply : move.ply <= game.ply + 1;
+    });
+    if (remaining.length !== outboxRef.current.length) setQueue(remaining);
+    if (lost) callbacksRef.current.onRejected('Your move was not played: the position changed.');
+  };
+
+  // A fresh copy of the game from the server replaces whatever we had
+  const load = useCallback((game: GameState, moves: MoveRecord[]) => {
+    const sorted = [...moves].sort((a, b) => a.ply - b.ply);
+    commit({ game, moves: sorted });
+    settle(game, sorted);
+    checkGap();
+  }, []);
+
+  const gameUpdated = useCallback((game: GameState) => {
+    const current = stateRef.current;
+    if (current.game && game.version <= current.game.version) return;
+    // A takeback shortens the log
+    const moves = current.moves.filter((m) => m.ply <= game.ply);
+    commit({ game, moves });
+    settle(game, moves);
+    checkGap();
+  }, []);
+
+  const moveInserted = useCallback((record: MoveRecord) => {
+    const current = stateRef.current;
+    if (record.ply <= current.moves.length) return;
+    if (record.ply > current.moves.length + 1) {
+      // We missed at least one move
+      callbacksRef.current.resync();
+      return;
+    }
+    const moves = [...current.moves, record];
+    commit({ moves });
+    if (current.game) settle(current.game, moves);
+    checkGap();
+  }, []);
+
+  const submit = useCallback((move: Omit<OutgoingMove, 'sent'>) => {
+    setQueue([...outboxRef.current, { ...move, sent: false }]);
+  }, []);
+
+  useEffect(() => () => {
+    if (gapTimerRef.current) clearTimeout(gapTimerRef.current);
+  }, []);
+
+  // Send the oldest unsent move whenever we are online and idle
+  useEffect(() => {
+    const next = outbox.find((m) => !m.sent);
+    if (!gameId || !connected || !next || inFlightRef.current) return;
+    inFlightRef.current = true;
+
+    const { ply, from, to, promotion } = next;
+    transport.submitMove(gameId, { ply, from, to, promotion }).then(
+      (game) => {
+        inFlightRef.current = false;
+        attemptsRef.current = 0;
+        setQueue(outboxRef.current.map((m) => (m.ply === ply ? { ...m, sent: true } : m)));
+        gameUpdated(game);
+      },
+      (err: any) => {
+        inFlightRef.current = false;
+        if (err instanceof TransportError && err.retryable) {
+          console.error('Move submission failed, retrying', err);
+          const delay = RETRY_MS[Math.min(attemptsRef.current, RETRY_MS.length - 1)];
+          attemptsRef.current += 1;
+          setTimeout(() => setRetryTick((t) => t + 1), delay);
+          return;
+        }
+        console.error('Move rejected', err);
+        attemptsRef.current = 0;
+        setQueue(outboxRef.current.filter((m) => m.ply !== ply));
+        callbacksRef.current.onRejected(`Move rejected: ${err.message}`);
+        callbacksRef.current.resync();
+      }
+    );
+  }, [gameId, connected, outbox, retryTick, gameUpdated]);
+
+  return {
+    gameState: state.game,
+    moves: state.moves,
+    outbox,
+    load,
+    gameUpdated,
+    moveInserted,
+    submit,
+  };
+};
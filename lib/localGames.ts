@@ -0,0 +1,51 @@
+import { LocalGame } from '../types';
+
+const DB_NAME = 'takadori-chess';
+const DB_VERSION = 1;
+const STORE = 'local_games';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request against the store and resolves with its result
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Most recently played first
+export const listLocalGames = async (): Promise<LocalGame[]> => {
+  const games = await withStore<LocalGame[]>('readonly', (store) => store.getAll());
+  return games.sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+};
+
+export const getLocalGame = (id: string) =>
+  withStore<LocalGame | undefined>('readonly', (store) => store.get(id));
+
+export const saveLocalGame = async (game: LocalGame) => {
+  await withStore('readwrite', (store) => store.put(game));
+};
+
+export const deleteLocalGame = async (id: string) => {
+  await withStore('readwrite', (store) => store.delete(id));
+};
@@ -0,0 +1,21 @@
+import { supabase } from './supabase';
+import { BoardAnnotations, MoveAnnotation } from '../types';
+
+export const fetchMoveAnnotations = async (gameId: string): Promise<MoveAnnotation[]> => {
+  const { data, error } = await supabase.from('move_annotations').select('*').eq('game_id', gameId);
+  if (error) throw error;
+  return data as MoveAnnotation[];
+};
+
+// Replaces what the current user saved on this position; empty clears it
+export const saveMoveAnnotations = async (gameId: string, ply: number, userId: string, annotations: BoardAnnotations) => {
+  const { error } = await supabase.from('move_annotations').upsert({
+    game_id: gameId,
+    ply,
+    user_id: userId,
+    arrows: annotations.arrows,
+    circles: annotations.circles,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { buildPgn, parsePgn, toMoveRecords } from './pgn';
+import { STARTING_FEN } from '../constants';
+
+const exportOptions = {
+  white: 'Alice',
+  black: 'Bob',
+  date: new Date(2024, 2, 5),
+  result: '0-1',
+  timeControl: { baseSeconds: 180, incrementSeconds: 2 },
+  termination: 'Normal',
+  initialFen: STARTING_FEN,
+  moves: toMoveRecords(STARTING_FEN, ['f3', 'e5', 'g4', 'Qh4#']),
+  site: 'https://chess.example',
+};
+
+describe('buildPgn', () => {
+  it('writes the headers and numbered movetext', () => {
+    expect(buildPgn(exportOptions)).toBe(
+      [
+        '[Event "Casual game"]',
+        '[Site "https://chess.example"]',
+        '[Date "2024.03.05"]',
+        '[White "Alice"]',
+        '[Black "Bob"]',
+        '[Result "0-1"]',
+        '[TimeControl "180+2"]',
+        '[Termination "Normal"]',
+        '',
+        '1. f3 e5 2. g4 Qh4# 0-1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('escapes quotes in names and marks untimed games', () => {
+    const pgn = buildPgn({ ...exportOptions, white: 'The "Hammer"', timeControl: null });
+    expect(pgn).toContain('[White "The \\"Hammer\\""]');
+    expect(pgn).toContain('[TimeControl "-"]');
+  });
+
+  it('adds SetUp and FEN for other starting positions, and the variant', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+    const pgn = buildPgn({ ...exportOptions, initialFen: fen, moves: toMoveRecords(fen, ['e4']), variant: 'king_of_the_hill' });
+    expect(pgn).toContain('[Variant "King of the Hill"]');
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+  });
+
+  it('writes annotations as comments and repeats the move number after them', () => {
+    const pgn = buildPgn({
+      ...exportOptions,
+      annotations: { 1: { arrows: [{ from: 'e7', to: 'e5', color: 'red' }], circles: [{ square: 'h4', color: 'green' }] } },
+    });
+    expect(pgn).toContain('1. f3 {[%cal Re7e5] [%csl Gh4]} 1... e5 2. g4');
+  });
+
+  it('wraps movetext at 80 characters', () => {
+    const sans = ['Nf3', 'Nf6', 'Ng1', 'Ng8'];
+    const moves = toMoveRecords(STARTING_FEN, [...sans, ...sans, ...sans, ...sans, ...sans]);
+    const pgn = buildPgn({ ...exportOptions, result: '*', moves });
+    const movetext = pgn.split('\n\n')[1].trim().split('\n');
+    expect(movetext.length).toBeGreaterThan(1);
+    movetext.forEach((line) => expect(line.length).toBeLessThanOrEqual(80));
+  });
+});
+
+describe('parsePgn', () => {
+  it('reads headers and the main line, skipping comments, variations and NAGs', () => {
+    const parsed = parsePgn(
+      '[White "Alice"]\n[Black "Bob"]\n\n1. e4 {best by test} e5 (1... c5 2. Nf3) 2. Nf3 $1 Nc6!? 3. Bb5 a6 *'
+    );
+    expect(parsed.headers).toEqual({ White: 'Alice', Black: 'Bob' });
+    expect(parsed.variant).toBe('standard');
+    expect(parsed.initialFen).toBe(STARTING_FEN);
+    expect(parsed.sans).toEqual(['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6']);
+    expect(parsed.gameOver).toBe(false);
+  });
+
+  it('accepts zeros for castling', () => {
+    const parsed = parsePgn('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0-0');
+    expect(parsed.sans[6]).toBe('O-O');
+  });
+
+  it('reads annotations from comments by ply', () => {
+    const parsed = parsePgn('{[%csl Ge4]} 1. e4 {[%cal Rd7d5]} e5');
+    expect(parsed.annotations).toEqual({
+      0: { arrows: [], circles: [{ square: 'e4', color: 'green' }] },
+      1: { arrows: [{ from: 'd7', to: 'd5', color: 'red' }], circles: [] },
+    });
+  });
+
+  it('only reads the first of several games', () => {
+    const parsed = parsePgn('[Event "One"]\n\n1. e4 e5 1-0\n\n[Event "Two"]\n\n1. d4 d5 0-1');
+    expect(parsed.headers.Event).toBe('One');
+    expect(parsed.sans).toEqual(['e4', 'e5']);
+  });
+
+  it('knows when the game is over', () => {
+    expect(parsePgn('1. f3 e5 2. g4 Qh4#').gameOver).toBe(true);
+  });
+
+  it('starts from the FEN header', () => {
+    const fen = '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1';
+    const parsed = parsePgn(`[SetUp "1"]\n[FEN "${fen}"]\n\n1. e4 Kd7`);
+    expect(parsed.initialFen).toBe(fen);
+    expect(parsed.finalFen).toBe('8/3k4/8/8/4P3/8/8/4K3 w - - 1 2');
+  });
+
+  it('refuses illegal moves and bad FENs', () => {
+    expect(() => parsePgn('1. e4 e5 2. Ke3')).toThrow('Illegal move "Ke3" at ply 3');
+    expect(() => parsePgn('[FEN "not a fen"]\n\n1. e4')).toThrow('Invalid FEN header');
+  });
+
+  it('round-trips an exported game', () => {
+    const parsed = parsePgn(buildPgn(exportOptions));
+    expect(parsed.sans).toEqual(['f3', 'e5', 'g4', 'Qh4#']);
+    expect(parsed.headers.White).toBe('Alice');
+  });
+});
+
+describe('toMoveRecords', () => {
+  it('numbers the moves by ply with their squares and positions', () => {
+    const records = toMoveRecords(STARTING_FEN, ['e4', 'e5'], 'game-1');
+    expect(records.map((r) => [r.id, r.ply, r.color, r.from_square, r.to_square, r.uci])).toEqual([
+      ['game-1-1', 1, 'w', 'e2', 'e4', 'e2e4'],
+      ['game-1-2', 2, 'b', 'e7', 'e5', 'e7e5'],
+    ]);
+    expect(records[1].fen_after).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+  });
+
+  it('keeps promotions', () => {
+    const [record] = toMoveRecords('8/4P3/8/8/8/8/k7/4K3 w - - 0 1', ['e8=N']);
+    expect(record.promotion).toBe('n');
+  });
+});
+
+describe('parsePgn with variants', () => {
+  it('reads the Variant header under the names other sites use', () => {
+    expect(parsePgn('[Variant "King of the Hill"]\n\n1. e4').variant).toBe('king_of_the_hill');
+    expect(parsePgn('[Variant "threeCheck"]\n\n1. e4').variant).toBe('three_check');
+    expect(parsePgn('[Variant "From Position"]\n\n1. e4').variant).toBe('standard');
+  });
+
+  it('refuses variants it cannot play', () => {
+    expect(() => parsePgn('[Variant "Crazyhouse"]\n\n1. e4')).toThrow('The Crazyhouse variant is not supported.');
+  });
+
+  it('needs a FEN for Chess960 and reads KQkq castling rights', () => {
+    expect(() => parsePgn('[Variant "Chess960"]\n\n1. e4')).toThrow('Chess960 games need a FEN header.');
+    const fen = 'bqnbrkrn/pppppppp/8/8/8/8/PPPPPPPP/BQNBRKRN w KQkq - 0 1';
+    const parsed = parsePgn(`[Variant "Chess960"]\n[FEN "${fen}"]\n\n1. Ng3 Ng6 2. O-O`);
+    expect(parsed.initialFen).toBe('bqnbrkrn/pppppppp/8/8/8/8/PPPPPPPP/BQNBRKRN w GEge - 0 1');
+    expect(parsed.finalFen.split(' ').slice(0, 3)).toEqual(['bqnbrkr1/pppppppp/6n1/8/8/6N1/PPPPPPPP/BQNBRRK1', 'b', 'ge']);
+  });
+
+  it('drops the checks field from Three-check FENs', () => {
+    const parsed = parsePgn(`[Variant "Three-check"]\n[FEN "${STARTING_FEN.replace(' - ', ' - 3+3 ')}"]\n\n1. e4`);
+    expect(parsed.initialFen).toBe(STARTING_FEN);
+    expect(parsed.checks).toEqual({ w: 0, b: 0 });
+  });
+
+  it('counts the Three-check checks from the FEN and the moves', () => {
+    expect(parsePgn(`[Variant "Three-check"]\n[FEN "${STARTING_FEN.replace(' - ', ' - 2+3 ')}"]\n\n1. e4`).checks).toEqual({ w: 1, b: 0 });
+    expect(parsePgn(`[Variant "Three-check"]\n[FEN "${STARTING_FEN.replace(' - ', ' - +0+2 ')}"]\n\n1. e4`).checks).toEqual({ w: 0, b: 2 });
+    expect(parsePgn('[Variant "Three-check"]\n\n1. e4 f6 2. Qh5+ g6').checks).toEqual({ w: 1, b: 0 });
+  });
+
+  it('ends the game by the variant rules', () => {
+    const parsed = parsePgn('[Variant "King of the Hill"]\n\n1. e3 e6 2. Ke2 Ke7 3. Kd3 Kd6 4. Kd4');
+    expect(parsed.gameOver).toBe(true);
+  });
+});
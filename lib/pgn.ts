@@ -0,0 +1,266 @@
+import { Chess } from 'chess.js';
+import { BoardAnnotations, MoveRecord, TimeControl, Variant } from '../types';
+import { STARTING_FEN } from '../constants';
+import { annotationsFromComment, annotationsToComment, isEmptyAnnotations } from './annotations';
+import { VARIANTS, countChecks, createChess, startingFen, toShredderFen } from './variants';
+
+export interface PgnExportOptions {
+  white: string;
+  black: string;
+  date: Date;
+  result: string; // 1-0, 0-1, 1/2-1/2 or *
+  timeControl: TimeControl | null;
+  termination: string;
+  initialFen: string;
+  moves: MoveRecord[];
+  site?: string;
+  variant?: Variant;
+  // Arrows and circles by ply, written as move comments; 0 is the start
+  annotations?: Record<number, BoardAnnotations>;
+}
+
+export interface ParsedPgn {
+  headers: Record<string, string>;
+  variant: Variant;
+  initialFen: string;
+  sans: string[];
+  finalFen: string;
+  // Whether the main line ends the game, by the variant's rules
+  gameOver: boolean;
+  // Three-check: checks each side has given by the final position
+  checks: Record<'w' | 'b', number>;
+  annotations: Record<number, BoardAnnotations>;
+}
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const escapeHeader = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// Break movetext into lines of at most 80 characters, as the PGN spec asks
+const wrap = (tokens: string[]): string => {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach((token) => {
+    if (line && line.length + 1 + token.length > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+export const buildPgn = (options: PgnExportOptions): string => {
+  const { date, initialFen, moves } = options;
+  const headers: [string, string][] = [
+    ['Event', 'Casual game'],
+    ['Site', options.site ?? window.location.origin],
+    ['Date', `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`],
+    ['White', options.white],
+    ['Black', options.black],
+    ['Result', options.result],
+    ['TimeControl', options.timeControl ? `${options.timeControl.baseSeconds}+${options.timeControl.incrementSeconds}` : '-'],
+    ['Termination', options.termination],
+  ];
+  if (options.variant && options.variant !== 'standard') {
+    headers.push(['Variant', VARIANTS[options.variant].label]);
+  }
+  if (initialFen !== STARTING_FEN) {
+    headers.push(['SetUp', '1'], ['FEN', initialFen]);
+  }
+
+  const comment = (ply: number) => {
+    const text = options.annotations?.[ply] ? annotationsToComment(options.annotations[ply]) : '';
+    return text ? `{${text}}` : null;
+  };
+
+  const tokens: string[] = [];
+  let afterComment = false;
+  const initialComment = comment(0);
+  if (initialComment) tokens.push(initialComment);
+  moves.forEach((move, i) => {
+    const fullmove = parseInt(move.fen_after.split(' ')[5], 10) || 1;
+    if (move.color === 'w') {
+      tokens.push(`${fullmove}.`);
+    } else if (i === 0 || afterComment) {
+      // Black's move number is repeated after anything that interrupts the move pair
+      tokens.push(`${fullmove - 1}...`);
+    }
+    tokens.push(move.san);
+    const moveComment = comment(i + 1);
+    if (moveComment) tokens.push(moveComment);
+    afterComment = !!moveComment;
+  });
+  tokens.push(options.result);
+
+  return `${headers.map(([k, v]) => `[${k} "${escapeHeader(v)}"]`).join('\n')}\n\n${wrap(tokens)}\n`;
+};
+
+// Variant header values other sites write for games this app can play;
+// matched without case, spaces, dashes or underscores
+const VARIANT_NAMES: Record<string, Variant> = {
+  standard: 'standard',
+  fromposition: 'standard',
+  chess960: 'chess960',
+  fischerandom: 'chess960',
+  fischerrandom: 'chess960',
+  kingofthehill: 'king_of_the_hill',
+  threecheck: 'three_check',
+  '3check': 'three_check',
+  horde: 'horde',
+};
+
+const parseVariant = (header: string | undefined): Variant => {
+  if (!header) return 'standard';
+  const variant = VARIANT_NAMES[header.toLowerCase().replace(/[\s_-]/g, '')];
+  if (!variant) throw new Error(`The ${header} variant is not supported.`);
+  return variant;
+};
+
+// Strip comments, variations, NAGs, move numbers and results, leaving SAN
+// tokens. Main-line comments are kept by the ply they follow.
+const extractSans = (movetext: string): { sans: string[]; comments: Record<number, string> } => {
+  const sans: string[] = [];
+  const comments: Record<number, string> = {};
+  let depth = 0;
+  let i = 0;
+
+  while (i < movetext.length) {
+    const ch = movetext[i];
+    if (ch === '{') {
+      const end = movetext.indexOf('}', i);
+      if (depth === 0) {
+        const text = movetext.slice(i + 1, end === -1 ? movetext.length : end);
+        comments[sans.length] = comments[sans.length] ? `${comments[sans.length]} ${text}` : text;
+      }
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (ch === ';') {
+      const end = movetext.indexOf('\n', i);
+      i = end === -1 ? movetext.length : end + 1;
+    } else if (ch === '(') {
+      depth++;
+      i++;
+    } else if (ch === ')') {
+      depth = Math.max(0, depth - 1);
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else {
+      let end = i;
+      while (end < movetext.length && !/[\s{}();]/.test(movetext[end])) end++;
+      const token = movetext.slice(i, end);
+      i = end;
+
+      if (depth > 0) continue; // inside a variation
+      if (/^\$\d+$/.test(token)) continue; // NAG
+      if (/^(1-0|0-1|1\/2-1\/2|\*)$/.test(token)) continue;
+
+      // Drop a leading move number ("12." / "12...") and trailing annotations ("!?")
+      const san = token
+        .replace(/^\d+\.+/, '')
+        .replace(/[!?]+$/, '')
+        .replace(/^0-0(-0)?/, (castle) => castle.replace(/0/g, 'O'));
+      if (san) sans.push(san);
+    }
+  }
+  return { sans, comments };
+};
+
+/**
+ * Parse the first game of a PGN and replay its main line. Throws with a
+ * readable message when the text is not valid PGN or contains an illegal move.
+ */
+export const parsePgn = (pgn: string): ParsedPgn => {
+  const headers: Record<string, string> = {};
+  const headerPattern = /^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/;
+  const lines = pgn.replace(/\r\n?/g, '\n').split('\n');
+  let body = 0;
+
+  for (; body < lines.length; body++) {
+    const line = lines[body];
+    const match = line.match(headerPattern);
+    if (match) {
+      headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    } else if (line.trim() !== '') {
+      break;
+    }
+  }
+
+  const variant = parseVariant(headers.Variant);
+  if (variant === 'chess960' && !headers.FEN) throw new Error('Chess960 games need a FEN header.');
+  let initialFen = headers.FEN || startingFen(variant);
+  // Three-check FENs from other sites may carry a checks field: checks left
+  // as in "3+3", or checks given as in "+1+0". chess.js cannot read it, so it
+  // is taken out and added to the checks given in the moves
+  const checks = { w: 0, b: 0 };
+  if (variant === 'three_check') {
+    const fields = initialFen.split(/\s+/);
+    const field = fields.find((f) => /^\+?\d\+\+?\d$/.test(f));
+    if (field) {
+      const [w, b] = field.replace(/^\+/, '').split('+').map(Number);
+      checks.w = field.startsWith('+') ? w : 3 - w;
+      checks.b = field.startsWith('+') ? b : 3 - b;
+    }
+    initialFen = fields.filter((f) => f !== field).join(' ');
+  }
+  if (variant === 'chess960') initialFen = toShredderFen(initialFen);
+
+  let game: Chess;
+  try {
+    game = createChess(initialFen, variant);
+  } catch {
+    throw new Error(`Invalid FEN header: ${initialFen}`);
+  }
+
+  // Only the first game when several are pasted together
+  const movetext = lines.slice(body).join('\n').split(/\n\s*\n\s*\[/)[0];
+  const { sans, comments } = extractSans(movetext);
+
+  sans.forEach((san, i) => {
+    try {
+      game.move(san);
+    } catch {
+      throw new Error(`Illegal move "${san}" at ply ${i + 1}`);
+    }
+  });
+
+  if (variant === 'three_check') {
+    const played = countChecks(game.history({ verbose: true }));
+    checks.w += played.w;
+    checks.b += played.b;
+  }
+
+  const annotations: Record<number, BoardAnnotations> = {};
+  Object.entries(comments).forEach(([ply, text]) => {
+    const found = annotationsFromComment(text);
+    if (!isEmptyAnnotations(found)) annotations[Number(ply)] = found;
+  });
+
+  return { headers, variant, initialFen, sans, finalFen: game.fen(), gameOver: game.isGameOver(), checks, annotations };
+};
+
+/**
+ * Replay SAN moves into MoveRecords, for boards that are not backed by the
+ * moves table (imported games, local analysis).
+ */
+export const toMoveRecords = (initialFen: string, sans: string[], gameId = 'local'): MoveRecord[] => {
+  const game = new Chess(initialFen);
+  return sans.map((san, i) => {
+    const move = game.move(san);
+    return {
+      id: `${gameId}-${i + 1}`,
+      game_id: gameId,
+      ply: i + 1,
+      color: move.color,
+      from_square: move.from,
+      to_square: move.to,
+      promotion: (move.promotion as MoveRecord['promotion']) ?? null,
+      san: move.san,
+      uci: move.lan,
+      fen_after: move.after,
+      created_at: new Date().toISOString(),
+    };
+  });
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import type { PieceRenderObject } from 'react-chessboard';
+import { PieceSet } from '../types';
+
+type PieceRenderer = PieceRenderObject[string];
+
+const PIECE_TYPES = ['K', 'Q', 'R', 'B', 'N', 'P'] as const;
+
+// Solid glyphs for both sides, so only the fill tells them apart
+const GLYPHS: Record<(typeof PIECE_TYPES)[number], string> = {
+  K: '♚', Q: '♛', R: '♜', B: '♝', N: '♞', P: '♟',
+};
+
+const COLORS = {
+  w: { fill: '#ffffff', stroke: '#1e293b' },
+  b: { fill: '#1e293b', stroke: '#f8fafc' },
+};
+
+const glyphPiece = (color: 'w' | 'b', type: (typeof PIECE_TYPES)[number]): PieceRenderer => (props) => (
+  <svg viewBox="0 0 100 100" width="100%" height="100%" style={props?.svgStyle}>
+    <text
+      x="50"
+      y="52"
+      textAnchor="middle"
+      dominantBaseline="central"
+      fontSize="82"
+      fill={COLORS[color].fill}
+      stroke={COLORS[color].stroke}
+      strokeWidth="2.5"
+      // Keep emoji fonts from drawing the pawn in colour
+      style={{ fontVariantEmoji: 'text' } as React.CSSProperties}
+    >
+      {GLYPHS[type]}
+    </text>
+  </svg>
+);
+
+const letterPiece = (color: 'w' | 'b', type: (typeof PIECE_TYPES)[number]): PieceRenderer => (props) => (
+  <svg viewBox="0 0 100 100" width="100%" height="100%" style={props?.svgStyle}>
+    <circle cx="50" cy="50" r="38" fill={COLORS[color].fill} stroke={COLORS[color].stroke} strokeWidth="4" />
+    <text
+      x="50"
+      y="52"
+      textAnchor="middle"
+      dominantBaseline="central"
+      fontSize="44"
+      fontWeight="700"
+      fontFamily="sans-serif"
+      fill={COLORS[color].stroke}
+    >
+      {type}
+    </text>
+  </svg>
+);
+
+const buildSet = (render: typeof glyphPiece) => {
+  const pieces: Record<string, PieceRenderer> = {};
+  (['w', 'b'] as const).forEach((color) =>
+    PIECE_TYPES.forEach((type) => {
+      pieces[color + type] = render(color, type);
+    })
+  );
+  return pieces;
+};
+
+// Pieces for the board's `pieces` option; the classic set is the board's own
+export const PIECE_SETS: Record<PieceSet, { label: string; pieces?: PieceRenderObject }> = {
+  classic: { label: 'Classic' },
+  glyphs: { label: 'Glyphs', pieces: buildSet(glyphPiece) },
+  letters: { label: 'Letters', pieces: buildSet(letterPiece) },
+};
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+import { GameState, Termination } from '../types';
+
+export const ARCHIVE_PAGE_SIZE = 20;
+
+export type PlayerOutcome = 'win' | 'draw' | 'loss';
+
+export interface ColorRecord {
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+// Archive filters as the form holds them; blank means "any"
+export interface ArchiveFilters {
+  opponent: string;
+  result: PlayerOutcome | '';
+  termination: Termination | '';
+  // yyyy-mm-dd, both days included
+  from: string;
+  to: string;
+}
+
+export const NO_FILTERS: ArchiveFilters = { opponent: '', result: '', termination: '', from: '', to: '' };
+
+// How a finished game went for one of its players
+export const outcomeFor = (game: Pick<GameState, 'result' | 'player_white'>, userId: string): PlayerOutcome | null => {
+  if (!game.result) return null;
+  if (game.result === '1/2-1/2') return 'draw';
+  return (game.result === '1-0') === (game.player_white === userId) ? 'win' : 'loss';
+};
+
+// Finished-game totals by the colour the player had
+export const fetchPlayerRecord = async (userId: string): Promise<Record<'w' | 'b', ColorRecord>> => {
+  const { data, error } = await supabase.rpc('player_results', { p_user_id: userId });
+  if (error) throw error;
+  const record = { w: { wins: 0, draws: 0, losses: 0 }, b: { wins: 0, draws: 0, losses: 0 } };
+  (data as ({ color: 'w' | 'b' } & ColorRecord)[]).forEach(({ color, wins, draws, losses }) => {
+    record[color] = { wins: Number(wins), draws: Number(draws), losses: Number(losses) };
+  });
+  return record;
+};
+
+// One page (0-based) of the player's games, newest first, and how many match in all
+export const fetchPlayerGames = async (
+  userId: string,
+  filters: ArchiveFilters,
+  page: number
+): Promise<{ games: GameState[]; total: number }> => {
+  const nextDay = (day: string) => {
+    const date = new Date(`${day}T00:00:00`);
+    date.setDate(date.getDate() + 1);
+    return date.toISOString();
+  };
+  const { data, error, count } = await supabase
+    .rpc(
+      'player_games',
+      {
+        p_user_id: userId,
+        p_opponent: filters.opponent.trim() || null,
+        p_result: filters.result || null,
+        p_termination: filters.termination || null,
+        // Days are the viewer's own, not UTC
+        p_from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : null,
+        p_to: filters.to ? nextDay(filters.to) : null,
+      },
+      { count: 'exact' }
+    )
+    .range(page * ARCHIVE_PAGE_SIZE, (page + 1) * ARCHIVE_PAGE_SIZE - 1);
+  if (error) throw error;
+  return { games: data as GameState[], total: count ?? 0 };
+};
+
+// Ongoing games waiting on this player's move, longest-waiting first
+export const fetchGamesToMove = async (userId: string): Promise<GameState[]> => {
+  const { data, error } = await supabase
+    .from('games')
+    .select('*')
+    .eq('status', 'active')
+    .or(`and(player_white.eq.${userId},turn.eq.white),and(player_black.eq.${userId},turn.eq.black)`)
+    .order('last_move_at', { ascending: true, nullsFirst: true })
+    .limit(20);
+  if (error) throw error;
+  return data as GameState[];
+};
@@ -0,0 +1,141 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import { applyPremoves, premoveCastling, premovePromotion, premoveTargets } from './premoves';
+import { STARTING_FEN } from '../constants';
+import { VariantChess, chess960Fen, startingFen } from './variants';
+
+const sorted = (squares: string[]) => [...squares].sort();
+
+describe('premoveTargets', () => {
+  const start = new Chess(STARTING_FEN);
+
+  it('gives pawns their pushes, double step and captures', () => {
+    expect(sorted(premoveTargets(start, 'e2'))).toEqual(['d3', 'e3', 'e4', 'f3']);
+    expect(sorted(premoveTargets(start, 'a7'))).toEqual(['a5', 'a6', 'b6']);
+  });
+
+  it('ignores pieces in the way, since the position will have changed', () => {
+    expect(sorted(premoveTargets(start, 'a1'))).toEqual(
+      ['a2', 'a3', 'a4', 'a5', 'a6', 'a7', 'a8', 'b1', 'c1', 'd1', 'e1', 'f1', 'g1', 'h1']
+    );
+    expect(sorted(premoveTargets(start, 'c1'))).toEqual(['a3', 'b2', 'd2', 'e3', 'f4', 'g5', 'h6']);
+  });
+
+  it('gives knights their jumps on the board', () => {
+    expect(sorted(premoveTargets(start, 'g1'))).toEqual(['e2', 'f3', 'h3']);
+  });
+
+  it('lets the king castle from its home square only', () => {
+    expect(sorted(premoveTargets(start, 'e1'))).toEqual(['c1', 'd1', 'd2', 'e2', 'f1', 'f2', 'g1']);
+    const moved = new Chess('4k3/8/8/8/8/8/8/3K4 w - - 0 1');
+    expect(premoveTargets(moved, 'd1')).not.toContain('f1');
+  });
+
+  it('only castles with the rights left', () => {
+    const board = new Chess('r3k2r/8/8/8/8/8/8/R3K2R w Qk - 0 1');
+    expect(premoveTargets(board, 'e1')).toContain('c1');
+    expect(premoveTargets(board, 'e1')).not.toContain('g1');
+    expect(premoveTargets(board, 'e1', 'standard', '-')).not.toContain('c1');
+  });
+
+  it('has nothing for an empty square', () => {
+    expect(premoveTargets(start, 'e4')).toEqual([]);
+  });
+});
+
+describe('premovePromotion', () => {
+  const board = new Chess('8/4P3/8/8/8/8/k3p3/4K3 w - - 0 1');
+
+  it('queens pawns reaching the last rank', () => {
+    expect(premovePromotion(board, 'e7', 'e8')).toBe('q');
+    expect(premovePromotion(board, 'e2', 'd1')).toBe('q');
+  });
+
+  it('leaves other moves alone', () => {
+    expect(premovePromotion(board, 'e1', 'd1')).toBeUndefined();
+    expect(premovePromotion(board, 'e7', 'e6')).toBeUndefined();
+  });
+});
+
+describe('applyPremoves', () => {
+  it('plays the queue on the board whatever the opponent does', () => {
+    const board = applyPremoves(STARTING_FEN, [
+      { from: 'e2', to: 'e4' },
+      { from: 'e4', to: 'e5' },
+    ]);
+    expect(board.get('e5')).toEqual({ type: 'p', color: 'w' });
+    expect(board.get('e2')).toBeUndefined();
+  });
+
+  it('captures whatever stands on the target square', () => {
+    const board = applyPremoves(STARTING_FEN, [{ from: 'd1', to: 'd7' }]);
+    expect(board.get('d7')).toEqual({ type: 'q', color: 'w' });
+  });
+
+  it('moves the rook along when castling', () => {
+    const board = applyPremoves('r3k2r/8/8/8/8/8/8/R3K2R b KQkq - 0 1', [{ from: 'e8', to: 'c8' }]);
+    expect(board.get('c8')).toEqual({ type: 'k', color: 'b' });
+    expect(board.get('d8')).toEqual({ type: 'r', color: 'b' });
+    expect(board.get('a8')).toBeUndefined();
+  });
+
+  it('promotes', () => {
+    const board = applyPremoves('8/4P3/8/8/8/8/k7/4K3 b - - 0 1', [{ from: 'e7', to: 'e8', promotion: 'q' }]);
+    expect(board.get('e8')).toEqual({ type: 'q', color: 'w' });
+  });
+
+  it('skips premoves from squares left empty', () => {
+    const board = applyPremoves(STARTING_FEN, [{ from: 'e4', to: 'e5' }]);
+    expect(board.fen().split(' ')[0]).toBe(STARTING_FEN.split(' ')[0]);
+  });
+});
+
+describe('premoveCastling', () => {
+  it('drops both rights for a king move and a rook\'s own right when it moves', () => {
+    const fen = 'r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1';
+    expect(premoveCastling(fen, [{ from: 'e1', to: 'e2' }])).toBe('kq');
+    expect(premoveCastling(fen, [{ from: 'h1', to: 'h8' }])).toBe('Qq');
+  });
+});
+
+describe('premoves in Chess960', () => {
+  // Position 0: BBQNNRKR
+  const fen = chess960Fen(0);
+  const cleared = fen.replace('BBQNNRKR w', '5RKR w');
+
+  it('castles the king onto the rooks it still may castle with', () => {
+    const board = new VariantChess('1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1', 'chess960');
+    expect(sorted(premoveTargets(board, 'e1', 'chess960', 'GBgb'))).toEqual(['b1', 'd1', 'd2', 'e2', 'f1', 'f2', 'g1']);
+    expect(premoveTargets(board, 'e1', 'chess960', 'Bgb')).not.toContain('g1');
+    expect(premoveTargets(board, 'e1', 'chess960', 'Bgb')).not.toContain('c1');
+  });
+
+  it('puts king and rook on their castled squares', () => {
+    const board = applyPremoves(cleared, [{ from: 'g1', to: 'f1' }], 'chess960');
+    expect(board.get('c1')).toEqual({ type: 'k', color: 'w' });
+    expect(board.get('d1')).toEqual({ type: 'r', color: 'w' });
+    expect(board.get('h1')).toEqual({ type: 'r', color: 'w' });
+    expect(board.get('f1')).toBeUndefined();
+    expect(board.get('g1')).toBeUndefined();
+    expect(premoveCastling(cleared, [{ from: 'g1', to: 'f1' }], 'chess960')).toBe('hf');
+  });
+
+  it('leaves a two-file king move alone', () => {
+    const board = applyPremoves('4k3/8/8/8/8/8/8/R3K2R w - - 0 1', [{ from: 'e1', to: 'g1' }], 'chess960');
+    expect(board.get('g1')).toEqual({ type: 'k', color: 'w' });
+    expect(board.get('h1')).toEqual({ type: 'r', color: 'w' });
+  });
+});
+
+describe('premoves in Horde', () => {
+  const board = new VariantChess(startingFen('horde'), 'horde');
+
+  it('lets White\'s pawns step twice from the first rank too', () => {
+    expect(sorted(premoveTargets(board, 'd1', 'horde'))).toEqual(['c2', 'd2', 'd3', 'e2']);
+    expect(premoveTargets(board, 'd1')).not.toContain('d3');
+  });
+
+  it('keeps Black\'s double step on the seventh rank', () => {
+    expect(sorted(premoveTargets(board, 'e7', 'horde'))).toEqual(['d6', 'e5', 'e6', 'f6']);
+  });
+});
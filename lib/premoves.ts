@@ -0,0 +1,149 @@
+import { Chess, Square } from 'chess.js';
+import { PromotionPiece, Variant } from '../types';
+
+// A move queued during the opponent's turn
+export interface Premove {
+  from: string;
+  to: string;
+  promotion?: PromotionPiece;
+}
+
+const FILES = 'abcdefgh';
+
+const toSquare = (file: number, rank: number): string | null =>
+  file >= 0 && file < 8 && rank >= 1 && rank <= 8 ? `${FILES[file]}${rank}` : null;
+
+// Castling rights of one side, from the FEN's castling field: "KQkq", or
+// the rook files in Chess960 (e.g. "HAha")
+const castlingRights = (castling: string, color: 'w' | 'b') =>
+  [...castling].filter((letter) => /[a-hkq]/i.test(letter) && (letter === letter.toUpperCase()) === (color === 'w'));
+
+// Square of the rook a castling right belongs to
+const castlingRook = (letter: string) => {
+  const rank = letter === letter.toUpperCase() ? 1 : 8;
+  const file = { k: 'h', q: 'a' }[letter.toLowerCase()] ?? letter.toLowerCase();
+  return `${file}${rank}`;
+};
+
+const KNIGHT_JUMPS = [[1, 2], [2, 1], [2, -1], [1, -2], [-1, -2], [-2, -1], [-2, 1], [-1, 2]];
+const DIAGONALS = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+const STRAIGHTS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+/**
+ * Squares a piece could be premoved to. Only the piece's movement pattern
+ * counts: the position will have changed by the time the move is played,
+ * so blockers, own pieces (which may be captured first) and checks are
+ * ignored. Whether the move is legal is decided when it is played.
+ * `castling` is the castling field of the position the queue leads to; see
+ * premoveCastling.
+ */
+export const premoveTargets = (
+  board: Chess, square: string, variant: Variant = 'standard', castling = board.fen().split(' ')[2] ?? '-'
+): string[] => {
+  const piece = board.get(square as Square);
+  if (!piece) return [];
+  const file = FILES.indexOf(square[0]);
+  const rank = Number(square[1]);
+  const targets: (string | null)[] = [];
+
+  const step = (offsets: number[][]) =>
+    offsets.forEach(([df, dr]) => targets.push(toSquare(file + df, rank + dr)));
+  const slide = (directions: number[][]) =>
+    directions.forEach(([df, dr]) => {
+      for (let i = 1; i < 8; i++) targets.push(toSquare(file + df * i, rank + dr * i));
+    });
+
+  switch (piece.type) {
+    case 'p': {
+      const forward = piece.color === 'w' ? 1 : -1;
+      step([[0, forward], [-1, forward], [1, forward]]);
+      // Horde's white pawns may also step twice from the first rank
+      const doubleStep = rank === (piece.color === 'w' ? 2 : 7) || (variant === 'horde' && piece.color === 'w' && rank === 1);
+      if (doubleStep) step([[0, forward * 2]]);
+      break;
+    }
+    case 'n':
+      step(KNIGHT_JUMPS);
+      break;
+    case 'b':
+      slide(DIAGONALS);
+      break;
+    case 'r':
+      slide(STRAIGHTS);
+      break;
+    case 'q':
+      slide([...DIAGONALS, ...STRAIGHTS]);
+      break;
+    case 'k':
+      step([...DIAGONALS, ...STRAIGHTS]);
+      // Castling: onto the rook in Chess960, two files over otherwise
+      castlingRights(castling, piece.color).forEach((letter) => {
+        const rook = castlingRook(letter);
+        if (variant === 'chess960') targets.push(rook);
+        else if (square === (piece.color === 'w' ? 'e1' : 'e8')) targets.push(`${rook[0] === 'h' ? 'g' : 'c'}${rook[1]}`);
+      });
+      break;
+  }
+  // A Chess960 king may stand next to the rook it castles onto
+  return [...new Set(targets.filter((t): t is string => t !== null))];
+};
+
+// Pawns premoved to the last rank become queens
+export const premovePromotion = (board: Chess, from: string, to: string): PromotionPiece | undefined => {
+  const piece = board.get(from as Square);
+  return piece?.type === 'p' && (to[1] === '8' || to[1] === '1') ? 'q' : undefined;
+};
+
+// Plays the queue on a board, keeping track of the castling rights it leaves
+const playPremoves = (fen: string, premoves: Premove[], variant: Variant) => {
+  const board = new Chess(fen, { skipValidation: true });
+  let castling = fen.split(' ')[2] ?? '-';
+  premoves.forEach(({ from, to, promotion }) => {
+    const piece = board.remove(from as Square);
+    if (!piece) return;
+    // A king move gives up both rights, a rook leaving or captured on its square its own
+    castling = [...castling]
+      .filter((letter) => {
+        if (letter === '-') return false;
+        const color = letter === letter.toUpperCase() ? 'w' : 'b';
+        const rook = castlingRook(letter);
+        return !(piece.type === 'k' && piece.color === color) && rook !== from && rook !== to;
+      })
+      .join('') || '-';
+
+    const rank = from[1];
+    const target = board.get(to as Square);
+    // Chess960 castling: the king moves onto its own rook, and both end up
+    // where they would in regular chess
+    if (variant === 'chess960' && piece.type === 'k' && target?.type === 'r' && target.color === piece.color) {
+      board.remove(to as Square);
+      const kingside = to > from;
+      board.put(piece, `${kingside ? 'g' : 'c'}${rank}` as Square);
+      board.put(target, `${kingside ? 'f' : 'd'}${rank}` as Square);
+      return;
+    }
+
+    board.remove(to as Square);
+    board.put(promotion ? { type: promotion, color: piece.color } : piece, to as Square);
+    // Castling moves the rook along with the king
+    const fileDelta = FILES.indexOf(to[0]) - FILES.indexOf(from[0]);
+    if (variant !== 'chess960' && piece.type === 'k' && Math.abs(fileDelta) === 2) {
+      const rookFrom = `${fileDelta > 0 ? 'h' : 'a'}${rank}` as Square;
+      const rook = board.remove(rookFrom);
+      if (rook) board.put(rook, `${fileDelta > 0 ? 'f' : 'd'}${rank}` as Square);
+    }
+  });
+  return { board, castling };
+};
+
+/**
+ * The position as it will look once the queued premoves are played,
+ * ignoring whatever the opponent does in between. Used to draw the queue
+ * and to pick pieces for the next premove.
+ */
+export const applyPremoves = (fen: string, premoves: Premove[], variant: Variant = 'standard'): Chess =>
+  playPremoves(fen, premoves, variant).board;
+
+// The castling field once the queued premoves are played, for premoveTargets
+export const premoveCastling = (fen: string, premoves: Premove[], variant: Variant = 'standard'): string =>
+  playPremoves(fen, premoves, variant).castling;
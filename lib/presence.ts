@@ -0,0 +1,15 @@
+// Realtime presence payload each visitor tracks on the game room channel
+export interface PresenceEntry {
+  user_id: string;
+  display_name: string;
+  status: 'online' | 'away';
+}
+
+export type PresenceStatus = PresenceEntry['status'] | 'offline';
+
+// Seated players refresh their server-side heartbeat this often
+export const HEARTBEAT_MS = 15_000;
+
+// How long an opponent must be gone before the game can be claimed.
+// claim_abandonment enforces the same minute on the server.
+export const ABANDON_GRACE_MS = 60_000;
@@ -0,0 +1,24 @@
+import { supabase } from './supabase';
+import { transport } from './backend';
+import { Profile } from '../types';
+
+// Profiles for the given user ids, keyed by id. Unknown ids are left out.
+export const fetchProfiles = async (ids: (string | null | undefined)[]): Promise<Record<string, Profile>> => {
+  const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  // The self-hosted server has no profiles
+  if (unique.length === 0 || transport.kind !== 'supabase') return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, display_name, avatar_url')
+    .in('id', unique);
+
+  if (error) {
+    console.error('Profile fetch failed', error);
+    return {};
+  }
+  return Object.fromEntries((data as Profile[]).map((p) => [p.id, p]));
+};
+
+export const displayName = (profile: Profile | undefined, fallback = 'Anonymous') =>
+  profile?.display_name ?? fallback;
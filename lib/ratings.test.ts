@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from 'vitest';
+import { canBeRated, fetchRatings, formatRating, formatRatingChange, isProvisional, ratingCategory, ratingIn } from './ratings';
+import { supabase } from './supabase';
+import { STARTING_FEN } from '../constants';
+import { GameState, Rating } from '../types';
+
+vi.mock('./backend', () => ({ transport: { kind: 'supabase' } }));
+vi.mock('./supabase', () => ({ supabase: { from: vi.fn() } }));
+
+const rating = (fields: Partial<Rating>): Rating => ({
+  user_id: 'alice',
+  category: 'blitz',
+  rating: 1500,
+  deviation: 350,
+  volatility: 0.06,
+  games: 0,
+  ...fields,
+});
+
+describe('formatRating', () => {
+  it('marks provisional ratings', () => {
+    expect(formatRating({ rating: 1523.4, deviation: 60 })).toBe('1523');
+    expect(formatRating({ rating: 1500, deviation: 350 })).toBe('1500?');
+    expect(isProvisional({ deviation: 110 })).toBe(false);
+    expect(isProvisional({ deviation: 111 })).toBe(true);
+  });
+});
+
+describe('formatRatingChange', () => {
+  it('signs the change', () => {
+    expect(formatRatingChange(12)).toBe('+12');
+    expect(formatRatingChange(-8)).toBe('-8');
+    expect(formatRatingChange(0)).toBe('±0');
+  });
+});
+
+describe('ratingIn', () => {
+  it('falls back to the starting rating for players without one', () => {
+    const blitz = rating({ rating: 1620, deviation: 80, games: 30 });
+    const book = { alice: { blitz } };
+    expect(ratingIn(book, 'alice', 'blitz')).toBe(blitz);
+    expect(ratingIn(book, 'alice', 'rapid')).toEqual(rating({ category: 'rapid' }));
+    expect(ratingIn(book, 'bob', 'blitz')).toEqual(rating({ user_id: 'bob' }));
+  });
+});
+
+describe('ratingCategory', () => {
+  it('puts timed games in a pool and leaves untimed ones out', () => {
+    const game = (base_seconds: number | null, increment_seconds: number) =>
+      ({ base_seconds, increment_seconds } as GameState);
+    expect(ratingCategory(game(60, 0))).toBe('bullet');
+    expect(ratingCategory(game(180, 2))).toBe('blitz');
+    expect(ratingCategory(game(600, 5))).toBe('rapid');
+    expect(ratingCategory(game(1800, 20))).toBe('classical');
+    expect(ratingCategory(game(null, 0))).toBeNull();
+  });
+});
+
+describe('canBeRated', () => {
+  it('only rates timed standard games from the starting position', () => {
+    const tc = { baseSeconds: 300, incrementSeconds: 0 };
+    expect(canBeRated('standard', STARTING_FEN, tc)).toBe(true);
+    expect(canBeRated('chess960', STARTING_FEN, tc)).toBe(false);
+    expect(canBeRated('standard', '4k3/8/8/8/8/8/8/4K3 w - - 0 1', tc)).toBe(false);
+    expect(canBeRated('standard', STARTING_FEN, null)).toBe(false);
+  });
+});
+
+describe('fetchRatings', () => {
+  it('files ratings by player and category', async () => {
+    const rows = [rating({ category: 'blitz', rating: 1600 }), rating({ category: 'rapid', rating: 1700 }), rating({ user_id: 'bob' })];
+    const query = { select: vi.fn().mockReturnThis(), in: vi.fn().mockResolvedValue({ data: rows, error: null }) };
+    vi.mocked(supabase.from).mockReturnValue(query as any);
+
+    const book = await fetchRatings(['alice', 'bob', 'alice', null]);
+    expect(query.in).toHaveBeenCalledWith('user_id', ['alice', 'bob']);
+    expect(book.alice?.blitz?.rating).toBe(1600);
+    expect(book.alice?.rapid?.rating).toBe(1700);
+    expect(Object.keys(book)).toEqual(['alice', 'bob']);
+  });
+
+  it('asks for nothing without players', async () => {
+    vi.mocked(supabase.from).mockClear();
+    expect(await fetchRatings([null, undefined])).toEqual({});
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { supabase } from './supabase';
+import { transport } from './backend';
+import { getTimeControl, getTimeControlCategory } from './timeControl';
+import { STARTING_FEN } from '../constants';
+import { GameState, Rating, TimeControl, TimeControlCategory, Variant } from '../types';
+
+// Deviation above which a rating is still a rough guess, as on most servers
+export const PROVISIONAL_DEVIATION = 110;
+
+// Ratings by user id and category; players keep no row until their first rated game
+export type RatingBook = Record<string, Partial<Record<TimeControlCategory, Rating>>>;
+
+// Every category's rating for the given user ids
+export const fetchRatings = async (ids: (string | null | undefined)[]): Promise<RatingBook> => {
+  const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  // The self-hosted server has no accounts to rate
+  if (unique.length === 0 || transport.kind !== 'supabase') return {};
+
+  const { data, error } = await supabase
+    .from('ratings')
+    .select('user_id, category, rating, deviation, volatility, games')
+    .in('user_id', unique);
+
+  if (error) {
+    console.error('Rating fetch failed', error);
+    return {};
+  }
+  const book: RatingBook = {};
+  (data as Rating[]).forEach((r) => {
+    book[r.user_id] = { ...book[r.user_id], [r.category]: r };
+  });
+  return book;
+};
+
+// A player's rating in a category, or the 1500 everyone starts from (see player_rating in schema.sql)
+export const ratingIn = (book: RatingBook, userId: string, category: TimeControlCategory): Rating =>
+  book[userId]?.[category] ?? { user_id: userId, category, rating: 1500, deviation: 350, volatility: 0.06, games: 0 };
+
+export const isProvisional = (rating: Pick<Rating, 'deviation'>) => rating.deviation > PROVISIONAL_DEVIATION;
+
+// e.g. "1523", or "1500?" while provisional
+export const formatRating = (rating: Pick<Rating, 'rating' | 'deviation'>): string =>
+  `${Math.round(rating.rating)}${isProvisional(rating) ? '?' : ''}`;
+
+// e.g. "+12", "-8", "±0"
+export const formatRatingChange = (change: number): string =>
+  change > 0 ? `+${change}` : change < 0 ? `${change}` : '±0';
+
+// Pool a game's ratings belong to; untimed games have none
+export const ratingCategory = (gameState: GameState): TimeControlCategory | null => {
+  const tc = getTimeControl(gameState);
+  return tc ? getTimeControlCategory(tc) : null;
+};
+
+// Mirrors the rated-games check on the games table
+export const canBeRated = (variant: Variant, initialFen: string, timeControl: TimeControl | null) =>
+  variant === 'standard' && initialFen === STARTING_FEN && timeControl !== null;
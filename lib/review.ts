@@ -0,0 +1,105 @@
+import { Chess } from 'chess.js';
+import { EngineInfo } from './engine';
+import { MoveClassification, MoveRecord } from '../types';
+
+// Depth each position of a finished game is searched to
+export const REVIEW_DEPTH = 12;
+
+// Mates are scored just beyond any material evaluation
+const MATE_CP = 10000;
+// Evaluations past this are "winning" either way; losses are measured inside it
+const EVAL_CAP_CP = 1000;
+
+export interface PositionEval {
+  // Centipawns from White's point of view
+  cp: number;
+  // Moves to mate from White's point of view (negative: Black mates)
+  mate: number | null;
+  bestMove: string | null;
+}
+
+export interface MoveReview {
+  ply: number;
+  color: 'w' | 'b';
+  cpLoss: number;
+  accuracy: number;
+  classification: MoveClassification | null;
+}
+
+export interface PlayerSummary {
+  accuracy: number;
+  averageCpLoss: number;
+  inaccuracies: number;
+  mistakes: number;
+  blunders: number;
+}
+
+// Engine output for the side to move, turned to White's point of view
+export const toPositionEval = (info: EngineInfo | null, bestMove: string | null, fen: string): PositionEval => {
+  const sign = fen.split(' ')[1] === 'w' ? 1 : -1;
+  if (info?.mate != null) {
+    const mate = info.mate * sign;
+    return { cp: Math.sign(mate || -sign) * (MATE_CP - Math.abs(mate)), mate, bestMove };
+  }
+  return { cp: (info?.scoreCp ?? 0) * sign, mate: null, bestMove };
+};
+
+// Final positions need no engine: the rules already decide them
+export const terminalEval = (fen: string): PositionEval | null => {
+  const game = new Chess(fen);
+  if (game.isCheckmate()) {
+    const whiteMated = game.turn() === 'w';
+    return { cp: whiteMated ? -MATE_CP : MATE_CP, mate: 0, bestMove: null };
+  }
+  if (game.isDraw()) return { cp: 0, mate: null, bestMove: null };
+  return null;
+};
+
+// Expected score for White in percent, the curve Lichess fits to its games
+export const winPercent = (cp: number) => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+
+const classify = (cpLoss: number): MoveClassification | null => {
+  if (cpLoss >= 300) return 'blunder';
+  if (cpLoss >= 100) return 'mistake';
+  if (cpLoss >= 50) return 'inaccuracy';
+  return null;
+};
+
+const capped = (cp: number) => Math.max(-EVAL_CAP_CP, Math.min(EVAL_CAP_CP, cp));
+
+/**
+ * Grades every move by how much it lowered the mover's evaluation.
+ * evals[i] is the position after i plies, so evals has moves.length + 1 entries.
+ */
+export const reviewMoves = (moves: MoveRecord[], evals: PositionEval[]): MoveReview[] =>
+  moves.map((move, i) => {
+    const sign = move.color === 'w' ? 1 : -1;
+    const before = evals[i].cp * sign;
+    const after = evals[i + 1].cp * sign;
+    const cpLoss = Math.max(0, capped(before) - capped(after));
+    const winDrop = Math.max(0, winPercent(before) - winPercent(after));
+    const accuracy = Math.max(0, Math.min(100, 103.1668 * Math.exp(-0.04354 * winDrop) - 3.1669));
+    return { ply: move.ply, color: move.color, cpLoss, accuracy, classification: classify(cpLoss) };
+  });
+
+export const summarize = (reviews: MoveReview[], color: 'w' | 'b'): PlayerSummary => {
+  const own = reviews.filter((r) => r.color === color);
+  const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+  return {
+    accuracy: own.length ? average(own.map((r) => r.accuracy)) : 100,
+    averageCpLoss: average(own.map((r) => r.cpLoss)),
+    inaccuracies: own.filter((r) => r.classification === 'inaccuracy').length,
+    mistakes: own.filter((r) => r.classification === 'mistake').length,
+    blunders: own.filter((r) => r.classification === 'blunder').length,
+  };
+};
+
+// e.g. "+1.3", "-0.4", "M3", "-M2"
+export const formatEval = (evaluation: PositionEval): string => {
+  if (evaluation.mate !== null) {
+    if (evaluation.mate === 0) return evaluation.cp > 0 ? '1-0' : '0-1';
+    return `${evaluation.mate < 0 ? '-' : ''}M${Math.abs(evaluation.mate)}`;
+  }
+  const pawns = evaluation.cp / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+};
@@ -0,0 +1,156 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { supabase } from './supabase';
+import { SETTINGS_KEY } from '../constants';
+import { AnimationSpeed, BoardTheme, Settings } from '../types';
+
+export const DEFAULT_SETTINGS: Settings = {
+  board_theme: 'green',
+  piece_set: 'classic',
+  show_coordinates: true,
+  animation_speed: 'normal',
+  sound: true,
+  show_badge: true,
+};
+
+export const BOARD_THEMES: Record<BoardTheme, { label: string; light: string; dark: string }> = {
+  green: { label: 'Green', light: '#ebecd0', dark: '#779556' },
+  brown: { label: 'Brown', light: '#f0d9b5', dark: '#b58863' },
+  blue: { label: 'Blue', light: '#dee3e6', dark: '#8ca2ad' },
+  gray: { label: 'Gray', light: '#d9d9d9', dark: '#8a8a8a' },
+  purple: { label: 'Purple', light: '#e8e0f0', dark: '#8a6fa8' },
+};
+
+export const ANIMATION_MS: Record<AnimationSpeed, number> = {
+  off: 0,
+  fast: 100,
+  normal: 200,
+  slow: 400,
+};
+
+// How long settings sit still before they are saved to the account
+const SAVE_DELAY_MS = 1000;
+
+// Whether a stored value has the type of the setting it is stored under
+const isSettingValue = <K extends keyof Settings>(key: K, value: unknown): value is Settings[K] =>
+  typeof value === typeof DEFAULT_SETTINGS[key];
+
+const copySetting = <K extends keyof Settings>(settings: Settings, value: Partial<Settings>, key: K) => {
+  const stored = value[key];
+  if (isSettingValue(key, stored)) settings[key] = stored;
+};
+
+// Keeps known keys only, so settings saved by another version still load
+const withDefaults = (stored: unknown): Settings => {
+  const value = (stored && typeof stored === 'object' ? stored : {}) as Partial<Settings>;
+  const settings = { ...DEFAULT_SETTINGS };
+  (Object.keys(DEFAULT_SETTINGS) as (keyof Settings)[]).forEach((key) => copySetting(settings, value, key));
+  if (!(settings.board_theme in BOARD_THEMES)) settings.board_theme = DEFAULT_SETTINGS.board_theme;
+  if (!(settings.animation_speed in ANIMATION_MS)) settings.animation_speed = DEFAULT_SETTINGS.animation_speed;
+  return settings;
+};
+
+const loadStored = (): Settings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return withDefaults(raw ? JSON.parse(raw) : null);
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+interface SettingsContextValue {
+  settings: Settings;
+  updateSettings: (changes: Partial<Settings>) => void;
+  // Takes over settings loaded from elsewhere, e.g. the signed-in account
+  replaceSettings: (stored: unknown) => void;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+/**
+ * Board and sound settings. This browser keeps the last ones used in
+ * localStorage, so boards outside an account (pass and play) get them too.
+ */
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<Settings>(loadStored);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    setSettings((current) => ({ ...current, ...changes }));
+  }, []);
+
+  const replaceSettings = useCallback((stored: unknown) => setSettings(withDefaults(stored)), []);
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, replaceSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = (): SettingsContextValue => {
+  const value = useContext(SettingsContext);
+  if (!value) throw new Error('useSettings must be used inside SettingsProvider');
+  return value;
+};
+
+/**
+ * Saves settings to the signed-in account and loads them on sign-in. An
+ * account without saved settings takes over this browser's. Pass null for
+ * no account.
+ */
+export const useAccountSettings = (userId: string | null) => {
+  const { settings, replaceSettings } = useSettings();
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // What the account holds, once we know; null while loading
+  const savedRef = useRef<string | null>(null);
+
+  const save = useCallback(async (id: string) => {
+    const json = JSON.stringify(settingsRef.current);
+    if (savedRef.current === null || savedRef.current === json) return;
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: id, settings: settingsRef.current, updated_at: new Date().toISOString() });
+    if (error) console.error('Settings save failed', error);
+    else savedRef.current = json;
+  }, []);
+
+  useEffect(() => {
+    savedRef.current = null;
+    if (!userId) return;
+    let cancelled = false;
+
+    supabase
+      .from('user_settings')
+      .select('settings')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Settings load failed', error);
+          return;
+        }
+        if (data) {
+          savedRef.current = JSON.stringify(withDefaults(data.settings));
+          replaceSettings(data.settings);
+        } else {
+          // Nothing saved yet: the account keeps this browser's settings
+          savedRef.current = '';
+          save(userId);
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [userId, replaceSettings, save]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const timer = setTimeout(() => save(userId), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [userId, settings, save]);
+};
@@ -0,0 +1,43 @@
+export type SoundName = 'move' | 'capture' | 'check' | 'castle' | 'end';
+
+// Each sound is a few short tones: [frequency Hz, start s, length s]
+const TONES: Record<SoundName, [number, number, number][]> = {
+  move: [[520, 0, 0.06]],
+  capture: [[330, 0, 0.05], [220, 0.04, 0.08]],
+  check: [[880, 0, 0.08], [660, 0.09, 0.1]],
+  castle: [[520, 0, 0.05], [520, 0.08, 0.05]],
+  end: [[523, 0, 0.15], [659, 0.15, 0.15], [784, 0.3, 0.3]],
+};
+
+let context: AudioContext | null = null;
+
+// Synthesized on the fly, so there are no audio files to ship
+export const playSound = (name: SoundName) => {
+  try {
+    context ??= new AudioContext();
+    // Browsers start audio suspended until the page has been interacted with
+    if (context.state === 'suspended') context.resume();
+    const start = context.currentTime;
+    TONES[name].forEach(([frequency, offset, length]) => {
+      const oscillator = context!.createOscillator();
+      const gain = context!.createGain();
+      oscillator.type = 'triangle';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + offset + length);
+      oscillator.connect(gain).connect(context!.destination);
+      oscillator.start(start + offset);
+      oscillator.stop(start + offset + length);
+    });
+  } catch (err: any) {
+    console.error('Sound failed', err);
+  }
+};
+
+// Which sound a move makes, read off its SAN
+export const soundForSan = (san: string): SoundName => {
+  if (san.endsWith('#') || san.endsWith('+')) return 'check';
+  if (san.startsWith('O-O')) return 'castle';
+  if (san.includes('x')) return 'capture';
+  return 'move';
+};
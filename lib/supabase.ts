@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '../constants';
 
+// Requests carry the signed-in user's session; row level security keys off auth.uid()
 export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
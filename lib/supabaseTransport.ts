@@ -0,0 +1,112 @@
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { GameTransport, TransportError } from './transport';
+import { GameState, MoveRecord, Player } from '../types';
+
+// PostgREST leaves the code empty when the request never reached the database
+const toTransportError = (error: PostgrestError) => new TransportError(error.message, !error.code);
+
+export const supabaseTransport: GameTransport = {
+  kind: 'supabase',
+
+  createGame: async (playerId, { seat, initialFen, variant, timeControl, isPublic, inviteOnly, rated }) => {
+    // Random 4-digit code (1000-9999) as the game's id
+    const gameId = Math.floor(1000 + Math.random() * 9000).toString();
+    const { data, error } = await supabase
+      .from('games')
+      .insert({
+        id: gameId,
+        player_white: seat === 'white' ? playerId : null,
+        player_black: seat === 'black' ? playerId : null,
+        status: 'waiting',
+        fen: initialFen,
+        initial_fen: initialFen,
+        variant,
+        turn: initialFen.split(' ')[1] === 'b' ? 'black' : 'white',
+        base_seconds: timeControl?.baseSeconds ?? null,
+        increment_seconds: timeControl?.incrementSeconds ?? 0,
+        white_time_ms: timeControl ? timeControl.baseSeconds * 1000 : null,
+        black_time_ms: timeControl ? timeControl.baseSeconds * 1000 : null,
+        is_public: isPublic && !inviteOnly,
+        invite_only: inviteOnly,
+        rated,
+      })
+      .select('id')
+      .single();
+    if (error) {
+      // Duplicate key: the random code is taken
+      if (error.code === '23505') throw new TransportError('Game ID collision. Please try again.', false);
+      throw toTransportError(error);
+    }
+    return data.id;
+  },
+
+  joinGame: async (gameId) => {
+    const { data, error } = await supabase.from('games').select('*').eq('id', gameId).single();
+    if (error) throw toTransportError(error);
+    const { data: moves, error: movesError } = await supabase
+      .from('moves')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('ply', { ascending: true });
+    if (movesError) throw toTransportError(movesError);
+    return { game: data as GameState, moves: (moves || []) as MoveRecord[] };
+  },
+
+  claimSeat: async (gameId, invite) => {
+    const { data, error } = await supabase.rpc('claim_seat', { p_game_id: gameId, p_invite: invite });
+    if (error) throw toTransportError(error);
+    return data as Player['color'];
+  },
+
+  // The server re-validates the move against the stored position and
+  // updates the game in the same transaction.
+  submitMove: async (gameId, move) => {
+    const { data, error } = await supabase.rpc('submit_move', {
+      p_game_id: gameId,
+      p_from: move.from,
+      p_to: move.to,
+      p_promotion: move.promotion ?? null,
+      p_ply: move.ply,
+    });
+    if (error) throw toTransportError(error);
+    return data as GameState;
+  },
+
+  runAction: async (gameId, action, accept) => {
+    const args = accept === undefined ? {} : { p_accept: accept };
+    const { data, error } = await supabase.rpc(action, { p_game_id: gameId, ...args });
+    if (error) throw toTransportError(error);
+    return data as GameState;
+  },
+
+  serverTime: async () => {
+    const { data, error } = await supabase.rpc('server_time');
+    if (error) throw toTransportError(error);
+    return new Date(data).getTime();
+  },
+
+  subscribe: (gameId, { onGame, onMove, onStatus }) => {
+    let closed = false;
+    const channel = supabase
+      .channel(`game_state_${gameId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'games', filter: `id=eq.${gameId}` },
+        (payload) => onGame(payload.new as GameState)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'moves', filter: `game_id=eq.${gameId}` },
+        (payload) => onMove(payload.new as MoveRecord)
+      )
+      .subscribe((status) => {
+        if (!closed) onStatus(status === 'SUBSCRIBED');
+      });
+
+    return () => {
+      closed = true;
+      supabase.removeChannel(channel);
+    };
+  },
+};
@@ -0,0 +1,77 @@
+import { GameState, TimeControl, TimeControlCategory } from '../types';
+
+export const TIME_CONTROL_PRESETS: { category: TimeControlCategory; controls: TimeControl[] }[] = [
+  {
+    category: 'bullet',
+    controls: [
+      { baseSeconds: 60, incrementSeconds: 0 },
+      { baseSeconds: 120, incrementSeconds: 1 },
+    ],
+  },
+  {
+    category: 'blitz',
+    controls: [
+      { baseSeconds: 180, incrementSeconds: 0 },
+      { baseSeconds: 180, incrementSeconds: 2 },
+      { baseSeconds: 300, incrementSeconds: 0 },
+    ],
+  },
+  {
+    category: 'rapid',
+    controls: [
+      { baseSeconds: 600, incrementSeconds: 0 },
+      { baseSeconds: 600, incrementSeconds: 5 },
+      { baseSeconds: 900, incrementSeconds: 10 },
+    ],
+  },
+];
+
+// Same split as most servers: estimated duration of base + 40 increments
+export const getTimeControlCategory = (tc: TimeControl): TimeControlCategory => {
+  const estimated = tc.baseSeconds + 40 * tc.incrementSeconds;
+  if (estimated < 180) return 'bullet';
+  if (estimated < 480) return 'blitz';
+  if (estimated < 1500) return 'rapid';
+  return 'classical';
+};
+
+// e.g. "3+2", or "½+0" for 30 seconds
+export const formatTimeControl = (tc: TimeControl | null): string => {
+  if (!tc) return 'Untimed';
+  const minutes = tc.baseSeconds / 60;
+  const base = minutes === 0.5 ? '½' : minutes === 0.25 ? '¼' : `${Number(minutes.toFixed(2))}`;
+  return `${base}+${tc.incrementSeconds}`;
+};
+
+export const getTimeControl = (gameState: GameState): TimeControl | null =>
+  gameState.base_seconds === null
+    ? null
+    : { baseSeconds: gameState.base_seconds, incrementSeconds: gameState.increment_seconds };
+
+// Clock display: m:ss, with tenths in the last ten seconds
+export const formatClock = (ms: number): string => {
+  const clamped = Math.max(0, ms);
+  const totalSeconds = Math.floor(clamped / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (clamped < 10000) {
+    return `${minutes}:${seconds.toString().padStart(2, '0')}.${Math.floor((clamped % 1000) / 100)}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Time left for a side at `serverNow` (a server timestamp in ms, i.e. the
+ * local clock corrected by the measured offset). Mirrors clock_remaining_ms()
+ * in schema.sql.
+ */
+export const getRemainingMs = (gameState: GameState, color: 'w' | 'b', serverNow: number): number | null => {
+  const stored = color === 'w' ? gameState.white_time_ms : gameState.black_time_ms;
+  if (gameState.base_seconds === null || stored === null) return null;
+
+  const sideToMove = gameState.fen.split(' ')[1];
+  if (gameState.last_move_at && gameState.status !== 'finished' && sideToMove === color) {
+    return stored - (serverNow - new Date(gameState.last_move_at).getTime());
+  }
+  return stored;
+};
@@ -0,0 +1,70 @@
+import { GameState, MoveRecord, Player, PromotionPiece, TimeControl, Variant } from '../types';
+
+export interface CreateGameOptions {
+  seat: 'white' | 'black';
+  initialFen: string;
+  variant: Variant;
+  timeControl: TimeControl | null;
+  isPublic: boolean;
+  inviteOnly: boolean;
+  rated: boolean;
+}
+
+export interface GameSnapshot {
+  game: GameState;
+  moves: MoveRecord[];
+}
+
+export interface SubmittedMove {
+  ply: number;
+  from: string;
+  to: string;
+  promotion?: PromotionPiece;
+}
+
+// In-game requests a seated player can make; the server decides the outcome
+export type GameAction =
+  | 'resign'
+  | 'offer_draw'
+  | 'respond_draw'
+  | 'request_takeback'
+  | 'respond_takeback'
+  | 'claim_timeout';
+
+export interface GameEvents {
+  onGame: (game: GameState) => void;
+  onMove: (move: MoveRecord) => void;
+  // False while the live connection is down; events may be missed meanwhile
+  onStatus: (connected: boolean) => void;
+}
+
+/**
+ * Everything the multiplayer pages need from a backend to play a game.
+ * Extras that only the Supabase backend has (chat, presence, lobby,
+ * matchmaking, accounts) are used directly when `kind` is 'supabase'.
+ */
+export interface GameTransport {
+  kind: 'supabase' | 'ws';
+  createGame: (playerId: string, options: CreateGameOptions) => Promise<string>;
+  joinGame: (gameId: string) => Promise<GameSnapshot>;
+  // Takes an open seat if we may have it and returns our role in the game
+  claimSeat: (gameId: string, invite: string | null) => Promise<Player['color']>;
+  submitMove: (gameId: string, move: SubmittedMove) => Promise<GameState>;
+  runAction: (gameId: string, action: GameAction, accept?: boolean) => Promise<GameState>;
+  // Current server time in ms, for clocks
+  serverTime: () => Promise<number>;
+  // Returns a function that ends the subscription
+  subscribe: (gameId: string, events: GameEvents) => () => void;
+}
+
+// `retryable` is set when the request never reached the server, so
+// sending it again is safe.
+export class TransportError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'TransportError';
+    this.retryable = retryable;
+  }
+}
@@ -1,11 +1,16 @@
-import { USER_ID_KEY } from '../constants';
-import { v4 as uuidv4 } from 'uuid';
+import { GUEST_ID_KEY, USER_ID_KEY } from '../constants';
 
-export const getUserId = (): string => {
-  let userId = localStorage.getItem(USER_ID_KEY);
-  if (!userId) {
-    userId = uuidv4();
-    localStorage.setItem(USER_ID_KEY, userId);
+// Id this browser generated for itself before accounts existed, if any
+export const getLegacyUserId = (): string | null => localStorage.getItem(USER_ID_KEY);
+
+export const clearLegacyUserId = () => localStorage.removeItem(USER_ID_KEY);
+
+// This browser's id on the self-hosted server, created on first use
+export const getGuestId = (): string => {
+  let id = localStorage.getItem(GUEST_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(GUEST_ID_KEY, id);
   }
-  return userId;
+  return id;
 };
@@ -0,0 +1,160 @@
+import { Chess } from 'chess.js';
+import { describe, expect, it } from 'vitest';
+import {
+  STANDARD_CHESS960_POSITION,
+  VariantChess,
+  chess960BackRank,
+  chess960Fen,
+  countChecks,
+  createChess,
+  startingFen,
+  toShredderFen,
+} from './variants';
+import { STARTING_FEN } from '../constants';
+
+const playAll = (game: Chess, moves: string[]) => moves.forEach((m) => game.move(m));
+
+describe('chess960BackRank', () => {
+  it('numbers the regular setup 518', () => {
+    expect(chess960BackRank(STANDARD_CHESS960_POSITION)).toBe('RNBQKBNR');
+    expect(chess960BackRank(0)).toBe('BBQNNRKR');
+  });
+
+  it('gives 960 different legal setups', () => {
+    const ranks = Array.from({ length: 960 }, (_, n) => chess960BackRank(n));
+    expect(new Set(ranks).size).toBe(960);
+    ranks.forEach((rank) => {
+      expect([...rank].sort().join('')).toBe('BBKNNQRR');
+      // Bishops on opposite colours, king between the rooks
+      expect(rank.indexOf('B') % 2).not.toBe(rank.lastIndexOf('B') % 2);
+      expect(rank.indexOf('R')).toBeLessThan(rank.indexOf('K'));
+      expect(rank.lastIndexOf('R')).toBeGreaterThan(rank.indexOf('K'));
+    });
+  });
+});
+
+describe('chess960Fen', () => {
+  it('writes castling rights as rook files', () => {
+    expect(chess960Fen(518)).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1');
+  });
+});
+
+describe('toShredderFen', () => {
+  it('rewrites KQkq as the files of the outermost rooks', () => {
+    expect(toShredderFen(STARTING_FEN)).toBe('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAha - 0 1');
+    expect(toShredderFen('bqnbrkrn/pppppppp/8/8/8/8/PPPPPPPP/BQNBRKRN w KQkq - 0 1')).toBe(
+      'bqnbrkrn/pppppppp/8/8/8/8/PPPPPPPP/BQNBRKRN w GEge - 0 1'
+    );
+  });
+
+  it('drops rights with no rook on that side and leaves Shredder-FEN alone', () => {
+    expect(toShredderFen('rnbqkbn1/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toBe(
+      'rnbqkbn1/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w HAa - 0 1'
+    );
+    expect(toShredderFen(chess960Fen(0))).toBe(chess960Fen(0));
+  });
+});
+
+describe('startingFen', () => {
+  it('picks the variant setup', () => {
+    expect(startingFen('standard')).toBe(STARTING_FEN);
+    expect(startingFen('king_of_the_hill')).toBe(STARTING_FEN);
+    expect(startingFen('chess960', 518)).toBe(chess960Fen(518));
+    expect(startingFen('horde').split(' ')[0]).toMatch(/^rnbqkbnr\/pppppppp\/8\/1PP2PP1\/(PPPPPPPP\/){3}PPPPPPPP$/);
+  });
+});
+
+describe('countChecks', () => {
+  it('counts checks and mates by colour', () => {
+    expect(countChecks([
+      { color: 'w', san: 'Bb5+' },
+      { color: 'b', san: 'c6' },
+      { color: 'w', san: 'Qxf7#' },
+      { color: 'b', san: 'Nf6' },
+    ])).toEqual({ w: 2, b: 0 });
+  });
+});
+
+describe('createChess', () => {
+  it('uses chess.js for standard games and VariantChess otherwise', () => {
+    expect(createChess(STARTING_FEN)).not.toBeInstanceOf(VariantChess);
+    expect(createChess(STARTING_FEN, 'three_check')).toBeInstanceOf(VariantChess);
+  });
+});
+
+describe('VariantChess', () => {
+  it('wins King of the Hill by reaching the centre', () => {
+    const game = new VariantChess('4k3/8/8/8/8/3K4/8/8 w - - 0 1', 'king_of_the_hill');
+    game.move('Kd4');
+    expect(game.variantOutcome()).toEqual({ result: '1-0', termination: 'king_in_center' });
+    expect(game.isGameOver()).toBe(true);
+    expect(game.moves()).toEqual([]);
+    expect(game.isInsufficientMaterial()).toBe(false);
+  });
+
+  it('wins Three-check on the third check', () => {
+    const game = new VariantChess('k7/8/8/8/8/8/1R6/4K3 w - - 0 1', 'three_check');
+    playAll(game, ['Ra2+', 'Kb8', 'Rb2+', 'Kc7']);
+    expect(game.variantOutcome()).toBeNull();
+    game.move('Rc2+');
+    expect(game.variantOutcome()).toEqual({ result: '1-0', termination: 'third_check' });
+  });
+
+  it('lets Horde pawns double-step from the first rank', () => {
+    const game = new VariantChess('4k3/8/8/8/8/8/8/P7 w - - 0 1', 'horde');
+    expect(game.moves({ square: 'a1' }).sort()).toEqual(['a2', 'a3']);
+    const move = game.move({ from: 'a1', to: 'a3' });
+    expect(move.flags).toBe('b');
+    expect(game.get('a3')).toEqual({ type: 'p', color: 'w' });
+  });
+
+  it('wins Horde for Black once every white piece is captured', () => {
+    const game = new VariantChess('4k3/8/8/8/8/8/8/r6P b - - 0 1', 'horde');
+    game.move('Rxh1');
+    expect(game.variantOutcome()).toEqual({ result: '0-1', termination: 'horde_captured' });
+  });
+
+  it('castles in Chess960 by moving the king onto its rook', () => {
+    const game = new VariantChess('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQK2R w HAha - 0 1', 'chess960');
+    const move = game.move({ from: 'e1', to: 'h1' });
+    expect(move.san).toBe('O-O');
+    expect(game.get('g1')).toEqual({ type: 'k', color: 'w' });
+    expect(game.get('f1')).toEqual({ type: 'r', color: 'w' });
+    expect(game.fen().split(' ')[2]).toBe('ha');
+  });
+
+  it('castles in Chess960 with the regular two-square king move too', () => {
+    const game = new VariantChess('1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1', 'chess960');
+    game.move({ from: 'e1', to: 'c1' });
+    expect(game.get('c1')).toEqual({ type: 'k', color: 'w' });
+    expect(game.get('d1')).toEqual({ type: 'r', color: 'w' });
+    expect(game.fen().split(' ')[2]).toBe('gb');
+  });
+
+  it('gives up a Chess960 castling right when its rook moves', () => {
+    const game = new VariantChess('1r2k1r1/8/8/8/8/8/8/1R2K1R1 w GBgb - 0 1', 'chess960');
+    game.move('Rg2');
+    expect(game.fen().split(' ')[2]).toBe('Bgb');
+  });
+
+  it('takes moves back', () => {
+    const game = new VariantChess(STARTING_FEN, 'king_of_the_hill');
+    playAll(game, ['e4', 'e5']);
+    expect(game.undo()?.san).toBe('e5');
+    expect(game.history()).toEqual(['e4']);
+    expect(game.history({ verbose: true })[0].from).toBe('e2');
+  });
+
+  it('sees threefold repetition over its own history', () => {
+    const game = new VariantChess(STARTING_FEN, 'three_check');
+    playAll(game, ['Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1']);
+    expect(game.isThreefoldRepetition()).toBe(false);
+    game.move('Ng8');
+    expect(game.isThreefoldRepetition()).toBe(true);
+  });
+
+  it('refuses illegal moves', () => {
+    const game = new VariantChess(STARTING_FEN, 'king_of_the_hill');
+    expect(() => game.move('e5')).toThrow('Invalid move');
+  });
+});
@@ -0,0 +1,353 @@
+import { Chess, Move, PieceSymbol, Square } from 'chess.js';
+import { STARTING_FEN } from '../constants';
+import { GameState, MoveRecord, Variant } from '../types';
+
+export const VARIANTS: Record<Variant, { label: string; description: string }> = {
+  standard: { label: 'Standard', description: 'Regular chess.' },
+  chess960: {
+    label: 'Chess960',
+    description: 'The back rank is shuffled. Castle by moving the king onto its rook; they end up where they would in regular chess.',
+  },
+  king_of_the_hill: { label: 'King of the Hill', description: 'Bringing your king to d4, e4, d5 or e5 also wins.' },
+  three_check: { label: 'Three-check', description: 'Giving check for the third time also wins.' },
+  horde: {
+    label: 'Horde',
+    description: 'White has 36 pawns and no king. Black wins by capturing them all, White by checkmate.',
+  },
+};
+
+const FILES = 'abcdefgh';
+
+// Chess960 start positions are numbered 0-959; 518 is the regular setup
+export const STANDARD_CHESS960_POSITION = 518;
+
+const KNIGHT_PLACEMENTS = ['NN---', 'N-N--', 'N--N-', 'N---N', '-NN--', '-N-N-', '-N--N', '--NN-', '--N-N', '---NN'];
+
+// White's back rank for a Chess960 position number, e.g. 518 -> "RNBQKBNR"
+export const chess960BackRank = (position: number): string => {
+  const rank: string[] = Array(8).fill('');
+  const free = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+  let n = position;
+  rank[(n % 4) * 2 + 1] = 'B';
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'B';
+  n = Math.floor(n / 4);
+  rank[free()[n % 6]] = 'Q';
+  n = Math.floor(n / 6);
+  const knightFiles = free();
+  [...KNIGHT_PLACEMENTS[n]].forEach((slot, i) => {
+    if (slot === 'N') rank[knightFiles[i]] = 'N';
+  });
+  // The king always stands between the rooks
+  free().forEach((file, i) => {
+    rank[file] = i === 1 ? 'K' : 'R';
+  });
+  return rank.join('');
+};
+
+/**
+ * Castling rights in Chess960 are written as the files of the rooks that
+ * may still castle (Shredder-FEN), e.g. "HAha" for the regular setup.
+ */
+export const chess960Fen = (position: number): string => {
+  const rank = chess960BackRank(position);
+  const rooks = FILES[rank.lastIndexOf('R')] + FILES[rank.indexOf('R')];
+  return `${rank.toLowerCase()}/pppppppp/8/8/8/8/PPPPPPPP/${rank} w ${rooks.toUpperCase()}${rooks} - 0 1`;
+};
+
+export const randomChess960Position = () => Math.floor(Math.random() * 960);
+
+/**
+ * Rewrites "KQkq" castling rights, which most sites use for Chess960 too
+ * (X-FEN), as the rook files VariantChess reads, e.g. "HAha". K and Q stand
+ * for the outermost rook on that side of the king; rights with no such rook
+ * are dropped.
+ */
+export const toShredderFen = (fen: string): string => {
+  const fields = fen.trim().split(/\s+/);
+  const [placement, , castling = '-'] = fields;
+  if (!/[KQkq]/.test(castling)) return fen;
+  const ranks = placement.split('/');
+
+  fields[2] = [...castling].flatMap((letter) => {
+    if (!/[KQkq]/.test(letter)) return [letter];
+    const white = letter === letter.toUpperCase();
+    const row = (ranks[white ? 7 : 0] ?? '').replace(/\d/g, (n) => '1'.repeat(Number(n)));
+    const king = row.indexOf(white ? 'K' : 'k');
+    const rook = white ? 'R' : 'r';
+    const file = letter.toUpperCase() === 'K' ? row.lastIndexOf(rook) : row.indexOf(rook);
+    if (king === -1 || file === -1 || (letter.toUpperCase() === 'K') !== file > king) return [];
+    return [white ? FILES[file].toUpperCase() : FILES[file]];
+  }).join('') || '-';
+  return fields.join(' ');
+};
+
+const HORDE_FEN = 'rnbqkbnr/pppppppp/8/1PP2PP1/PPPPPPPP/PPPPPPPP/PPPPPPPP/PPPPPPPP w kq - 0 1';
+
+export const startingFen = (variant: Variant, chess960Position = randomChess960Position()): string => {
+  if (variant === 'chess960') return chess960Fen(chess960Position);
+  if (variant === 'horde') return HORDE_FEN;
+  return STARTING_FEN;
+};
+
+// Checks each side has given so far, read off the SAN of the moves
+export const countChecks = (moves: Pick<MoveRecord, 'color' | 'san'>[]): Record<'w' | 'b', number> => {
+  const checks = { w: 0, b: 0 };
+  moves.forEach((m) => {
+    if (/[+#]$/.test(m.san)) checks[m.color] += 1;
+  });
+  return checks;
+};
+
+const CENTER = ['d4', 'e4', 'd5', 'e5'];
+
+// Placement, side to move, castling and en passant, as in chess_position_key
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+const withCastling = (fen: string, castling: string) => {
+  const fields = fen.split(' ');
+  fields[2] = castling || '-';
+  return fields.join(' ');
+};
+
+// "+" or "#" when the move leading to `fen` gives check
+const checkSuffix = (fen: string) => {
+  const after = new Chess(fen, { skipValidation: true });
+  if (!after.inCheck()) return '';
+  return after.isCheckmate() ? '#' : '+';
+};
+
+type MoveFields = Pick<Move, 'color' | 'from' | 'to' | 'piece' | 'flags' | 'san' | 'lan' | 'before' | 'after'>;
+
+// A move chess.js cannot generate, shaped like the ones it does
+const syntheticMove = (fields: MoveFields): Move => Object.assign(Object.create(Move.prototype), fields);
+
+/**
+ * chess.js for the variants. Legal moves are the ones chess.js finds plus
+ * Chess960 castling and Horde's double steps from the first rank. Every
+ * move loads the position it leads to, so the history (and with it
+ * repetitions and Three-check's checks) is kept here instead of in chess.js.
+ * Mirrors chess_try_move in schema.sql.
+ */
+export class VariantChess extends Chess {
+  readonly variant: Exclude<Variant, 'standard'>;
+  // Chess960 castling rights, which chess.js cannot hold itself
+  private castling: string;
+  private startFen: string;
+  private played: Move[] = [];
+
+  constructor(fen: string, variant: Exclude<Variant, 'standard'>) {
+    // Horde has no white king and Chess960 castles with any rook, which
+    // chess.js would reject
+    super(fen, { skipValidation: true });
+    this.variant = variant;
+    this.castling = fen.split(' ')[2] ?? '-';
+    this.startFen = this.fen();
+  }
+
+  override fen(options?: { forceEnpassantSquare?: boolean }): string {
+    const fen = super.fen(options);
+    return this.variant === 'chess960' ? withCastling(fen, this.castling) : fen;
+  }
+
+  // A win by the variant's own rule, decided by the move just played
+  variantOutcome(): Pick<GameState, 'result' | 'termination'> | null {
+    const mover = this.turn() === 'w' ? 'b' : 'w';
+    const result = mover === 'w' ? '1-0' : '0-1';
+    if (this.variant === 'king_of_the_hill' && this.findPiece({ type: 'k', color: mover }).some((sq) => CENTER.includes(sq))) {
+      return { result, termination: 'king_in_center' };
+    }
+    if (this.variant === 'three_check' && countChecks(this.played)[mover] >= 3) {
+      return { result, termination: 'third_check' };
+    }
+    if (this.variant === 'horde' && !this.board().flat().some((sq) => sq?.color === 'w')) {
+      return { result: '0-1', termination: 'horde_captured' };
+    }
+    return null;
+  }
+
+  private legalMoves(): Move[] {
+    if (this.variantOutcome()) return [];
+    const moves = super.moves({ verbose: true });
+    if (this.variant === 'chess960') {
+      moves.forEach((m) => {
+        m.after = withCastling(m.after, this.castlingAfter(m.from, m.to, m.piece));
+      });
+      return [...moves, ...this.castlingMoves()];
+    }
+    if (this.variant === 'horde') return [...moves, ...this.hordeDoubleSteps()];
+    return moves;
+  }
+
+  // Rights left after a move: a king move gives up both, and a rook
+  // leaving or captured on its square gives up its own
+  private castlingAfter(from: string, to: string, piece: string): string {
+    const us = this.turn();
+    return [...this.castling.replace('-', '')]
+      .filter((letter) => {
+        const color = letter === letter.toUpperCase() ? 'w' : 'b';
+        const square = `${letter.toLowerCase()}${color === 'w' ? 1 : 8}`;
+        return !(piece === 'k' && color === us) && square !== from && square !== to;
+      })
+      .join('') || '-';
+  }
+
+  // The king moves onto its own rook to castle; both end up on the squares
+  // they would in regular chess
+  private castlingMoves(): Move[] {
+    const us = this.turn();
+    const them = us === 'w' ? 'b' : 'w';
+    const rank = us === 'w' ? '1' : '8';
+    const king = this.findPiece({ type: 'k', color: us })[0];
+    if (!king || king[1] !== rank) return [];
+    const [halfmoves, fullmove] = this.fen().split(' ').slice(4).map(Number);
+
+    return [...this.castling].flatMap((letter) => {
+      if (!/[a-h]/i.test(letter) || (letter === letter.toUpperCase()) !== (us === 'w')) return [];
+      const rook = `${letter.toLowerCase()}${rank}` as Square;
+      const piece = this.get(rook);
+      if (piece?.type !== 'r' || piece.color !== us) return [];
+
+      const kingside = rook > king;
+      const kingTo = `${kingside ? 'g' : 'c'}${rank}` as Square;
+      const rookTo = `${kingside ? 'f' : 'd'}${rank}` as Square;
+      const files = [king, rook, kingTo, rookTo].map((sq) => FILES.indexOf(sq[0]));
+      // Everything either piece crosses or lands on must be empty, bar the two of them
+      for (let f = Math.min(...files); f <= Math.max(...files); f++) {
+        const square = `${FILES[f]}${rank}` as Square;
+        if (square !== king && square !== rook && this.get(square)) return [];
+      }
+
+      const scratch = new Chess(withCastling(this.fen(), '-'), { skipValidation: true });
+      scratch.remove(king);
+      scratch.remove(rook);
+      // The king may not castle out of, through or into check
+      const [kingFile, kingToFile] = [files[0], files[2]];
+      for (let f = Math.min(kingFile, kingToFile); f <= Math.max(kingFile, kingToFile); f++) {
+        if (scratch.isAttacked(`${FILES[f]}${rank}` as Square, them)) return [];
+      }
+      scratch.put({ type: 'k', color: us }, kingTo);
+      scratch.put({ type: 'r', color: us }, rookTo);
+
+      const placement = scratch.fen().split(' ')[0];
+      const after = [placement, them, this.castlingAfter(king, rook, 'k'), '-', halfmoves + 1, fullmove + (us === 'b' ? 1 : 0)].join(' ');
+      return [syntheticMove({
+        color: us,
+        from: king,
+        to: rook,
+        piece: 'k',
+        flags: kingside ? 'k' : 'q',
+        san: (kingside ? 'O-O' : 'O-O-O') + checkSuffix(after),
+        lan: king + rook,
+        before: this.fen(),
+        after,
+      })];
+    });
+  }
+
+  // Horde pawns on the first rank may advance two squares, like those on the second
+  private hordeDoubleSteps(): Move[] {
+    if (this.turn() !== 'w') return [];
+    const [castling, , , fullmove] = this.fen().split(' ').slice(2);
+    return [...FILES].flatMap((file) => {
+      const [from, over, to] = [1, 2, 3].map((r) => `${file}${r}` as Square);
+      const piece = this.get(from);
+      if (piece?.type !== 'p' || piece.color !== 'w' || this.get(over) || this.get(to)) return [];
+
+      const scratch = new Chess(this.fen(), { skipValidation: true });
+      scratch.remove(from);
+      scratch.put({ type: 'p', color: 'w' }, to);
+      // Loading it back keeps the en passant square only if a capture is possible
+      const raw = [scratch.fen().split(' ')[0], 'b', castling, over, 0, fullmove].join(' ');
+      const after = new Chess(raw, { skipValidation: true }).fen();
+      return [syntheticMove({
+        color: 'w',
+        from,
+        to,
+        piece: 'p',
+        flags: 'b',
+        san: to + checkSuffix(after),
+        lan: from + to,
+        before: this.fen(),
+        after,
+      })];
+    });
+  }
+
+  // Overloads as in chess.js: SAN strings unless asked for verbose moves
+  override moves(): string[];
+  override moves(options: { verbose: true; square?: Square; piece?: PieceSymbol }): Move[];
+  override moves(options: { verbose?: false; square?: Square; piece?: PieceSymbol }): string[];
+  override moves(options: { verbose?: boolean; square?: Square; piece?: PieceSymbol }): string[] | Move[];
+  override moves(options: { verbose?: boolean; square?: Square; piece?: PieceSymbol } = {}): string[] | Move[] {
+    const moves = this.legalMoves().filter(
+      (m) => (!options.square || m.from === options.square) && (!options.piece || m.piece === options.piece)
+    );
+    return options.verbose ? moves : moves.map((m) => m.san);
+  }
+
+  override move(move: string | { from: string; to: string; promotion?: string } | null): Move {
+    const legal = this.legalMoves();
+    let found: Move | undefined;
+    if (typeof move === 'string') {
+      const bare = move.replace(/[+#]$/, '');
+      found = legal.find((m) => m.san.replace(/[+#]$/, '') === bare || m.lan === move);
+    } else if (move) {
+      found = legal.find((m) => m.from === move.from && m.to === move.to && (!m.promotion || m.promotion === move.promotion))
+        // The regular two-square king move castles in Chess960 too
+        ?? legal.find((m) => m.from === move.from && (m.flags === 'k' || m.flags === 'q')
+          && `${m.flags === 'k' ? 'g' : 'c'}${m.from[1]}` === move.to);
+    }
+    if (!found) throw new Error(`Invalid move: ${JSON.stringify(move)}`);
+
+    this.load(found.after, { skipValidation: true, preserveHeaders: true });
+    this.castling = found.after.split(' ')[2];
+    this.played.push(found);
+    return found;
+  }
+
+  override undo(): Move | null {
+    const last = this.played.pop();
+    if (!last) return null;
+    this.load(last.before, { skipValidation: true, preserveHeaders: true });
+    this.castling = last.before.split(' ')[2];
+    return last;
+  }
+
+  override history(): string[];
+  override history(options: { verbose: true }): Move[];
+  override history(options: { verbose: false }): string[];
+  override history(options: { verbose: boolean }): string[] | Move[];
+  override history(options: { verbose?: boolean } = {}): string[] | Move[] {
+    return options.verbose ? [...this.played] : this.played.map((m) => m.san);
+  }
+
+  override isCheckmate(): boolean {
+    return !this.variantOutcome() && this.inCheck() && this.legalMoves().length === 0;
+  }
+
+  override isStalemate(): boolean {
+    return !this.variantOutcome() && !this.inCheck() && this.legalMoves().length === 0;
+  }
+
+  // A bare king can still walk to the centre, and in Horde Black can always
+  // still take the pawns; in Three-check any piece can still give check
+  override isInsufficientMaterial(): boolean {
+    if (this.variant === 'king_of_the_hill' || this.variant === 'horde') return false;
+    if (this.variant === 'three_check') return this.board().flat().every((sq) => !sq || sq.type === 'k');
+    return super.isInsufficientMaterial();
+  }
+
+  override isThreefoldRepetition(): boolean {
+    const key = positionKey(this.fen());
+    return [this.startFen, ...this.played.map((m) => m.after)].filter((fen) => positionKey(fen) === key).length >= 3;
+  }
+
+  override isGameOver(): boolean {
+    return !!this.variantOutcome() || super.isGameOver();
+  }
+}
+
+// chess.js for regular games, VariantChess for everything else
+export const createChess = (fen: string, variant: Variant = 'standard'): Chess =>
+  variant === 'standard' ? new Chess(fen) : new VariantChess(fen, variant);
@@ -0,0 +1,27 @@
+import { GameState, MoveRecord } from '../types';
+import { CreateGameOptions, GameAction, SubmittedMove } from './transport';
+
+// Messages between the browser and the self-hosted server (server/), as
+// JSON text frames. Requests carry an id that the reply echoes back.
+
+export type ClientMessage =
+  | { type: 'hello'; id: number; playerId: string }
+  | { type: 'create'; id: number; options: CreateGameOptions }
+  | { type: 'join'; id: number; gameId: string }
+  | { type: 'claim'; id: number; gameId: string; invite: string | null }
+  | { type: 'move'; id: number; gameId: string; move: SubmittedMove }
+  | { type: 'action'; id: number; gameId: string; action: GameAction; accept?: boolean }
+  | { type: 'time'; id: number }
+  | { type: 'subscribe'; id: number; gameId: string }
+  | { type: 'unsubscribe'; id: number; gameId: string };
+
+export type ServerMessage =
+  | { type: 'reply'; id: number; ok: true; data: unknown }
+  | { type: 'reply'; id: number; ok: false; error: string }
+  // Pushed to everyone subscribed to the game
+  | { type: 'game'; game: GameState }
+  | { type: 'move'; move: MoveRecord };
+
+// A request before the client numbers it; Omit is applied per member so
+// each request keeps its own fields
+export type ClientRequest = ClientMessage extends infer M ? (M extends unknown ? Omit<M, 'id'> : never) : never;
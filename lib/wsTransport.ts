@@ -0,0 +1,128 @@
+import { GameEvents, GameSnapshot, GameTransport, TransportError } from './transport';
+import { ClientRequest, ServerMessage } from './wsProtocol';
+import { getGuestId } from './utils';
+import { GameState, Player } from '../types';
+
+// How long a request waits for the socket to open
+const CONNECT_TIMEOUT_MS = 5000;
+const RECONNECT_MS = 2000;
+
+/**
+ * Talks to the self-hosted server over one shared WebSocket. The socket
+ * opens on first use and reconnects while any game is subscribed;
+ * subscriptions are renewed on every reconnect.
+ */
+export const createWsTransport = (url: string): GameTransport => {
+  let socket: WebSocket | null = null;
+  let ready: Promise<void> | null = null;
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (data: any) => void; reject: (err: Error) => void }>();
+  const subscriptions = new Map<string, Set<GameEvents>>();
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const notifyStatus = (connected: boolean) => {
+    subscriptions.forEach((handlers) => handlers.forEach((h) => h.onStatus(connected)));
+  };
+
+  const send = (ws: WebSocket, request: ClientRequest, id = nextId++) => {
+    ws.send(JSON.stringify({ ...request, id }));
+  };
+
+  const onMessage = (message: ServerMessage) => {
+    if (message.type === 'reply') {
+      const request = pending.get(message.id);
+      if (!request) return;
+      pending.delete(message.id);
+      if ('error' in message) request.reject(new TransportError(message.error, false));
+      else request.resolve(message.data);
+    } else if (message.type === 'game') {
+      subscriptions.get(message.game.id)?.forEach((h) => h.onGame(message.game));
+    } else if (message.type === 'move') {
+      subscriptions.get(message.move.game_id)?.forEach((h) => h.onMove(message.move));
+    }
+  };
+
+  const connect = (): Promise<void> => {
+    if (ready) return ready;
+    const ws = new WebSocket(url);
+    socket = ws;
+    ready = new Promise((resolve, reject) => {
+      ws.onopen = () => {
+        // The server handles frames in order, so these land before any request
+        send(ws, { type: 'hello', playerId: getGuestId() });
+        subscriptions.forEach((_, gameId) => send(ws, { type: 'subscribe', gameId }));
+        notifyStatus(true);
+        resolve();
+      };
+      ws.onmessage = (event) => onMessage(JSON.parse(event.data));
+      ws.onclose = () => {
+        socket = null;
+        ready = null;
+        reject(new TransportError('Could not reach the game server', true));
+        pending.forEach((request) => request.reject(new TransportError('Connection lost', true)));
+        pending.clear();
+        notifyStatus(false);
+        if (subscriptions.size > 0 && !reconnectTimer) {
+          reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect().catch(() => {});
+          }, RECONNECT_MS);
+        }
+      };
+    });
+    return ready;
+  };
+
+  const request = async <T>(message: ClientRequest): Promise<T> => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new TransportError('Could not reach the game server', true)), CONNECT_TIMEOUT_MS);
+    });
+    try {
+      await Promise.race([connect(), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+    const ws = socket;
+    if (!ws || ws.readyState !== WebSocket.OPEN) throw new TransportError('Connection lost', true);
+    const id = nextId++;
+    return new Promise<T>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      send(ws, message, id);
+    });
+  };
+
+  return {
+    kind: 'ws',
+
+    // The server seats the player who said hello on this socket
+    createGame: (_playerId, options) => request<string>({ type: 'create', options }),
+    joinGame: (gameId) => request<GameSnapshot>({ type: 'join', gameId }),
+    claimSeat: (gameId, invite) => request<Player['color']>({ type: 'claim', gameId, invite }),
+    submitMove: (gameId, move) => request<GameState>({ type: 'move', gameId, move }),
+    runAction: (gameId, action, accept) => request<GameState>({ type: 'action', gameId, action, accept }),
+    serverTime: () => request<number>({ type: 'time' }),
+
+    subscribe: (gameId, events) => {
+      const handlers = subscriptions.get(gameId) ?? new Set<GameEvents>();
+      const first = handlers.size === 0;
+      handlers.add(events);
+      subscriptions.set(gameId, handlers);
+
+      if (socket?.readyState === WebSocket.OPEN) {
+        if (first) send(socket, { type: 'subscribe', gameId });
+        events.onStatus(true);
+      } else {
+        events.onStatus(false);
+        connect().catch(() => {});
+      }
+
+      return () => {
+        handlers.delete(events);
+        if (handlers.size > 0) return;
+        subscriptions.delete(gameId);
+        if (socket?.readyState === WebSocket.OPEN) send(socket, { type: 'unsubscribe', gameId });
+      };
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Chess } from 'chess.js';
+import { Microscope, RefreshCw, Download, Copy, Flag } from 'lucide-react';
+import CustomChessBoard from '../components/CustomChessBoard';
+import SettingsButton from '../components/SettingsButton';
+import MoveList from '../components/MoveList';
+import AnnotationPanel from '../components/AnnotationPanel';
+import { BoardAnnotations, MoveRecord, PromotionPiece } from '../types';
+import { STARTING_FEN } from '../constants';
+import { buildPgn, toMoveRecords } from '../lib/pgn';
+import { moveLabel } from '../lib/chess';
+import { EMPTY_ANNOTATIONS, mergeAnnotations } from '../lib/annotations';
+
+// What Home hands over after a PGN import
+export interface AnalysisLocationState {
+  initialFen?: string;
+  sans?: string[];
+  headers?: Record<string, string>;
+  annotations?: Record<number, BoardAnnotations>;
+}
+
+/**
+ * Local-only board: both sides can be moved freely, nothing is stored on
+ * the server. Playing a move while stepping back replaces the rest of the line.
+ */
+const AnalysisBoard: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const imported = (location.state as AnalysisLocationState | null) ?? {};
+
+  const initialFen = useMemo(() => {
+    const fen = imported.initialFen ?? searchParams.get('fen') ?? STARTING_FEN;
+    try {
+      return new Chess(fen).fen();
+    } catch {
+      return STARTING_FEN;
+    }
+  }, [imported.initialFen, searchParams]);
+
+  const [moves, setMoves] = useState<MoveRecord[]>(() => {
+    try {
+      return toMoveRecords(initialFen, imported.sans ?? [], 'analysis');
+    } catch {
+      return [];
+    }
+  });
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+  // Arrows and circles saved onto each position, by ply; they go into the PGN
+  const [annotations, setAnnotations] = useState<Record<number, BoardAnnotations>>(() => imported.annotations ?? {});
+  // Drawn on the shown position but not saved
+  const [drawn, setDrawn] = useState<BoardAnnotations>(EMPTY_ANNOTATIONS);
+
+  const currentPly = viewPly ?? moves.length;
+  const currentFen = currentPly === 0 ? initialFen : moves[currentPly - 1].fen_after;
+
+  useEffect(() => setDrawn(EMPTY_ANNOTATIONS), [currentFen]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const step = (ply: number) => setViewPly(ply >= moves.length ? null : Math.max(0, ply));
+      if (e.key === 'ArrowLeft') step(currentPly - 1);
+      else if (e.key === 'ArrowRight') step(currentPly + 1);
+      else if (e.key === 'ArrowUp') step(0);
+      else if (e.key === 'ArrowDown') setViewPly(null);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [moves.length, currentPly]);
+
+  const onPieceDrop = (sourceSquare: string, targetSquare: string, piece: string, promotion?: PromotionPiece): boolean => {
+    try {
+      const line = moves.slice(0, currentPly).map((m) => m.san);
+      const move = new Chess(currentFen).move({ from: sourceSquare, to: targetSquare, promotion });
+      setMoves(toMoveRecords(initialFen, [...line, move.san], 'analysis'));
+      // Annotations on the replaced moves go with them
+      setAnnotations((current) => Object.fromEntries(
+        Object.entries(current).filter(([ply]) => Number(ply) <= currentPly)
+      ));
+      setViewPly(null);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+
+  const getPgn = () =>
+    buildPgn({
+      white: imported.headers?.White ?? '?',
+      black: imported.headers?.Black ?? '?',
+      date: new Date(),
+      result: '*',
+      timeControl: null,
+      termination: 'Unterminated',
+      initialFen,
+      moves,
+      annotations,
+    });
+
+  const downloadPgn = () => {
+    const blob = new Blob([getPgn()], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'analysis.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyPgn = () => {
+    navigator.clipboard.writeText(getPgn());
+    alert('PGN copied to clipboard!');
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      <div className="w-full md:w-80 bg-slate-800 p-6 flex flex-col border-b md:border-b-0 md:border-r border-slate-700">
+        <div className="mb-8">
+            <h1 onClick={() => navigate('/')} className="text-2xl font-bold text-emerald-400 cursor-pointer flex items-center gap-2 mb-1">
+                <Microscope className="w-6 h-6" />
+                Analysis Board
+            </h1>
+            {imported.headers?.White && imported.headers?.Black && (
+                <p className="text-sm text-slate-400 mt-2">
+                    {imported.headers.White} vs {imported.headers.Black}
+                    {imported.headers.Result ? ` · ${imported.headers.Result}` : ''}
+                </p>
+            )}
+        </div>
+
+        <div className="flex-1 space-y-6">
+            <MoveList moves={moves} viewPly={viewPly} onNavigate={setViewPly} />
+
+            <AnnotationPanel
+                positionLabel={currentPly === 0 ? 'the starting position' : moveLabel(moves[currentPly - 1])}
+                drawn={drawn}
+                saved={annotations[currentPly] ?? EMPTY_ANNOTATIONS}
+                onSave={() => {
+                    setAnnotations({ ...annotations, [currentPly]: mergeAnnotations(annotations[currentPly] ?? EMPTY_ANNOTATIONS, drawn) });
+                    setDrawn(EMPTY_ANNOTATIONS);
+                }}
+                onRemove={() => {
+                    const { [currentPly]: _removed, ...rest } = annotations;
+                    setAnnotations(rest);
+                }}
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={downloadPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Download className="w-4 h-4" /> PGN
+                </button>
+                <button
+                    onClick={copyPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Copy className="w-4 h-4" /> Copy PGN
+                </button>
+            </div>
+
+            <button
+                onClick={() => setOrientation((o) => (o === 'white' ? 'black' : 'white'))}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+            >
+                <RefreshCw className="w-4 h-4" /> Flip Board
+            </button>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
+            <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+                <Flag className="w-4 h-4" /> Return to Home
+            </button>
+            <SettingsButton />
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 md:p-8 bg-slate-900">
+        <CustomChessBoard
+            fen={currentFen}
+            onPieceDrop={onPieceDrop}
+            boardOrientation={orientation}
+            arePiecesDraggable={true}
+            lastMove={currentPly > 0 ? moves[currentPly - 1] : null}
+            annotations={drawn}
+            onAnnotationsChange={setDrawn}
+            savedAnnotations={annotations[currentPly]}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisBoard;
@@ -0,0 +1,344 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { PencilRuler, RefreshCw, Copy, ClipboardPaste, Eraser, Play, Microscope, Flag, AlertCircle, RotateCcw, Trash2 } from 'lucide-react';
+import EditorBoard, { DRAG_TYPE, EditorDrag, EditorPiece } from '../components/EditorBoard';
+import SettingsButton from '../components/SettingsButton';
+import { STARTING_FEN } from '../constants';
+import {
+  CASTLING_RIGHTS,
+  CastlingRight,
+  EMPTY_POSITION,
+  EditorPosition,
+  parseEditorFen,
+  possibleCastling,
+  possibleEnPassant,
+  setupProblems,
+  toEditorFen,
+} from '../lib/boardEditor';
+import { HomeLocationState } from './Home';
+
+const PIECE_NAMES: Record<string, string> = { k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn' };
+
+const CASTLING_LABELS: Record<CastlingRight, string> = {
+  K: 'White O-O',
+  Q: 'White O-O-O',
+  k: 'Black O-O',
+  q: 'Black O-O-O',
+};
+
+// Clicking a square puts down the picked piece, or clears it with the eraser
+type Tool = string | 'erase' | null;
+
+const BoardEditor: React.FC = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [position, setPosition] = useState<EditorPosition>(() => {
+    try {
+      return parseEditorFen(searchParams.get('fen') ?? STARTING_FEN);
+    } catch {
+      return parseEditorFen(STARTING_FEN);
+    }
+  });
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+  const [tool, setTool] = useState<Tool>(null);
+  // FEN being typed or pasted; null while the field just shows the board
+  const [fenDraft, setFenDraft] = useState<string | null>(null);
+  const [fenError, setFenError] = useState<string | null>(null);
+
+  const fen = toEditorFen(position);
+  const problems = useMemo(() => setupProblems(position), [position]);
+  const castlingAllowed = possibleCastling(position.pieces);
+  const enPassantSquares = possibleEnPassant(position);
+  // The board only stands for the FEN field once the typed FEN has been applied
+  const fenApplied = useMemo(() => {
+    if (fenDraft === null) return true;
+    try {
+      return toEditorFen(parseEditorFen(fenDraft)) === fen;
+    } catch {
+      return false;
+    }
+  }, [fenDraft, fen]);
+  const canUsePosition = problems.length === 0 && !fenError && fenApplied;
+
+  const setPieces = (update: (pieces: Record<string, string>) => void) => {
+    const pieces = { ...position.pieces };
+    update(pieces);
+    setPosition({ ...position, pieces });
+  };
+
+  const onDrop = (square: string, drag: EditorDrag) => {
+    if (drag.from === square) return;
+    setPieces((pieces) => {
+      if (drag.from) delete pieces[drag.from];
+      pieces[square] = drag.piece;
+    });
+  };
+
+  const onSquareClick = (square: string) => {
+    if (!tool) return;
+    setPieces((pieces) => {
+      // Clicking the same piece again takes it away
+      if (tool === 'erase' || pieces[square] === tool) delete pieces[square];
+      else pieces[square] = tool;
+    });
+  };
+
+  const loadFen = (text: string) => {
+    setFenDraft(text);
+    try {
+      setPosition(parseEditorFen(text));
+      setFenError(null);
+    } catch (err: any) {
+      setFenError(err.message);
+    }
+  };
+
+  const pasteFen = async () => {
+    try {
+      loadFen((await navigator.clipboard.readText()).trim());
+    } catch (err: any) {
+      console.error('Clipboard read failed', err);
+      setFenError('Could not read the clipboard. Paste into the FEN field instead.');
+    }
+  };
+
+  const copyFen = () => {
+    navigator.clipboard.writeText(fen);
+    alert('FEN copied to clipboard!');
+  };
+
+  const reset = (next: EditorPosition) => {
+    setPosition(next);
+    setFenDraft(null);
+    setFenError(null);
+  };
+
+  const paletteRow = (row: string, withEraser: boolean) => (
+    <div className="flex items-center gap-1 bg-slate-800 rounded-lg p-1">
+        {[...row].map((piece) => (
+            <button
+                key={piece}
+                draggable
+                onDragStart={(e) => {
+                    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ piece } satisfies EditorDrag));
+                    e.dataTransfer.effectAllowed = 'copy';
+                }}
+                onClick={() => setTool(tool === piece ? null : piece)}
+                aria-label={`${piece === piece.toUpperCase() ? 'White' : 'Black'} ${PIECE_NAMES[piece.toLowerCase()]}`}
+                aria-pressed={tool === piece}
+                className={`w-11 h-11 rounded p-0.5 transition-colors cursor-grab ${
+                    tool === piece ? 'bg-emerald-600' : 'hover:bg-slate-700'
+                }`}
+            >
+                <EditorPiece piece={piece} />
+            </button>
+        ))}
+        {withEraser && (
+            <button
+                onClick={() => setTool(tool === 'erase' ? null : 'erase')}
+                title="Eraser"
+                aria-label="Eraser"
+                aria-pressed={tool === 'erase'}
+                className={`w-11 h-11 rounded flex items-center justify-center transition-colors ${
+                    tool === 'erase' ? 'bg-emerald-600 text-white' : 'text-slate-300 hover:bg-slate-700'
+                }`}
+            >
+                <Eraser className="w-5 h-5" />
+            </button>
+        )}
+    </div>
+  );
+
+  // Each side's pieces sit on the edge of the board that side plays from
+  const [topRow, bottomRow] = orientation === 'white' ? ['kqrbnp', 'KQRBNP'] : ['KQRBNP', 'kqrbnp'];
+
+  const startGame = () => {
+    if (!canUsePosition) return;
+    const state: HomeLocationState = { startFen: fen };
+    navigate('/', { state });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      <div className="w-full md:w-80 bg-slate-800 p-6 flex flex-col border-b md:border-b-0 md:border-r border-slate-700">
+        <div className="mb-8">
+            <h1 onClick={() => navigate('/')} className="text-2xl font-bold text-emerald-400 cursor-pointer flex items-center gap-2 mb-1">
+                <PencilRuler className="w-6 h-6" />
+                Board Editor
+            </h1>
+            <p className="text-sm text-slate-400 mt-2">
+                Drag pieces onto the board, or pick one and click squares. Drag a piece off the board or right-click it to remove it.
+            </p>
+        </div>
+
+        <div className="flex-1 space-y-6">
+            <div className="space-y-2">
+                <h3 className="text-sm uppercase text-slate-400 font-semibold">Side to move</h3>
+                <div className="grid grid-cols-2 gap-2">
+                    {(['w', 'b'] as const).map((turn) => (
+                        <button
+                            key={turn}
+                            onClick={() => setPosition({ ...position, turn })}
+                            className={`py-2 rounded text-sm font-semibold transition-colors ${
+                                position.turn === turn ? 'bg-emerald-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                            }`}
+                        >
+                            {turn === 'w' ? 'White' : 'Black'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <div className="space-y-2">
+                <h3 className="text-sm uppercase text-slate-400 font-semibold">Castling</h3>
+                <div className="grid grid-cols-2 gap-2">
+                    {CASTLING_RIGHTS.map((right) => (
+                        <label
+                            key={right}
+                            title={castlingAllowed.includes(right) ? undefined : 'King or rook is not on its starting square'}
+                            className={`flex items-center gap-2 text-sm ${castlingAllowed.includes(right) ? 'text-slate-300 cursor-pointer' : 'text-slate-500'}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={castlingAllowed.includes(right) && position.castling.includes(right)}
+                                disabled={!castlingAllowed.includes(right)}
+                                onChange={(e) =>
+                                    setPosition({
+                                        ...position,
+                                        castling: e.target.checked
+                                            ? [...position.castling, right]
+                                            : position.castling.filter((r) => r !== right),
+                                    })
+                                }
+                                className="accent-emerald-500"
+                            />
+                            {CASTLING_LABELS[right]}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <h3 className="flex-1 text-sm uppercase text-slate-400 font-semibold">En passant</h3>
+                <select
+                    value={position.enPassant && enPassantSquares.includes(position.enPassant) ? position.enPassant : ''}
+                    onChange={(e) => setPosition({ ...position, enPassant: e.target.value || null })}
+                    disabled={enPassantSquares.length === 0}
+                    className="bg-slate-700 border border-slate-600 text-white rounded py-1 px-2 text-sm disabled:opacity-50"
+                >
+                    <option value="">None</option>
+                    {enPassantSquares.map((square) => (
+                        <option key={square} value={square}>
+                            {square}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="space-y-2">
+                <h3 className="text-sm uppercase text-slate-400 font-semibold">FEN</h3>
+                <textarea
+                    value={fenDraft ?? fen}
+                    onChange={(e) => loadFen(e.target.value)}
+                    onBlur={() => {
+                        if (!fenError) setFenDraft(null);
+                    }}
+                    rows={2}
+                    spellCheck={false}
+                    aria-label="FEN"
+                    className="w-full bg-slate-900 border border-slate-700 rounded p-2 font-mono text-xs text-slate-200 focus:outline-none focus:ring-2 focus:ring-emerald-500 resize-none"
+                />
+                {fenError && <p className="text-xs text-red-400">{fenError}</p>}
+                <div className="grid grid-cols-2 gap-2">
+                    <button
+                        onClick={copyFen}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                    >
+                        <Copy className="w-4 h-4" /> Copy FEN
+                    </button>
+                    <button
+                        onClick={pasteFen}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                    >
+                        <ClipboardPaste className="w-4 h-4" /> Paste FEN
+                    </button>
+                </div>
+            </div>
+
+            {problems.length > 0 && (
+                <ul className="p-3 bg-red-900/50 border border-red-500/50 rounded-lg text-red-200 text-sm space-y-1">
+                    {problems.map((problem) => (
+                        <li key={problem} className="flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" /> {problem}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={startGame}
+                    disabled={!canUsePosition}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Play className="w-4 h-4" /> Play online
+                </button>
+                <button
+                    onClick={() => navigate(`/analysis?fen=${encodeURIComponent(fen)}`)}
+                    disabled={!canUsePosition}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Microscope className="w-4 h-4" /> Analyze
+                </button>
+            </div>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
+            <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+                <Flag className="w-4 h-4" /> Return to Home
+            </button>
+            <SettingsButton />
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4 md:p-8 bg-slate-900">
+        {paletteRow(topRow, false)}
+        <EditorBoard
+            pieces={position.pieces}
+            orientation={orientation}
+            onDrop={onDrop}
+            onRemove={(square) =>
+                setPieces((pieces) => {
+                    delete pieces[square];
+                })
+            }
+            onSquareClick={onSquareClick}
+        />
+        {paletteRow(bottomRow, true)}
+
+        <div className="flex gap-2">
+            <button
+                onClick={() => reset(parseEditorFen(STARTING_FEN))}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded font-medium transition-colors text-sm"
+            >
+                <RotateCcw className="w-4 h-4" /> Starting position
+            </button>
+            <button
+                onClick={() => reset(EMPTY_POSITION)}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded font-medium transition-colors text-sm"
+            >
+                <Trash2 className="w-4 h-4" /> Clear board
+            </button>
+            <button
+                onClick={() => setOrientation((o) => (o === 'white' ? 'black' : 'white'))}
+                className="flex items-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded font-medium transition-colors text-sm"
+            >
+                <RefreshCw className="w-4 h-4" /> Flip
+            </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardEditor;
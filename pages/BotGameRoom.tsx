@@ -0,0 +1,348 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Cpu, Download, Copy, Flag, Plus } from 'lucide-react';
+import CustomChessBoard from '../components/CustomChessBoard';
+import SettingsButton from '../components/SettingsButton';
+import MoveList from '../components/MoveList';
+import GameActions from '../components/GameActions';
+import GameStatusCard from '../components/GameStatusCard';
+import MoveAnnouncer from '../components/MoveAnnouncer';
+import PlayerRoleCard from '../components/PlayerRoleCard';
+import BotSetup from '../components/BotSetup';
+import Avatar from '../components/Avatar';
+import { BotGame, PromotionPiece } from '../types';
+import { STARTING_FEN } from '../constants';
+import { Engine, SearchLimits, createEngine, getEngineLevel } from '../lib/engine';
+import { clearBotGame, loadBotGame, saveBotGame } from '../lib/botGame';
+import { describeResult, pgnTermination, playLocalMove, replayGame } from '../lib/chess';
+import { buildPgn } from '../lib/pgn';
+import { useAuth } from '../lib/auth';
+import { displayName } from '../lib/profiles';
+
+// How long the engine looks at the position before answering a draw offer,
+// at full strength whatever its level
+const DRAW_EVALUATION: SearchLimits = { depth: 12, moveTimeMs: 1000 };
+
+/**
+ * A game against Stockfish running in a Web Worker. Nothing touches the
+ * server; the game lives in localStorage so a reload picks it up again.
+ */
+const BotGameRoom: React.FC = () => {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [botGame, setBotGame] = useState<BotGame | null>(() => loadBotGame());
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [thinking, setThinking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const engineRef = useRef<Engine | null>(null);
+  const [weighingDraw, setWeighingDraw] = useState(false);
+
+  useEffect(() => {
+    const engine = createEngine();
+    engineRef.current = engine;
+    return () => {
+      engine.terminate();
+      engineRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (botGame) saveBotGame(botGame);
+  }, [botGame]);
+
+  const game = useMemo(
+    () => (botGame ? replayGame(botGame.initial_fen, botGame.moves) : null),
+    [botGame]
+  );
+  const engineToMove = !!botGame && !!game && !botGame.result && game.turn() !== botGame.player_color;
+
+  // Let the engine answer whenever it is its turn
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine || !botGame || !game || !engineToMove) return;
+
+    let cancelled = false;
+    const fen = game.fen();
+    const ply = botGame.moves.length;
+    setThinking(true);
+
+    engine
+      .search(fen, getEngineLevel(botGame.level))
+      .then(({ bestMove }) => {
+        if (cancelled || !bestMove) return;
+        const from = bestMove.slice(0, 2);
+        const to = bestMove.slice(2, 4);
+        const promotion = (bestMove[4] as PromotionPiece | undefined) || undefined;
+        // Ignore the answer if the game moved on meanwhile (takeback, resign)
+        setBotGame((current) => (current && current.moves.length === ply && !current.result
+          ? playLocalMove(current, from, to, promotion)
+          : current));
+      })
+      .catch((err: any) => console.error('Engine search failed', err))
+      .finally(() => {
+        if (!cancelled) setThinking(false);
+      });
+
+    return () => {
+      cancelled = true;
+      engine.stop();
+      setThinking(false);
+    };
+  }, [engineToMove, game, botGame?.level]);
+
+  const moves = botGame?.moves ?? [];
+  const currentPly = viewPly ?? moves.length;
+  const displayFen = !botGame
+    ? STARTING_FEN
+    : currentPly === 0 ? botGame.initial_fen : moves[currentPly - 1].fen_after;
+
+  // Arrow keys step through the game
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const step = (ply: number) => setViewPly(ply >= moves.length ? null : Math.max(0, ply));
+      if (e.key === 'ArrowLeft') step(currentPly - 1);
+      else if (e.key === 'ArrowRight') step(currentPly + 1);
+      else if (e.key === 'ArrowUp') step(0);
+      else if (e.key === 'ArrowDown') setViewPly(null);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [moves.length, currentPly]);
+
+  const startGame = (level: number, color: 'w' | 'b') => {
+    engineRef.current?.newGame();
+    setNotice(null);
+    setViewPly(null);
+    setBotGame({
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      player_color: color,
+      level,
+      initial_fen: STARTING_FEN,
+      moves: [],
+      result: null,
+      termination: null,
+    });
+  };
+
+  const newGame = () => {
+    if (botGame && !botGame.result && !window.confirm('Abandon the current game?')) return;
+    clearBotGame();
+    setBotGame(null);
+  };
+
+  const onPieceDrop = (sourceSquare: string, targetSquare: string, piece: string, promotion?: PromotionPiece): boolean => {
+    if (!botGame || !game || botGame.result || viewPly !== null || weighingDraw) return false;
+    if (game.turn() !== botGame.player_color) return false;
+    try {
+      setBotGame(playLocalMove(botGame, sourceSquare, targetSquare, promotion));
+      setNotice(null);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+
+  const engineWins = () => (botGame?.player_color === 'w' ? '0-1' : '1-0');
+
+  const resign = () => {
+    if (!botGame || !window.confirm('Are you sure you want to resign?')) return;
+    setBotGame({ ...botGame, result: engineWins(), termination: 'resignation' });
+  };
+
+  // The engine takes a draw when a fresh look at the current position says
+  // it isn't better. Moves wait until it has answered.
+  const offerDraw = async () => {
+    const engine = engineRef.current;
+    if (!botGame || !game || !engine) return;
+    if (game.turn() !== botGame.player_color) {
+      setNotice('Offer the draw on your own turn.');
+      return;
+    }
+    setWeighingDraw(true);
+    try {
+      const { info } = await engine.search(game.fen(), DRAW_EVALUATION);
+      // Scores are from the side to move, which is us
+      const engineNotBetter = info !== null && (info.mate !== null ? info.mate > 0 : (info.scoreCp ?? 0) >= 0);
+      if (engineNotBetter) {
+        // Unless a new game was started meanwhile
+        setBotGame((current) => (current?.id === botGame.id ? { ...current, result: '1/2-1/2', termination: 'agreement' } : current));
+      } else {
+        setNotice('The computer declines the draw.');
+      }
+    } catch (err: any) {
+      console.error('Engine search failed', err);
+    } finally {
+      setWeighingDraw(false);
+    }
+  };
+
+  // Takes back our last move together with the engine's reply to it
+  const takeback = () => {
+    if (!botGame) return;
+    const lastOwn = botGame.moves.map((m) => m.color).lastIndexOf(botGame.player_color);
+    if (lastOwn < 0) return;
+    setViewPly(null);
+    setNotice(null);
+    setBotGame({ ...botGame, moves: botGame.moves.slice(0, lastOwn), result: null, termination: null });
+  };
+
+  const engineName = `Stockfish level ${botGame?.level ?? ''}`.trim();
+  const playerName = displayName(profile ?? undefined, 'You');
+
+  const getPgn = () => {
+    if (!botGame) return '';
+    return buildPgn({
+      white: botGame.player_color === 'w' ? playerName : engineName,
+      black: botGame.player_color === 'b' ? playerName : engineName,
+      date: new Date(botGame.created_at),
+      result: botGame.result ?? '*',
+      timeControl: null,
+      termination: pgnTermination(botGame),
+      initialFen: botGame.initial_fen,
+      moves: botGame.moves,
+    });
+  };
+
+  const downloadPgn = () => {
+    const blob = new Blob([getPgn()], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'computer-game.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyPgn = () => {
+    navigator.clipboard.writeText(getPgn());
+    alert('PGN copied to clipboard!');
+  };
+
+  if (!botGame || !game) {
+    return (
+      <div className="min-h-screen bg-slate-950 text-white flex flex-col items-center justify-center p-4">
+        <BotSetup onStart={startGame} />
+        <button onClick={() => navigate('/')} className="mt-6 text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+          <Flag className="w-4 h-4" /> Return to Home
+        </button>
+      </div>
+    );
+  }
+
+  const isMyTurn = !botGame.result && game.turn() === botGame.player_color;
+  const getStatusMessage = () => {
+    if (botGame.result) return describeResult(botGame);
+    if (thinking) return 'Computer is thinking...';
+    if (weighingDraw) return 'Computer is considering your draw offer...';
+    return `${isMyTurn ? 'Your' : "Computer's"} turn ${game.inCheck() ? '(Check!)' : ''}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      <div className="w-full md:w-80 bg-slate-800 p-6 flex flex-col border-b md:border-b-0 md:border-r border-slate-700">
+        <div className="mb-8">
+            <h1 onClick={() => navigate('/')} className="text-2xl font-bold text-emerald-400 cursor-pointer flex items-center gap-2 mb-1">
+                <Cpu className="w-6 h-6" />
+                Play vs Computer
+            </h1>
+            <p className="text-sm text-slate-400 mt-2">{engineName}</p>
+        </div>
+
+        <div className="flex-1 space-y-6">
+            <GameStatusCard message={getStatusMessage()} finished={!!botGame.result} highlight={isMyTurn} />
+
+            <PlayerRoleCard role={botGame.player_color} />
+
+            {notice && (
+                <div className="p-3 bg-amber-900/30 border border-amber-700 rounded-lg text-sm text-amber-100">{notice}</div>
+            )}
+
+            <GameActions
+                gameState={{
+                  status: botGame.result ? 'finished' : 'active',
+                  ply: botGame.moves.some((m) => m.color === botGame.player_color) ? botGame.moves.length : 0,
+                  draw_offer: null,
+                  takeback_offer: null,
+                }}
+                playerRole={botGame.player_color}
+                busy={weighingDraw}
+                onResign={resign}
+                onOfferDraw={offerDraw}
+                onRequestTakeback={takeback}
+            />
+
+            <MoveList moves={moves} viewPly={viewPly} onNavigate={setViewPly} />
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={downloadPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Download className="w-4 h-4" /> PGN
+                </button>
+                <button
+                    onClick={copyPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Copy className="w-4 h-4" /> Copy PGN
+                </button>
+            </div>
+
+            <button
+                onClick={newGame}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-medium transition-colors text-sm"
+            >
+                <Plus className="w-4 h-4" /> New Game
+            </button>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
+            <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+                <Flag className="w-4 h-4" /> Return to Home
+            </button>
+            <SettingsButton />
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 md:p-8 bg-slate-900">
+        <div className="flex flex-col items-center gap-4 w-full">
+            <div className="flex items-center gap-3 w-full max-w-[500px] text-slate-400">
+                <div className="w-6 h-6 rounded-full bg-slate-700 flex items-center justify-center">
+                    <Cpu className="w-4 h-4" />
+                </div>
+                <span>{engineName}</span>
+            </div>
+
+            <CustomChessBoard
+                fen={displayFen}
+                onPieceDrop={onPieceDrop}
+                boardOrientation={botGame.player_color === 'b' ? 'black' : 'white'}
+                arePiecesDraggable={!botGame.result && viewPly === null}
+                lastMove={currentPly > 0 ? moves[currentPly - 1] : null}
+                gameOver={!!botGame.result}
+                premoveColor={botGame.player_color}
+            />
+
+            <div className="flex items-center gap-3 w-full max-w-[500px] text-slate-200">
+                <Avatar profile={profile} />
+                <span>{playerName}</span>
+            </div>
+        </div>
+      </div>
+      <MoveAnnouncer
+        lastMove={moves[moves.length - 1] ?? null}
+        ownColor={botGame.player_color}
+        result={describeResult(botGame)}
+      />
+    </div>
+  );
+};
+
+export default BotGameRoom;
@@ -0,0 +1,360 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Microscope, Loader2, RefreshCw, Flag, AlertTriangle } from 'lucide-react';
+import { Arrow } from 'react-chessboard';
+import CustomChessBoard from '../components/CustomChessBoard';
+import SettingsButton from '../components/SettingsButton';
+import MoveList from '../components/MoveList';
+import EvalBar from '../components/EvalBar';
+import EvalGraph from '../components/EvalGraph';
+import AnnotationPanel from '../components/AnnotationPanel';
+import { transport } from '../lib/backend';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../lib/auth';
+import { createEngine } from '../lib/engine';
+import { describeResult, moveLabel } from '../lib/chess';
+import { VARIANTS } from '../lib/variants';
+import { EMPTY_ANNOTATIONS, mergeAnnotations } from '../lib/annotations';
+import { fetchMoveAnnotations, saveMoveAnnotations } from '../lib/moveAnnotations';
+import { displayName, fetchProfiles } from '../lib/profiles';
+import {
+  PlayerSummary,
+  PositionEval,
+  REVIEW_DEPTH,
+  formatEval,
+  reviewMoves,
+  summarize,
+  terminalEval,
+  toPositionEval,
+} from '../lib/review';
+import { BoardAnnotations, GameState, MoveAnnotation, MoveRecord, Profile } from '../types';
+
+// Saved annotations live in Supabase; on the self-hosted server arrows stay on this screen
+const SHARED_ANNOTATIONS = transport.kind === 'supabase';
+
+const SummaryRow: React.FC<{ label: string; summary: PlayerSummary }> = ({ label, summary }) => (
+  <div className="flex items-center justify-between gap-2 text-sm">
+    <span className="truncate flex-1">{label}</span>
+    <span className="font-bold text-emerald-400 w-12 text-right">{summary.accuracy.toFixed(0)}%</span>
+    <span className="text-slate-400 w-16 text-right" title="Average centipawn loss">{summary.averageCpLoss.toFixed(0)} acpl</span>
+    <span className="text-yellow-400 w-6 text-right" title="Inaccuracies">{summary.inaccuracies}</span>
+    <span className="text-orange-400 w-6 text-right" title="Mistakes">{summary.mistakes}</span>
+    <span className="text-red-400 w-6 text-right" title="Blunders">{summary.blunders}</span>
+  </div>
+);
+
+/**
+ * Engine review of a finished game: every position is searched once in a
+ * local worker, then moves are graded by the evaluation they gave away.
+ */
+const GameReview: React.FC = () => {
+  const { id: gameId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [moves, setMoves] = useState<MoveRecord[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [error, setError] = useState<string | null>(null);
+  // evals[i] is the position after i plies; filled in as the engine goes
+  const [evals, setEvals] = useState<PositionEval[]>([]);
+  const [viewPly, setViewPly] = useState<number | null>(0);
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+  // Every viewer's saved annotations, and what is drawn but not saved yet
+  const [savedAnnotations, setSavedAnnotations] = useState<MoveAnnotation[]>([]);
+  const [drawn, setDrawn] = useState<BoardAnnotations>(EMPTY_ANNOTATIONS);
+  const [savingAnnotations, setSavingAnnotations] = useState(false);
+
+  useEffect(() => {
+    if (!gameId) return;
+    const load = async () => {
+      try {
+        const { game: data, moves: moveData } = await transport.joinGame(gameId);
+        setGameState(data);
+        setMoves(moveData);
+        setProfiles(await fetchProfiles([data.player_white, data.player_black]));
+      } catch (err: any) {
+        console.error('Error loading game for review:', err);
+        setError('Could not load game. It might not exist.');
+      }
+    };
+    load();
+  }, [gameId]);
+
+  const finished = gameState?.status === 'finished';
+
+  const storeAnnotation = useCallback((row: MoveAnnotation) => {
+    setSavedAnnotations((current) => [
+      ...current.filter((r) => r.ply !== row.ply || r.user_id !== row.user_id),
+      row,
+    ]);
+    fetchProfiles([row.user_id]).then((found) => setProfiles((current) => ({ ...found, ...current })));
+  }, []);
+
+  // Saved annotations, kept live so everyone reviewing sees new ones
+  useEffect(() => {
+    if (!gameId || !SHARED_ANNOTATIONS) return;
+    fetchMoveAnnotations(gameId)
+      .then(async (rows) => {
+        setSavedAnnotations(rows);
+        const found = await fetchProfiles(rows.map((r) => r.user_id));
+        setProfiles((current) => ({ ...found, ...current }));
+      })
+      .catch((err: any) => console.error('Loading annotations failed', err));
+
+    const channel = supabase
+      .channel(`move_annotations_${gameId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'move_annotations', filter: `game_id=eq.${gameId}` },
+        (payload) => storeAnnotation(payload.new as MoveAnnotation)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [gameId, storeAnnotation]);
+
+  // Search each position in order; later positions reuse nothing, so the
+  // review can be cut short any time by leaving the page.
+  useEffect(() => {
+    // The engine only knows regular chess
+    if (!gameState || !finished || gameState.variant !== 'standard') return;
+    const engine = createEngine();
+    let cancelled = false;
+    const positions = [gameState.initial_fen, ...moves.map((m) => m.fen_after)];
+
+    const analyze = async () => {
+      engine.newGame();
+      for (const fen of positions) {
+        const known = terminalEval(fen);
+        const evaluation = known ?? await engine
+          .search(fen, { depth: REVIEW_DEPTH })
+          .then(({ bestMove, info }) => toPositionEval(info, bestMove, fen));
+        if (cancelled) return;
+        setEvals((current) => [...current, evaluation]);
+      }
+    };
+    setEvals([]);
+    analyze().catch((err) => console.error('Review failed', err));
+
+    return () => {
+      cancelled = true;
+      engine.terminate();
+    };
+  }, [gameState, finished, moves]);
+
+  const reviews = useMemo(
+    () => (evals.length === moves.length + 1 ? reviewMoves(moves, evals) : []),
+    [moves, evals]
+  );
+  const annotations = useMemo(
+    () => Object.fromEntries(reviews.map((r) => [r.ply, r.classification])),
+    [reviews]
+  );
+
+  const currentPly = viewPly ?? moves.length;
+  const displayFen = currentPly === 0 ? gameState?.initial_fen : moves[currentPly - 1]?.fen_after;
+  const currentEval = evals[currentPly] ?? null;
+
+  useEffect(() => setDrawn(EMPTY_ANNOTATIONS), [currentPly]);
+
+  const annotationsHere = savedAnnotations.filter((r) => r.ply === currentPly);
+  const myAnnotations = annotationsHere.find((r) => r.user_id === user.id) ?? EMPTY_ANNOTATIONS;
+
+  const saveAnnotations = async (annotations: BoardAnnotations) => {
+    if (!gameId) return;
+    setSavingAnnotations(true);
+    try {
+      await saveMoveAnnotations(gameId, currentPly, user.id, annotations);
+      storeAnnotation({
+        game_id: gameId,
+        ply: currentPly,
+        user_id: user.id,
+        ...annotations,
+        updated_at: new Date().toISOString(),
+      });
+      setDrawn(EMPTY_ANNOTATIONS);
+    } catch (err: any) {
+      console.error('Saving annotations failed', err);
+      alert(err.message || 'Could not save the arrows.');
+    } finally {
+      setSavingAnnotations(false);
+    }
+  };
+  // Best move from the shown position, and the move actually played if it was worse
+  const arrows = useMemo(() => {
+    const result: Arrow[] = [];
+    const best = currentEval?.bestMove;
+    if (best) result.push({ startSquare: best.slice(0, 2), endSquare: best.slice(2, 4), color: 'rgba(16, 185, 129, 0.8)' });
+    const played = moves[currentPly];
+    if (played && annotations[played.ply] && played.uci !== best) {
+      result.push({ startSquare: played.from_square, endSquare: played.to_square, color: 'rgba(239, 68, 68, 0.7)' });
+    }
+    return result;
+  }, [currentEval, moves, currentPly, annotations]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const step = (ply: number) => setViewPly(ply >= moves.length ? null : Math.max(0, ply));
+      if (e.key === 'ArrowLeft') step(currentPly - 1);
+      else if (e.key === 'ArrowRight') step(currentPly + 1);
+      else if (e.key === 'ArrowUp') step(0);
+      else if (e.key === 'ArrowDown') setViewPly(null);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [moves.length, currentPly]);
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white p-4">
+        <div className="bg-red-900/50 p-6 rounded-lg border border-red-700 text-center">
+            <h2 className="text-xl font-bold mb-2">Error</h2>
+            <p>{error}</p>
+            <button onClick={() => navigate('/')} className="mt-4 px-4 py-2 bg-slate-700 rounded hover:bg-slate-600">
+                Back to Home
+            </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!gameState) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white">
+        <Loader2 className="w-10 h-10 animate-spin mb-4 text-emerald-500" />
+        <p>Loading game...</p>
+      </div>
+    );
+  }
+
+  if (!finished) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white p-4">
+        <div className="bg-slate-800 p-6 rounded-lg border border-slate-700 text-center max-w-sm">
+            <AlertTriangle className="w-8 h-8 mx-auto mb-2 text-amber-400" />
+            <p>Analysis opens once the game is over.</p>
+            <button onClick={() => navigate(`/game/${gameId}`)} className="mt-4 px-4 py-2 bg-slate-700 rounded hover:bg-slate-600">
+                Back to the game
+            </button>
+        </div>
+      </div>
+    );
+  }
+
+  const whiteName = gameState.player_white ? displayName(profiles[gameState.player_white]) : 'White';
+  const blackName = gameState.player_black ? displayName(profiles[gameState.player_black]) : 'Black';
+  const engineReview = gameState.variant === 'standard';
+  const analyzing = engineReview && evals.length < moves.length + 1;
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      <div className="w-full md:w-96 bg-slate-800 p-6 flex flex-col border-b md:border-b-0 md:border-r border-slate-700">
+        <div className="mb-6">
+            <h1 onClick={() => navigate(`/game/${gameId}`)} className="text-2xl font-bold text-emerald-400 cursor-pointer flex items-center gap-2 mb-1">
+                <Microscope className="w-6 h-6" />
+                Game Review
+            </h1>
+            <p className="text-sm text-slate-400 mt-2">
+                {whiteName} vs {blackName} · {describeResult(gameState)}
+            </p>
+        </div>
+
+        <div className="flex-1 space-y-6">
+            {!engineReview && (
+                <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 text-sm text-slate-300">
+                    {VARIANTS[gameState.variant].label} games get no engine review: the engine only plays regular chess.
+                </div>
+            )}
+
+            {engineReview && (
+            <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 space-y-2">
+                <h3 className="text-sm uppercase text-slate-400 font-semibold flex items-center justify-between">
+                    Evaluation
+                    <span className="font-mono normal-case text-slate-200">{currentEval ? formatEval(currentEval) : '…'}</span>
+                </h3>
+                <EvalGraph
+                    evals={evals}
+                    reviews={reviews}
+                    currentPly={currentPly}
+                    totalPlies={moves.length}
+                    onSelect={(ply) => setViewPly(ply >= moves.length ? null : ply)}
+                />
+                {analyzing && (
+                    <p className="text-xs text-slate-400 flex items-center gap-2">
+                        <Loader2 className="w-3 h-3 animate-spin" />
+                        Analyzing position {evals.length + 1} of {moves.length + 1}...
+                    </p>
+                )}
+            </div>
+            )}
+
+            {reviews.length > 0 && (
+                <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 space-y-2">
+                    <h3 className="text-sm uppercase text-slate-400 font-semibold">Accuracy</h3>
+                    <SummaryRow label={whiteName} summary={summarize(reviews, 'w')} />
+                    <SummaryRow label={blackName} summary={summarize(reviews, 'b')} />
+                </div>
+            )}
+
+            <MoveList moves={moves} viewPly={viewPly} onNavigate={setViewPly} annotations={annotations} />
+
+            {SHARED_ANNOTATIONS && (
+                <AnnotationPanel
+                    positionLabel={currentPly === 0 ? 'the starting position' : moveLabel(moves[currentPly - 1])}
+                    drawn={drawn}
+                    saved={myAnnotations}
+                    busy={savingAnnotations}
+                    others={annotationsHere
+                        .filter((r) => r.user_id !== user.id && (r.arrows.length > 0 || r.circles.length > 0))
+                        .map((r) => displayName(profiles[r.user_id]))}
+                    onSave={() => saveAnnotations(mergeAnnotations(myAnnotations, drawn))}
+                    onRemove={() => saveAnnotations(EMPTY_ANNOTATIONS)}
+                />
+            )}
+
+            <button
+                onClick={() => setOrientation((o) => (o === 'white' ? 'black' : 'white'))}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+            >
+                <RefreshCw className="w-4 h-4" /> Flip Board
+            </button>
+            <SettingsButton />
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
+            <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+                <Flag className="w-4 h-4" /> Return to Home
+            </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 md:p-8 bg-slate-900">
+        <div className="flex items-stretch gap-3 w-full max-w-[540px]">
+            {engineReview && <EvalBar evaluation={currentEval} orientation={orientation} />}
+            <CustomChessBoard
+                fen={displayFen ?? gameState.initial_fen}
+                onPieceDrop={() => false}
+                boardOrientation={orientation}
+                arePiecesDraggable={false}
+                arrows={arrows}
+                lastMove={currentPly > 0 ? moves[currentPly - 1] : null}
+                annotations={drawn}
+                onAnnotationsChange={setDrawn}
+                savedAnnotations={mergeAnnotations(...annotationsHere)}
+                variant={gameState.variant}
+            />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
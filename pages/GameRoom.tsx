@@ -1,64 +1,96 @@
-import React, { useEffect, useState, useMemo, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useEffect, useState, useMemo, useCallback, useRef } from 'react';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { Chess } from 'chess.js';
 import { supabase } from '../lib/supabase';
-import { getUserId } from '../lib/utils';
-import { GameState, Player, MoveRecord } from '../types';
+import { useAuth } from '../lib/auth';
+import { displayName, fetchProfiles } from '../lib/profiles';
+import { RatingBook, fetchRatings, formatRating, isProvisional, ratingCategory, ratingIn } from '../lib/ratings';
+import { GameState, Player, MoveRecord, PromotionPiece, Profile, ChatMessage } from '../types';
 import CustomChessBoard from '../components/CustomChessBoard';
-import { Copy, Users, Flag, Trophy, Loader2, Info, AlertTriangle, RefreshCw } from 'lucide-react';
+import SettingsButton from '../components/SettingsButton';
+import ChessClock from '../components/ChessClock';
+import MoveList from '../components/MoveList';
+import GameActions from '../components/GameActions';
+import Avatar from '../components/Avatar';
+import RatingLabel from '../components/RatingLabel';
+import PresenceDot from '../components/PresenceDot';
+import AbandonmentClaim from '../components/AbandonmentClaim';
+import ChatPanel from '../components/ChatPanel';
+import GameStatusCard from '../components/GameStatusCard';
+import PlayerRoleCard from '../components/PlayerRoleCard';
+import MoveInput from '../components/MoveInput';
+import MoveAnnouncer from '../components/MoveAnnouncer';
+import Toast from '../components/Toast';
+import { ABANDON_GRACE_MS, HEARTBEAT_MS, PresenceEntry, PresenceStatus } from '../lib/presence';
+import { formatTimeControl, getRemainingMs, getTimeControl } from '../lib/timeControl';
+import { buildPgn } from '../lib/pgn';
+import { describeResult, pgnTermination, replayGame } from '../lib/chess';
+import { VARIANTS, countChecks, createChess } from '../lib/variants';
+import { useGameSync } from '../lib/gameSync';
+import { transport } from '../lib/backend';
+import { GameAction } from '../lib/transport';
+import { STARTING_FEN } from '../constants';
+import { Copy, Users, Flag, Loader2, Info, AlertTriangle, Timer, Download, Eye, WifiOff, Microscope, Shuffle } from 'lucide-react';
 import confetti from 'canvas-confetti';
 
+// Chat, presence, invite codes and abandonment claims need the Supabase backend
+const HAS_EXTRAS = transport.kind === 'supabase';
+
 const GameRoom: React.FC = () => {
   const { id: gameId } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const userId = useMemo(() => getUserId(), []);
+  const [searchParams] = useSearchParams();
+  const inviteParam = searchParams.get('invite');
+  const { user, profile } = useAuth();
+  const userId = user.id;
 
-  const [game, setGame] = useState(new Chess());
-  const [gameState, setGameState] = useState<GameState | null>(null);
   const [playerRole, setPlayerRole] = useState<Player['color']>('spectator');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Ply shown while stepping through the game; null follows the live position
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [actionPending, setActionPending] = useState(false);
+  // Server clock minus local clock, so clocks tick on server time
+  const [serverOffset, setServerOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  const timeoutClaimRef = useRef<string | null>(null);
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [ratings, setRatings] = useState<RatingBook>({});
+  // Everyone currently viewing the room, from realtime presence
+  const [viewers, setViewers] = useState<PresenceEntry[]>([]);
+  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const [channelReady, setChannelReady] = useState(false);
+  // False while our realtime connection is down
+  const [connected, setConnected] = useState(true);
+  const wasDisconnectedRef = useRef(false);
+  const [away, setAway] = useState(document.visibilityState === 'hidden');
+  // When the opponent was last seen leaving the room
+  const [opponentGoneSince, setOpponentGoneSince] = useState<number | null>(null);
+  // Chat this viewer may read; the server decides which room that is
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [opponentMuted, setOpponentMuted] = useState(false);
+  // Code that lets the opponent past invite-only; only players can read it
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const { gameState, moves, outbox, load: loadSync, gameUpdated, moveInserted, submit } = useGameSync({
+    gameId,
+    connected,
+    resync: () => fetchGame(),
+    onRejected: setToast,
+  });
 
   // Function to fetch game state manually
   const fetchGame = useCallback(async () => {
     if (!gameId) return;
     try {
-      const { data, error } = await supabase
-        .from('games')
-        .select('*')
-        .eq('id', gameId)
-        .single();
-
-      if (error) throw error;
-      if (!data) throw new Error('Game not found');
-
-      // Determine Role
-      let role: Player['color'] = 'spectator';
-      
-      // Check if I am already registered
-      if (data.player_white === userId) {
-          role = 'w';
-      } else if (data.player_black === userId) {
-          role = 'b';
-      } else if (!data.player_white) {
-          // Claim White
-          await supabase.from('games').update({ player_white: userId }).eq('id', gameId);
-          role = 'w';
-          data.player_white = userId;
-      } else if (!data.player_black) {
-          // Claim Black
-          await supabase.from('games').update({ player_black: userId, status: 'active' }).eq('id', gameId);
-          role = 'b';
-          data.player_black = userId;
-          data.status = 'active';
-      }
+      // Takes an open seat if we may have it; the server decides our role
+      const role = await transport.claimSeat(gameId, inviteParam);
+      const { game: data, moves: moveData } = await transport.joinGame(gameId);
 
       setPlayerRole(role);
-      setGameState(data);
-      
-      // Update chess instance
-      const newGame = new Chess(data.fen);
-      setGame(newGame);
+      loadSync(data, moveData);
       setLoading(false);
 
     } catch (err: any) {
@@ -66,75 +98,276 @@ const GameRoom: React.FC = () => {
       setError('Could not load game. It might not exist.');
       setLoading(false);
     }
-  }, [gameId, userId]);
+  }, [gameId, inviteParam, loadSync]);
+
+  // The live position is the move log replayed from the initial position,
+  // so chess.js keeps the full history rather than just the last FEN.
+  const game = useMemo(() => {
+    const initialFen = gameState?.initial_fen ?? STARTING_FEN;
+    let replayed: Chess;
+    try {
+      replayed = replayGame(initialFen, moves, gameState?.variant);
+    } catch (e) {
+      console.error("Could not replay move log:", e);
+      return createChess(gameState?.fen ?? initialFen, gameState?.variant);
+    }
+    // Our unconfirmed moves go on top, in ply order
+    let ply = moves.length;
+    for (const move of outbox) {
+      if (move.ply !== ply + 1) continue;
+      try {
+        replayed.move({ from: move.from, to: move.to, promotion: move.promotion });
+        ply += 1;
+      } catch {
+        // No longer legal (e.g. after a takeback); the server rejects it too
+      }
+    }
+    return replayed;
+  }, [gameState?.initial_fen, gameState?.fen, gameState?.variant, moves, outbox]);
 
   // Initial Fetch
   useEffect(() => {
     fetchGame();
   }, [fetchGame]);
 
-  // Realtime Subscription
+  // Measure the offset to the server clock once
+  useEffect(() => {
+    const measure = async () => {
+      const sentAt = Date.now();
+      const serverTime = await transport.serverTime();
+      const receivedAt = Date.now();
+      setServerOffset(serverTime - (sentAt + receivedAt) / 2);
+    };
+    measure().catch((err) => console.error('Server time failed', err));
+  }, []);
+
+  const isTimed = gameState?.base_seconds != null;
+  const clocksRunning = isTimed && gameState?.status !== 'finished' && !!gameState?.last_move_at;
+
+  // Tick the clocks while one is running
+  useEffect(() => {
+    if (!clocksRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [clocksRunning]);
+
+  const serverNow = now + serverOffset;
+  const whiteMs = gameState ? getRemainingMs(gameState, 'w', serverNow) : null;
+  const blackMs = gameState ? getRemainingMs(gameState, 'b', serverNow) : null;
+  const sideToMoveMs = gameState?.fen.split(' ')[1] === 'w' ? whiteMs : blackMs;
+
+  // Flag fall: ask the server to end the game once the running clock hits zero.
+  // The server checks against its own clock and rejects early claims.
+  useEffect(() => {
+    if (!gameId || !clocksRunning || sideToMoveMs === null || sideToMoveMs > 0) return;
+    if (timeoutClaimRef.current === gameState?.last_move_at) return;
+    timeoutClaimRef.current = gameState?.last_move_at ?? null;
+
+    transport.runAction(gameId, 'claim_timeout').catch((error) => {
+      console.error("Timeout claim failed", error);
+      // Allow another attempt shortly, e.g. when our clock ran slightly ahead
+      setTimeout(() => { timeoutClaimRef.current = null; }, 1000);
+    });
+  }, [gameId, clocksRunning, sideToMoveMs, gameState?.last_move_at]);
+
+  // Names for whoever holds the seats
+  useEffect(() => {
+    let cancelled = false;
+    fetchProfiles([gameState?.player_white, gameState?.player_black]).then((found) => {
+      if (!cancelled) setProfiles((current) => ({ ...current, ...found }));
+    });
+    return () => { cancelled = true; };
+  }, [gameState?.player_white, gameState?.player_black]);
+
+  // Ratings move when a rated game ends, so look again then
+  const finished = gameState?.status === 'finished';
+  useEffect(() => {
+    let cancelled = false;
+    fetchRatings([gameState?.player_white, gameState?.player_black]).then((found) => {
+      if (!cancelled) setRatings(found);
+    });
+    return () => { cancelled = true; };
+  }, [gameState?.player_white, gameState?.player_black, finished]);
+
+  // Chat history. Which rooms we can read depends on our seat and on
+  // whether the game is over, so reload when either changes.
+  const chatVisibility = `${playerRole}:${gameState?.status === 'finished'}`;
+  useEffect(() => {
+    if (!gameId || !HAS_EXTRAS) return;
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('created_at', { ascending: true })
+      .limit(200)
+      .then(({ data, error }) => {
+        if (error) console.error('Chat fetch failed', error);
+        else setChat(data as ChatMessage[]);
+      });
+  }, [gameId, chatVisibility]);
+
+  // Names for spectators who have written in the chat, each looked up once
+  const requestedProfilesRef = useRef(new Set<string>());
+  useEffect(() => {
+    const unknown = chat
+      .map((m) => m.user_id)
+      .filter((id) => !profiles[id] && !requestedProfilesRef.current.has(id));
+    if (unknown.length === 0) return;
+    unknown.forEach((id) => requestedProfilesRef.current.add(id));
+    fetchProfiles(unknown).then((found) => setProfiles((current) => ({ ...current, ...found })));
+  }, [chat, profiles]);
+
+  // Game and move updates
   useEffect(() => {
     if (!gameId) return;
+    return transport.subscribe(gameId, {
+      onGame: (newData) => {
+        gameUpdated(newData);
+        setViewPly((current) => (current !== null && current >= newData.ply ? null : current));
+
+        if (newData.status === 'finished') {
+           if (newData.termination === 'checkmate') {
+              confetti({
+                  particleCount: 100,
+                  spread: 70,
+                  origin: { y: 0.6 }
+              });
+           }
+        }
+      },
+      onMove: moveInserted,
+      onStatus: (status) => {
+        setConnected(status);
+        if (!status) {
+          wasDisconnectedRef.current = true;
+        } else if (wasDisconnectedRef.current) {
+          // Events may have been missed while we were away; reload everything
+          wasDisconnectedRef.current = false;
+          fetchGame();
+        }
+      },
+    });
+  }, [gameId, fetchGame, gameUpdated, moveInserted]);
+
+  // Chat and presence, which only the Supabase backend offers
+  useEffect(() => {
+    if (!gameId || !HAS_EXTRAS) return;
+    let closed = false;
 
     const channel = supabase
-      .channel(`game_room_${gameId}`)
+      .channel(`game_room_${gameId}`, { config: { presence: { key: userId } } })
       .on(
         'postgres_changes',
-        { event: 'UPDATE', schema: 'public', table: 'games', filter: `id=eq.${gameId}` },
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `game_id=eq.${gameId}` },
         (payload) => {
-          const newData = payload.new as GameState;
-          setGameState(newData);
-          
-          // Sync chess logic
-          const newGame = new Chess(newData.fen);
-          setGame((current) => {
-             if (current.fen() !== newData.fen) return newGame;
-             return current;
-          });
-          
-          if (newData.status === 'finished') {
-             if (newGame.isCheckmate()) {
-                confetti({
-                    particleCount: 100,
-                    spread: 70,
-                    origin: { y: 0.6 }
-                });
-             }
-          }
+            // Row level security only delivers messages from rooms we can read
+            const message = payload.new as ChatMessage;
+            setChat((current) => (current.some((m) => m.id === message.id) ? current : [...current, message]));
         }
       )
-      .on(
-        'postgres_changes',
-        { event: 'INSERT', schema: 'public', table: 'moves', filter: `game_id=eq.${gameId}` },
-        (payload) => {
-            const newMove = payload.new as MoveRecord;
-            setGame(new Chess(newMove.fen_after));
-        }
-      )
-      .subscribe();
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceEntry>();
+        setViewers(Object.values(state).map((entries) => entries[0]));
+      })
+      .subscribe((status) => {
+        if (!closed) setChannelReady(status === 'SUBSCRIBED');
+      });
+    channelRef.current = channel;
 
     return () => {
+      closed = true;
+      channelRef.current = null;
+      setChannelReady(false);
       supabase.removeChannel(channel);
     };
-  }, [gameId]);
+  }, [gameId, userId]);
+
+  // Tell the room who we are and whether this tab is in the foreground
+  useEffect(() => {
+    if (!channelReady) return;
+    channelRef.current?.track({
+      user_id: userId,
+      display_name: profile?.display_name ?? 'Anonymous',
+      status: away ? 'away' : 'online',
+    } satisfies PresenceEntry);
+  }, [channelReady, userId, profile?.display_name, away]);
+
+  useEffect(() => {
+    const onVisibility = () => setAway(document.visibilityState === 'hidden');
+    const onOffline = () => setConnected(false);
+    document.addEventListener('visibilitychange', onVisibility);
+    window.addEventListener('offline', onOffline);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibility);
+      window.removeEventListener('offline', onOffline);
+    };
+  }, []);
+
+  // Players keep a server-side heartbeat, which abandonment claims check
+  const isSeated = playerRole !== 'spectator';
+  const gameOver = gameState?.status === 'finished';
+  useEffect(() => {
+    if (!gameId || !isSeated || gameOver || !HAS_EXTRAS) return;
+    const touch = () => {
+      supabase.rpc('touch_game', { p_game_id: gameId }).then(({ error }) => {
+        if (error) console.error('Heartbeat failed', error);
+      });
+    };
+    touch();
+    const interval = setInterval(touch, HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [gameId, isSeated, gameOver]);
+
+  const opponentId = playerRole === 'w' ? gameState?.player_black : playerRole === 'b' ? gameState?.player_white : null;
+  const opponentPresent = !!opponentId && viewers.some((v) => v.user_id === opponentId);
+  const canClaimAbandonment = HAS_EXTRAS && isSeated && gameState?.status === 'active' && !!opponentId && !opponentPresent;
+
+  useEffect(() => {
+    if (!canClaimAbandonment) {
+      setOpponentGoneSince(null);
+      return;
+    }
+    setOpponentGoneSince((current) => current ?? Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [canClaimAbandonment]);
+
+  // Arrow keys step through the game without touching the live position
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const lastPly = moves.length;
+      const step = (ply: number) => setViewPly(ply >= lastPly ? null : Math.max(0, ply));
+
+      if (e.key === 'ArrowLeft') step((viewPly ?? lastPly) - 1);
+      else if (e.key === 'ArrowRight' && viewPly !== null) step(viewPly + 1);
+      else if (e.key === 'ArrowUp') step(0);
+      else if (e.key === 'ArrowDown') setViewPly(null);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [moves.length, viewPly]);
 
   // Handle Move
-  const onPieceDrop = (sourceSquare: string, targetSquare: string, piece: string): boolean => {
+  const playMove = (sourceSquare: string, targetSquare: string, promotion?: PromotionPiece): boolean => {
     // Basic checks
     if (playerRole === 'spectator') return false;
+    if (viewPly !== null) return false;
     if (game.turn() !== playerRole) return false;
-    if (gameState?.status === 'finished') return false;
-    
-    // ALLOW moves in 'waiting' state so users can test immediately.
-    // We will just implicitly set status to 'active' if it was 'waiting'.
+    // The game starts once both seats are taken
+    if (gameState?.status !== 'active') return false;
 
     try {
-      const gameCopy = new Chess(game.fen());
+      const gameCopy = createChess(game.fen(), gameState?.variant);
       const move = gameCopy.move({
         from: sourceSquare,
         to: targetSquare,
-        promotion: 'q', 
+        promotion,
       });
 
       if (!move) {
@@ -142,40 +375,16 @@ const GameRoom: React.FC = () => {
           return false;
       }
 
-      // Optimistic Update
-      setGame(gameCopy);
-
-      const updateGame = async () => {
-        const newFen = gameCopy.fen();
-        let status = gameState?.status === 'waiting' ? 'active' : (gameState?.status || 'active');
-
-        if (gameCopy.isCheckmate() || gameCopy.isDraw() || gameCopy.isStalemate()) {
-          status = 'finished';
-        }
-
-        const turnText = gameCopy.turn() === 'w' ? 'white' : 'black';
-
-        // 1. Log move
-        const { error: moveError } = await supabase.from('moves').insert({
-          game_id: gameId,
-          from_square: sourceSquare,
-          to_square: targetSquare,
-          fen_after: newFen,
-        });
-
-        if (moveError) console.error("Move insert failed", moveError);
-
-        // 2. Update game state
-        const { error: gameError } = await supabase.from('games').update({
-          fen: newFen,
-          status: status,
-          turn: turnText
-        }).eq('id', gameId);
-        
-        if (gameError) console.error("Game update failed", gameError);
-      };
-
-      updateGame();
+      // Shown straight away; the sync layer sends it (again, if the
+      // connection drops) and takes it back if the server refuses it.
+      // chess.js gives the move as the server expects it, e.g. Chess960
+      // castling as the king taking its own rook
+      submit({
+        ply: game.history().length + 1,
+        from: move.from,
+        to: move.to,
+        promotion: move.promotion as PromotionPiece | undefined,
+      });
       return true;
     } catch (e) {
       console.error("Move execution error:", e);
@@ -183,11 +392,107 @@ const GameRoom: React.FC = () => {
     }
   };
 
+  const onPieceDrop = (sourceSquare: string, targetSquare: string, _piece: string, promotion?: PromotionPiece) =>
+    playMove(sourceSquare, targetSquare, promotion);
+
+  // In-game actions; the server decides and the game row update brings the result
+  const runAction = async (action: GameAction, accept?: boolean) => {
+    if (!gameId) return;
+    setActionPending(true);
+    try {
+      await transport.runAction(gameId, action, accept);
+    } catch (err: any) {
+      console.error(`${action} failed`, err);
+      alert(err.message);
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const claimAbandonment = async (draw: boolean) => {
+    if (!gameId) return;
+    setActionPending(true);
+    const { error } = await supabase.rpc('claim_abandonment', { p_game_id: gameId, p_draw: draw });
+    setActionPending(false);
+    if (error) {
+      console.error('claim_abandonment failed', error);
+      alert(error.message);
+    }
+  };
+
+  const resign = () => {
+    if (window.confirm('Are you sure you want to resign?')) runAction('resign');
+  };
+
+  // Players of an invite-only game fetch the code to put in the link
+  useEffect(() => {
+    if (!gameId || !HAS_EXTRAS || playerRole === 'spectator' || gameState?.status !== 'waiting' || !gameState.invite_only) return;
+    if (inviteCode) return;
+    supabase.rpc('set_invite_only', { p_game_id: gameId, p_enabled: true }).then(({ data, error }) => {
+      if (error) console.error('Invite code fetch failed', error);
+      else setInviteCode(data);
+    });
+  }, [gameId, playerRole, gameState?.status, gameState?.invite_only, inviteCode]);
+
+  const toggleInviteOnly = async () => {
+    if (!gameState) return;
+    const { data, error } = await supabase.rpc('set_invite_only', {
+      p_game_id: gameId,
+      p_enabled: !gameState.invite_only,
+    });
+    if (error) {
+      console.error('Invite-only toggle failed', error);
+      alert(error.message);
+      return;
+    }
+    setInviteCode(data);
+  };
+
+  const sendChat = async (body: string) => {
+    const { data, error } = await supabase.rpc('send_message', { p_game_id: gameId, p_body: body });
+    if (error) throw error;
+    const message = data as ChatMessage;
+    setChat((current) => (current.some((m) => m.id === message.id) ? current : [...current, message]));
+  };
+
   const copyInviteLink = () => {
-    navigator.clipboard.writeText(window.location.href);
+    const link = `${window.location.origin}${window.location.pathname}#/game/${gameId}`;
+    navigator.clipboard.writeText(gameState?.invite_only && inviteCode ? `${link}?invite=${inviteCode}` : link);
     alert('Game link copied to clipboard!');
   };
 
+  const getPgn = () => {
+    if (!gameState) return '';
+    const playerName = (id: string | null) => (id ? displayName(profiles[id]) : '?');
+    return buildPgn({
+      white: playerName(gameState.player_white),
+      black: playerName(gameState.player_black),
+      date: new Date(gameState.created_at),
+      result: gameState.result ?? '*',
+      timeControl: getTimeControl(gameState),
+      termination: pgnTermination(gameState),
+      initialFen: gameState.initial_fen,
+      moves,
+      site: window.location.href,
+      variant: gameState.variant,
+    });
+  };
+
+  const downloadPgn = () => {
+    const blob = new Blob([getPgn()], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `game-${gameId}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyPgn = () => {
+    navigator.clipboard.writeText(getPgn());
+    alert('PGN copied to clipboard!');
+  };
+
   const leaveGame = () => {
     navigate('/');
   };
@@ -213,22 +518,52 @@ const GameRoom: React.FC = () => {
     );
   }
 
-  const isMyTurn = game.turn() === playerRole && gameState?.status !== 'finished';
+  const isMyTurn = game.turn() === playerRole && gameState?.status === 'active';
+  const displayFen = viewPly === null
+    ? game.fen()
+    : viewPly === 0 ? gameState?.initial_fen ?? game.fen() : moves[viewPly - 1].fen_after;
+  // Live, this includes our own moves still on their way to the server
+  const history = game.history({ verbose: true });
+  const latest = history[history.length - 1];
+  const checks = countChecks(history);
+  const lastMove = viewPly === null
+    ? latest ? { ply: history.length, san: latest.san, from_square: latest.from, to_square: latest.to } : null
+    : viewPly > 0 ? moves[viewPly - 1] : null;
+  const bottomColor = playerRole === 'b' ? 'b' : 'w';
+  const seatId = (color: 'w' | 'b') => (color === 'w' ? gameState?.player_white : gameState?.player_black) ?? null;
+  const topId = seatId(bottomColor === 'w' ? 'b' : 'w');
+  const bottomId = seatId(bottomColor);
+  const presenceOf = (id: string | null): PresenceStatus =>
+    viewers.find((v) => v.user_id === id)?.status ?? 'offline';
+  // A rated game's own record of the ratings wins over the players' current ones
+  const ratingFor = (color: 'w' | 'b') => {
+    const id = seatId(color);
+    const category = gameState ? ratingCategory(gameState) : null;
+    if (!gameState || !id || !category || !HAS_EXTRAS) return null;
+    const current = ratingIn(ratings, id, category);
+    const recorded = color === 'w' ? gameState.white_rating : gameState.black_rating;
+    return {
+      rating: recorded === null ? formatRating(current) : `${recorded}${isProvisional(current) ? '?' : ''}`,
+      change: color === 'w' ? gameState.white_rating_change : gameState.black_rating_change,
+    };
+  };
+  // Names lead to the player's profile where there are profiles
+  const playerLink = (id: string | null) =>
+    !id ? 'Waiting...' : HAS_EXTRAS ? (
+      <Link to={`/player/${id}`} className="hover:text-emerald-400">{displayName(profiles[id])}</Link>
+    ) : (
+      displayName(profiles[id])
+    );
+  const topRating = ratingFor(bottomColor === 'w' ? 'b' : 'w');
+  const bottomRating = ratingFor(bottomColor);
+  const spectators = viewers.filter((v) => v.user_id !== gameState?.player_white && v.user_id !== gameState?.player_black);
   const turnColor = game.turn() === 'w' ? 'White' : 'Black';
 
-  let winnerText = '';
-  if (gameState?.status === 'finished') {
-      if (game.isCheckmate()) {
-          const winner = game.turn() === 'w' ? 'Black' : 'White';
-          winnerText = `Winner: ${winner}`;
-      } else {
-          winnerText = 'Game Draw!';
-      }
-  }
+  const winnerText = gameState ? describeResult(gameState) : '';
 
   const getStatusMessage = () => {
     if (gameState?.status === 'finished') return winnerText;
-    if (gameState?.status === 'waiting') return 'Waiting for opponent (You can still move)';
+    if (gameState?.status === 'waiting') return 'Waiting for opponent';
     return `${turnColor}'s Turn ${game.inCheck() ? '(Check!)' : ''}`;
   };
 
@@ -243,83 +578,213 @@ const GameRoom: React.FC = () => {
             <p className="text-lg text-slate-300 font-mono bg-slate-900 px-2 py-1 rounded w-fit mt-2">
                 Code: <span className="text-emerald-400 font-bold">{gameId}</span>
             </p>
+            {gameState && (
+                <p className="text-sm text-slate-400 mt-2 flex items-center gap-1">
+                    <Timer className="w-4 h-4" /> {formatTimeControl(getTimeControl(gameState))}
+                    {HAS_EXTRAS && (gameState.rated ? ' · Rated' : ' · Casual')}
+                </p>
+            )}
+            {gameState && gameState.variant !== 'standard' && (
+                <p className="text-sm text-slate-400 mt-1 flex items-center gap-1" title={VARIANTS[gameState.variant].description}>
+                    <Shuffle className="w-4 h-4" /> {VARIANTS[gameState.variant].label}
+                    {gameState.variant === 'three_check' && ` (checks ${checks.w}-${checks.b})`}
+                </p>
+            )}
+            <p className="text-sm text-slate-400 mt-1 flex items-center gap-1">
+                <Eye className="w-4 h-4" /> {spectators.length} watching
+            </p>
         </div>
 
         <div className="flex-1 space-y-6">
-            <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
-                <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2 flex justify-between items-center">
-                    Game Status
-                    <button onClick={fetchGame} title="Refresh Status" className="text-slate-400 hover:text-white">
-                        <RefreshCw className="w-4 h-4" />
-                    </button>
-                </h3>
-                <div className={`text-lg font-bold flex items-center gap-2 ${
-                    isMyTurn ? 'text-emerald-400' : 'text-white'
-                }`}>
-                    {gameState?.status === 'finished' && <Trophy className="w-5 h-5 text-yellow-400" />}
-                    {getStatusMessage()}
-                </div>
-            </div>
+            <GameStatusCard
+                message={getStatusMessage()}
+                finished={gameState?.status === 'finished'}
+                highlight={isMyTurn}
+                onRefresh={fetchGame}
+            />
+
+            <PlayerRoleCard role={playerRole} />
 
-            <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
-                <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2">You are playing as</h3>
-                <div className="flex items-center gap-2 font-medium">
-                    {playerRole === 'w' && <div className="w-4 h-4 bg-white rounded-full border border-slate-300"></div>}
-                    {playerRole === 'b' && <div className="w-4 h-4 bg-black rounded-full border border-slate-500"></div>}
-                    {playerRole === 'spectator' && <Users className="w-4 h-4" />}
-                    
-                    {playerRole === 'w' && 'White'}
-                    {playerRole === 'b' && 'Black'}
-                    {playerRole === 'spectator' && 'Spectator'}
+            {gameState?.status === 'finished' && (
+                <button
+                    onClick={() => navigate(`/game/${gameId}/analysis`)}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-emerald-600 hover:bg-emerald-500 text-white rounded font-medium transition-colors text-sm"
+                >
+                    <Microscope className="w-4 h-4" /> Analyze Game
+                </button>
+            )}
+
+            {spectators.length > 0 && (
+                <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600">
+                    <h3 className="text-sm uppercase text-slate-400 font-semibold mb-2 flex items-center gap-2">
+                        <Users className="w-4 h-4" /> Spectators ({spectators.length})
+                    </h3>
+                    <ul className="text-sm text-slate-300 space-y-1">
+                        {spectators.map((s) => (
+                            <li key={s.user_id} className="truncate">
+                                {s.display_name}{s.user_id === userId && <span className="text-slate-500"> (you)</span>}
+                            </li>
+                        ))}
+                    </ul>
                 </div>
+            )}
+
+            {canClaimAbandonment && opponentGoneSince !== null && (
+                <AbandonmentClaim
+                    msUntilClaim={ABANDON_GRACE_MS - (now - opponentGoneSince)}
+                    busy={actionPending}
+                    onClaim={claimAbandonment}
+                />
+            )}
+
+            {gameState && (
+                <GameActions
+                    gameState={gameState}
+                    playerRole={playerRole}
+                    busy={actionPending}
+                    onResign={resign}
+                    onOfferDraw={() => runAction('offer_draw')}
+                    onRespondDraw={(accept) => runAction('respond_draw', accept)}
+                    onRequestTakeback={() => runAction('request_takeback')}
+                    onRespondTakeback={(accept) => runAction('respond_takeback', accept)}
+                />
+            )}
+
+            {isSeated && gameState?.status !== 'finished' && (
+                <MoveInput fen={game.fen()} variant={gameState?.variant} disabled={!isMyTurn || viewPly !== null} onMove={playMove} />
+            )}
+
+            <MoveList moves={moves} viewPly={viewPly} onNavigate={setViewPly} />
+
+            {HAS_EXTRAS && (
+                <ChatPanel
+                    messages={chat}
+                    room={isSeated ? 'players' : 'spectators'}
+                    currentUserId={userId}
+                    nameFor={(id) => displayName(profiles[id], viewers.find((v) => v.user_id === id)?.display_name)}
+                    opponentId={opponentId}
+                    opponentMuted={opponentMuted}
+                    onToggleMute={() => setOpponentMuted((m) => !m)}
+                    onSend={sendChat}
+                />
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={downloadPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Download className="w-4 h-4" /> PGN
+                </button>
+                <button
+                    onClick={copyPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Copy className="w-4 h-4" /> Copy PGN
+                </button>
             </div>
 
-            {gameState?.status === 'waiting' && (
-                 <div className="bg-blue-900/30 p-4 rounded-lg border border-blue-800 animate-pulse">
-                    <p className="text-sm text-blue-200 mb-3">Share this code <span className="font-mono font-bold">{gameId}</span> to play!</p>
+            {gameState?.status === 'waiting' && playerRole !== 'spectator' && (
+                 <div className="bg-blue-900/30 p-4 rounded-lg border border-blue-800">
+                    <p className="text-sm text-blue-200 mb-3">
+                        {gameState.invite_only
+                            ? 'Invite only: send the link to your opponent. Others can only watch.'
+                            : <>Share this code <span className="font-mono font-bold">{gameId}</span> to play!</>}
+                    </p>
                     <button 
                         onClick={copyInviteLink}
                         className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded font-medium transition-colors mb-2"
                     >
                         <Copy className="w-4 h-4" /> Copy Link
                     </button>
+                    {HAS_EXTRAS && (
+                        <label className="flex items-center gap-2 text-sm text-blue-200 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={gameState.invite_only}
+                                onChange={toggleInviteOnly}
+                                className="accent-blue-500"
+                            />
+                            Invite only
+                        </label>
+                    )}
+                 </div>
+            )}
+
+            {gameState?.status === 'waiting' && playerRole === 'spectator' && gameState.invite_only && (
+                 <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 text-sm text-slate-300">
+                    This game is invite only. You are watching as a spectator.
                  </div>
             )}
         </div>
 
-        <div className="mt-8 pt-6 border-t border-slate-700">
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
             <button onClick={leaveGame} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
                 <Flag className="w-4 h-4" /> Return to Home
             </button>
+            <SettingsButton />
         </div>
       </div>
 
       <div className="flex-1 flex items-center justify-center p-4 md:p-8 bg-slate-900">
         <div className="flex flex-col items-center gap-4 w-full">
-            <div className="flex items-center gap-3 w-full max-w-[500px] text-slate-400">
-                <div className="w-8 h-8 rounded bg-slate-700 flex items-center justify-center">
-                    {playerRole === 'w' ? 'B' : 'W'}
+            {!connected && (
+                <div className="w-full max-w-[500px] flex items-center gap-2 px-3 py-2 bg-red-900/60 border border-red-700 rounded-lg text-sm text-red-100">
+                    <WifiOff className="w-4 h-4 shrink-0" />
+                    Connection lost. Reconnecting...
+                    {outbox.some((m) => !m.sent) && ' Your move will be sent once we are back.'}
                 </div>
-                <span>
-                   {gameState?.status === 'waiting' ? 'Waiting...' : 'Opponent'}
+            )}
+
+            <div className="flex items-center gap-3 w-full max-w-[500px] text-slate-400">
+                <Avatar profile={topId ? profiles[topId] : null} />
+                {topId && <PresenceDot status={presenceOf(topId)} />}
+                <span className="truncate">
+                   {playerLink(topId)}
                 </span>
+                {topRating && <RatingLabel {...topRating} />}
+                {isTimed && (
+                    <ChessClock
+                        ms={(bottomColor === 'w' ? blackMs : whiteMs) ?? 0}
+                        running={clocksRunning && game.turn() !== bottomColor}
+                    />
+                )}
             </div>
 
             <CustomChessBoard 
-                fen={game.fen()} 
+                fen={displayFen} 
                 onPieceDrop={onPieceDrop}
                 boardOrientation={playerRole === 'b' ? 'black' : 'white'}
-                arePiecesDraggable={gameState?.status !== 'finished' && playerRole !== 'spectator'}
+                arePiecesDraggable={gameState?.status === 'active' && playerRole !== 'spectator' && viewPly === null}
+                lastMove={lastMove}
+                gameOver={gameOver}
+                premoveColor={playerRole === 'spectator' ? undefined : playerRole}
+                variant={gameState?.variant}
             />
 
              <div className="flex items-center gap-3 w-full max-w-[500px] text-slate-200">
-                <div className="w-8 h-8 rounded bg-emerald-700 flex items-center justify-center font-bold">
-                   {playerRole === 'w' ? 'W' : (playerRole === 'b' ? 'B' : 'S')}
-                </div>
-                <span>You</span>
+                <Avatar profile={bottomId ? profiles[bottomId] : null} />
+                {bottomId && <PresenceDot status={presenceOf(bottomId)} />}
+                <span className="truncate">
+                   {playerLink(bottomId)}
+                   {bottomId === userId && <span className="text-slate-500"> (you)</span>}
+                </span>
+                {bottomRating && <RatingLabel {...bottomRating} />}
+                {isTimed && (
+                    <ChessClock
+                        ms={(bottomColor === 'w' ? whiteMs : blackMs) ?? 0}
+                        running={clocksRunning && game.turn() === bottomColor}
+                    />
+                )}
             </div>
         </div>
       </div>
+      <MoveAnnouncer
+        lastMove={latest ? { ply: history.length, san: latest.san, color: latest.color } : null}
+        ownColor={playerRole === 'spectator' ? undefined : playerRole}
+        result={winnerText}
+      />
+      <Toast message={toast} onDismiss={dismissToast} />
     </div>
   );
 };
@@ -1,57 +1,95 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { supabase } from '../lib/supabase';
-import { getUserId } from '../lib/utils';
-import { Play, Search, Crown, AlertCircle, Trash2 } from 'lucide-react';
-import { USER_ID_KEY } from '../constants';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { transport } from '../lib/backend';
+import { useAuth } from '../lib/auth';
+import { Play, Search, Crown, AlertCircle, Trash2, FileText, Cpu, Users, PencilRuler, X } from 'lucide-react';
+import { TimeControl, Variant } from '../types';
+import TimeControlPicker from '../components/TimeControlPicker';
+import PgnImportPanel from '../components/PgnImportPanel';
+import ProfileCard from '../components/ProfileCard';
+import Lobby from '../components/Lobby';
+import MyGames from '../components/MyGames';
+import QuickPlay from '../components/QuickPlay';
+import LocalGameList from '../components/LocalGameList';
+import SettingsButton from '../components/SettingsButton';
+import { ParsedPgn } from '../lib/pgn';
+import { VARIANTS, startingFen } from '../lib/variants';
+import { canBeRated } from '../lib/ratings';
+import { AnalysisLocationState } from './AnalysisBoard';
+
+// Quick play, the lobby, invite links and game history need the Supabase backend
+const HAS_LOBBY = transport.kind === 'supabase';
+
+// What the board editor hands over to start a game from its position
+export interface HomeLocationState {
+  startFen?: string;
+}
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { user, signOut } = useAuth();
+  const editedFen = (location.state as HomeLocationState | null)?.startFen;
   const [joinId, setJoinId] = useState('');
   const [creating, setCreating] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [isPublic, setIsPublic] = useState(true);
+  const [inviteOnly, setInviteOnly] = useState(false);
+  const [creatorColor, setCreatorColor] = useState<'white' | 'black' | 'random'>('white');
+  const [variant, setVariant] = useState<Variant>('standard');
+  // Chess960 start position number; blank picks one at random
+  const [chess960Position, setChess960Position] = useState('');
+  const [rated, setRated] = useState(false);
+  // Untimed games have no rating pool
+  const wantsRated = HAS_LOBBY && rated && timeControl !== null;
 
-  const createGame = async () => {
+  // A game from a given position is played in that position's variant: an imported
+  // PGN's own, or regular chess for a position set up in the board editor
+  const createGame = async (startFen?: string, startVariant: Variant = 'standard') => {
     setCreating(true);
     setErrorMsg(null);
-    const userId = getUserId();
     
-    // Generate a random 4-digit number (1000-9999)
-    const gameId = Math.floor(1000 + Math.random() * 9000).toString();
+    const seat = creatorColor === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : creatorColor;
+    const gameVariant: Variant = startFen ? startVariant : variant;
+    const position = chess960Position.trim() === '' ? undefined : Number(chess960Position);
+    if (gameVariant === 'chess960' && position !== undefined && !(Number.isInteger(position) && position >= 0 && position <= 959)) {
+      setErrorMsg('Chess960 start positions are numbered 0 to 959.');
+      setCreating(false);
+      return;
+    }
+
+    const initialFen = startFen ?? startingFen(gameVariant, position);
 
     try {
-      // Create new game with explicit ID
-      const { data, error } = await supabase
-        .from('games')
-        .insert({
-          id: gameId,
-          player_white: userId,
-          status: 'waiting',
-          fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
-          turn: 'white'
-        })
-        .select()
-        .single();
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        navigate(`/game/${data.id}`);
-      }
+      const gameId = await transport.createGame(user.id, {
+        seat,
+        variant: gameVariant,
+        initialFen,
+        timeControl,
+        isPublic,
+        inviteOnly,
+        rated: wantsRated && canBeRated(gameVariant, initialFen, timeControl),
+      });
+      navigate(`/game/${gameId}`);
     } catch (err: any) {
       console.error('Creation error:', err);
-      // Handle collision or connection error
-      if (err.code === '23505') { // Duplicate key error
-         setErrorMsg('Game ID collision. Please try again.');
-      } else {
-         setErrorMsg(err.message || 'Failed to create game. Please check your connection.');
-      }
+      setErrorMsg(err.message || 'Failed to create game. Please check your connection.');
       setCreating(false);
     }
   };
 
+  const analyzeImport = (parsed: ParsedPgn) => {
+    const state: AnalysisLocationState = {
+      initialFen: parsed.initialFen,
+      sans: parsed.sans,
+      headers: parsed.headers,
+      annotations: parsed.annotations,
+    };
+    navigate('/analysis', { state });
+  };
+
   const joinGame = (e: React.FormEvent) => {
     e.preventDefault();
     if (joinId.trim()) {
@@ -60,9 +98,8 @@ const Home: React.FC = () => {
   };
 
   const resetProfile = () => {
-    if (window.confirm("This will generate a new User ID for you. Use this to simulate a second player in the same browser.")) {
-        localStorage.removeItem(USER_ID_KEY);
-        window.location.reload();
+    if (window.confirm("This will sign you out and start a new guest account. Use this to simulate a second player in the same browser.")) {
+        signOut();
     }
   };
 
@@ -87,8 +124,143 @@ const Home: React.FC = () => {
         </div>
 
         <div className="space-y-4">
+            <ProfileCard />
+
+            {HAS_LOBBY && <MyGames />}
+
+            <TimeControlPicker value={timeControl} onChange={setTimeControl} />
+
+            {HAS_LOBBY && (
+                <div className="flex items-center gap-2">
+                    <span className="w-14 text-xs text-slate-500">Mode</span>
+                    <div className="flex-1 grid grid-cols-2 gap-2">
+                        {[false, true].map((option) => (
+                            <button
+                                key={String(option)}
+                                type="button"
+                                onClick={() => setRated(option)}
+                                disabled={option && timeControl === null}
+                                title={option && timeControl === null ? 'Rated games need a time control' : undefined}
+                                className={`py-2 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    wantsRated === option ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                                }`}
+                            >
+                                {option ? 'Rated' : 'Casual'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {HAS_LOBBY && <QuickPlay timeControl={timeControl} rated={wantsRated} />}
+
+            <div className="flex items-center gap-2">
+                <span className="w-14 text-xs text-slate-500">Play as</span>
+                <div className="flex-1 grid grid-cols-3 gap-2">
+                    {(['white', 'black', 'random'] as const).map((color) => (
+                        <button
+                            key={color}
+                            type="button"
+                            onClick={() => setCreatorColor(color)}
+                            className={`py-2 rounded-lg text-sm font-semibold capitalize transition-colors ${
+                                creatorColor === color ? 'bg-emerald-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'
+                            }`}
+                        >
+                            {color}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {!editedFen && (
+                <>
+                    <div className="flex items-center gap-2">
+                        <span className="w-14 text-xs text-slate-500">Variant</span>
+                        <select
+                            value={variant}
+                            onChange={(e) => setVariant(e.target.value as Variant)}
+                            title={VARIANTS[variant].description}
+                            className="flex-1 bg-slate-800 border border-slate-700 text-white rounded-lg py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        >
+                            {(Object.keys(VARIANTS) as Variant[]).map((v) => (
+                                <option key={v} value={v}>
+                                    {VARIANTS[v].label}
+                                </option>
+                            ))}
+                        </select>
+                        {variant === 'chess960' && (
+                            <input
+                                type="number"
+                                min={0}
+                                max={959}
+                                placeholder="Random"
+                                aria-label="Chess960 start position (0-959)"
+                                title="Start position 0-959, blank for random"
+                                value={chess960Position}
+                                onChange={(e) => setChess960Position(e.target.value)}
+                                className="w-24 bg-slate-800 border border-slate-700 text-white rounded-lg py-2 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500 placeholder:text-slate-500"
+                            />
+                        )}
+                    </div>
+                    {variant !== 'standard' && (
+                        <p className="text-xs text-slate-500 -mt-2">{VARIANTS[variant].description}</p>
+                    )}
+                    {variant !== 'standard' && wantsRated && (
+                        <p className="text-xs text-amber-300 -mt-2">Variant games are always casual.</p>
+                    )}
+                </>
+            )}
+
+            {HAS_LOBBY && (
+                <>
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isPublic && !inviteOnly}
+                            disabled={inviteOnly}
+                            onChange={(e) => setIsPublic(e.target.checked)}
+                            className="accent-emerald-500"
+                        />
+                        List new games in the public lobby
+                    </label>
+
+                    <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={inviteOnly}
+                            onChange={(e) => setInviteOnly(e.target.checked)}
+                            className="accent-emerald-500"
+                        />
+                        Invite only (others can just watch)
+                    </label>
+                </>
+            )}
+
+            {editedFen && (
+                <div className="flex items-center gap-2 p-3 bg-slate-800 border border-slate-700 rounded-lg text-sm text-slate-300">
+                    <PencilRuler className="w-4 h-4 shrink-0 text-emerald-400" />
+                    <span className="flex-1">
+                        New games start from your edited position, with regular rules{wantsRated && ', and are casual'}.
+                    </span>
+                    <button
+                        onClick={() => navigate(`/editor?fen=${encodeURIComponent(editedFen)}`)}
+                        className="text-xs text-emerald-400 hover:text-emerald-300"
+                    >
+                        Edit
+                    </button>
+                    <button
+                        onClick={() => navigate('/', { replace: true, state: null })}
+                        title="Start from the usual position"
+                        aria-label="Start from the usual position"
+                        className="text-slate-500 hover:text-white"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
             <button
-                onClick={createGame}
+                onClick={() => createGame(editedFen)}
                 disabled={creating}
                 className="w-full py-4 bg-emerald-600 hover:bg-emerald-500 active:bg-emerald-700 text-white rounded-xl font-bold text-lg transition-all flex items-center justify-center gap-2 group shadow-lg shadow-emerald-900/20"
             >
@@ -108,6 +280,8 @@ const Home: React.FC = () => {
               </div>
             )}
 
+            {HAS_LOBBY && <Lobby />}
+
             <div className="relative flex items-center py-2">
                 <div className="flex-grow border-t border-slate-700"></div>
                 <span className="flex-shrink-0 mx-4 text-slate-500 text-sm">OR</span>
@@ -134,11 +308,50 @@ const Home: React.FC = () => {
                     Join Game
                 </button>
             </form>
+
+            <button
+                onClick={() => navigate('/computer')}
+                className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-xl font-semibold transition-colors flex items-center justify-center gap-2"
+            >
+                <Cpu className="w-5 h-5" /> Play vs Computer
+            </button>
+
+            <button
+                onClick={() => navigate('/local/new')}
+                className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-xl font-semibold transition-colors flex items-center justify-center gap-2"
+            >
+                <Users className="w-5 h-5" /> Pass and Play
+            </button>
+
+            <button
+                onClick={() => navigate('/editor')}
+                className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-xl font-semibold transition-colors flex items-center justify-center gap-2"
+            >
+                <PencilRuler className="w-5 h-5" /> Board Editor
+            </button>
+
+            <LocalGameList />
+
+            <button
+                onClick={() => setShowImport((v) => !v)}
+                className="w-full flex items-center justify-center gap-2 text-sm text-slate-400 hover:text-white transition-colors"
+            >
+                <FileText className="w-4 h-4" /> {showImport ? 'Hide PGN import' : 'Import PGN'}
+            </button>
+
+            {showImport && (
+                <PgnImportPanel
+                    busy={creating}
+                    onPlay={(parsed) => createGame(parsed.finalFen, parsed.variant)}
+                    onAnalyze={analyzeImport}
+                />
+            )}
         </div>
       </div>
 
       <footer className="z-10 mt-8 flex flex-col items-center gap-2 text-slate-500 text-sm">
         <p>Powered by 1only TakaDori</p>
+        <SettingsButton />
         <button onClick={resetProfile} className="flex items-center gap-1 text-xs text-slate-600 hover:text-red-400 transition-colors">
             <Trash2 className="w-3 h-3" /> Reset Profile (Testing)
         </button>
@@ -0,0 +1,281 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Users, Download, Copy, Flag, RefreshCw, Loader2 } from 'lucide-react';
+import CustomChessBoard from '../components/CustomChessBoard';
+import SettingsButton from '../components/SettingsButton';
+import MoveList from '../components/MoveList';
+import GameActions from '../components/GameActions';
+import GameStatusCard from '../components/GameStatusCard';
+import MoveAnnouncer from '../components/MoveAnnouncer';
+import { LocalGame, PromotionPiece } from '../types';
+import { STARTING_FEN } from '../constants';
+import { getLocalGame, saveLocalGame } from '../lib/localGames';
+import { describeResult, pgnTermination, playLocalMove, replayGame } from '../lib/chess';
+import { buildPgn } from '../lib/pgn';
+
+const newLocalGame = (): LocalGame => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    created_at: now,
+    updated_at: now,
+    auto_flip: false,
+    initial_fen: STARTING_FEN,
+    moves: [],
+    result: null,
+    termination: null,
+  };
+};
+
+/**
+ * Hot-seat game: both sides move on this device. Runs without Supabase;
+ * the game is saved to IndexedDB after every change. "/local/new" starts
+ * a fresh game.
+ */
+const LocalGameRoom: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [localGame, setLocalGame] = useState<LocalGame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const [orientation, setOrientation] = useState<'white' | 'black'>('white');
+
+  useEffect(() => {
+    if (!id) return;
+    if (id === 'new') {
+      const created = newLocalGame();
+      saveLocalGame(created)
+        .then(() => navigate(`/local/${created.id}`, { replace: true }))
+        .catch((err) => {
+          console.error('Saving local game failed', err);
+          setError('Could not save a game on this device.');
+        });
+      return;
+    }
+    getLocalGame(id)
+      .then((found) => {
+        if (found) setLocalGame(found);
+        else setError('This game is not saved on this device.');
+      })
+      .catch((err) => {
+        console.error('Loading local game failed', err);
+        setError('Could not read saved games on this device.');
+      });
+  }, [id, navigate]);
+
+  // Every change goes to IndexedDB straight away
+  const update = (next: LocalGame) => {
+    const stamped = { ...next, updated_at: new Date().toISOString() };
+    setLocalGame(stamped);
+    saveLocalGame(stamped).catch((err) => console.error('Saving local game failed', err));
+  };
+
+  const game = useMemo(
+    () => (localGame ? replayGame(localGame.initial_fen, localGame.moves) : null),
+    [localGame]
+  );
+
+  const moves = localGame?.moves ?? [];
+  const currentPly = viewPly ?? moves.length;
+  const displayFen = !localGame
+    ? STARTING_FEN
+    : currentPly === 0 ? localGame.initial_fen : moves[currentPly - 1].fen_after;
+  const sideToMove = game?.turn() ?? 'w';
+  const boardOrientation = localGame?.auto_flip ? (sideToMove === 'w' ? 'white' : 'black') : orientation;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+
+      const step = (ply: number) => setViewPly(ply >= moves.length ? null : Math.max(0, ply));
+      if (e.key === 'ArrowLeft') step(currentPly - 1);
+      else if (e.key === 'ArrowRight') step(currentPly + 1);
+      else if (e.key === 'ArrowUp') step(0);
+      else if (e.key === 'ArrowDown') setViewPly(null);
+      else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [moves.length, currentPly]);
+
+  const onPieceDrop = (sourceSquare: string, targetSquare: string, piece: string, promotion?: PromotionPiece): boolean => {
+    if (!localGame || localGame.result || viewPly !== null) return false;
+    try {
+      update(playLocalMove(localGame, sourceSquare, targetSquare, promotion));
+      return true;
+    } catch (e) {
+      return false;
+    }
+  };
+
+  const colorName = sideToMove === 'w' ? 'White' : 'Black';
+
+  const resign = () => {
+    if (!localGame || !window.confirm(`${colorName} resigns?`)) return;
+    update({ ...localGame, result: sideToMove === 'w' ? '0-1' : '1-0', termination: 'resignation' });
+  };
+
+  // Both players sit at this device, so an offer is answered on the spot
+  const offerDraw = () => {
+    if (!localGame || !window.confirm('Do both players agree to a draw?')) return;
+    update({ ...localGame, result: '1/2-1/2', termination: 'agreement' });
+  };
+
+  const takeback = () => {
+    if (!localGame || localGame.moves.length === 0) return;
+    setViewPly(null);
+    update({ ...localGame, moves: localGame.moves.slice(0, -1), result: null, termination: null });
+  };
+
+  const getPgn = () => {
+    if (!localGame) return '';
+    return buildPgn({
+      white: 'White',
+      black: 'Black',
+      date: new Date(localGame.created_at),
+      result: localGame.result ?? '*',
+      timeControl: null,
+      termination: pgnTermination(localGame),
+      initialFen: localGame.initial_fen,
+      moves: localGame.moves,
+    });
+  };
+
+  const downloadPgn = () => {
+    const blob = new Blob([getPgn()], { type: 'application/x-chess-pgn' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'local-game.pgn';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const copyPgn = () => {
+    navigator.clipboard.writeText(getPgn());
+    alert('PGN copied to clipboard!');
+  };
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white p-4">
+        <div className="bg-red-900/50 p-6 rounded-lg border border-red-700 text-center">
+            <h2 className="text-xl font-bold mb-2">Error</h2>
+            <p>{error}</p>
+            <button onClick={() => navigate('/')} className="mt-4 px-4 py-2 bg-slate-700 rounded hover:bg-slate-600">
+                Back to Home
+            </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!localGame || !game) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-white">
+        <Loader2 className="w-10 h-10 animate-spin mb-4 text-emerald-500" />
+        <p>Loading game...</p>
+      </div>
+    );
+  }
+
+  const getStatusMessage = () => {
+    if (localGame.result) return describeResult(localGame);
+    return `${colorName}'s Turn ${game.inCheck() ? '(Check!)' : ''}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 flex flex-col md:flex-row">
+      <div className="w-full md:w-80 bg-slate-800 p-6 flex flex-col border-b md:border-b-0 md:border-r border-slate-700">
+        <div className="mb-8">
+            <h1 onClick={() => navigate('/')} className="text-2xl font-bold text-emerald-400 cursor-pointer flex items-center gap-2 mb-1">
+                <Users className="w-6 h-6" />
+                Pass and Play
+            </h1>
+            <p className="text-sm text-slate-400 mt-2">Saved on this device</p>
+        </div>
+
+        <div className="flex-1 space-y-6">
+            <GameStatusCard message={getStatusMessage()} finished={!!localGame.result} highlight={false} />
+
+            <GameActions
+                gameState={{
+                  status: localGame.result ? 'finished' : 'active',
+                  ply: localGame.moves.length,
+                  draw_offer: null,
+                  takeback_offer: null,
+                }}
+                playerRole={sideToMove}
+                busy={false}
+                onResign={resign}
+                onOfferDraw={offerDraw}
+                onRequestTakeback={takeback}
+            />
+
+            <MoveList moves={moves} viewPly={viewPly} onNavigate={setViewPly} />
+
+            <div className="bg-slate-700/50 p-4 rounded-lg border border-slate-600 space-y-3">
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={localGame.auto_flip}
+                        onChange={(e) => update({ ...localGame, auto_flip: e.target.checked })}
+                        className="accent-emerald-500"
+                    />
+                    Flip the board after each move
+                </label>
+                <button
+                    onClick={() => setOrientation((o) => (o === 'white' ? 'black' : 'white'))}
+                    disabled={localGame.auto_flip}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm disabled:opacity-50"
+                >
+                    <RefreshCw className="w-4 h-4" /> Flip Board
+                </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                <button
+                    onClick={downloadPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Download className="w-4 h-4" /> PGN
+                </button>
+                <button
+                    onClick={copyPgn}
+                    className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors text-sm"
+                >
+                    <Copy className="w-4 h-4" /> Copy PGN
+                </button>
+            </div>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-slate-700 flex items-center justify-between">
+            <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+                <Flag className="w-4 h-4" /> Return to Home
+            </button>
+            <SettingsButton />
+        </div>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 md:p-8 bg-slate-900">
+        <CustomChessBoard
+            fen={displayFen}
+            onPieceDrop={onPieceDrop}
+            boardOrientation={boardOrientation}
+            arePiecesDraggable={!localGame.result && viewPly === null}
+            lastMove={currentPly > 0 ? moves[currentPly - 1] : null}
+            gameOver={!!localGame.result}
+        />
+      </div>
+      <MoveAnnouncer
+        lastMove={moves[moves.length - 1] ?? null}
+        result={describeResult(localGame)}
+      />
+    </div>
+  );
+};
+
+export default LocalGameRoom;
@@ -0,0 +1,336 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Archive, ChevronLeft, ChevronRight, Flag, Loader2, Search, User } from 'lucide-react';
+import Avatar from '../components/Avatar';
+import SettingsButton from '../components/SettingsButton';
+import { transport } from '../lib/backend';
+import { useAuth } from '../lib/auth';
+import { displayName, fetchProfiles } from '../lib/profiles';
+import { RatingBook, fetchRatings, formatRating, formatRatingChange } from '../lib/ratings';
+import { TERMINATION_LABELS } from '../lib/chess';
+import { formatTimeControl, getTimeControl } from '../lib/timeControl';
+import { VARIANTS } from '../lib/variants';
+import {
+  ARCHIVE_PAGE_SIZE,
+  ArchiveFilters,
+  ColorRecord,
+  NO_FILTERS,
+  PlayerOutcome,
+  fetchPlayerGames,
+  fetchPlayerRecord,
+  outcomeFor,
+} from '../lib/playerGames';
+import { GameState, Profile, Termination, TimeControlCategory } from '../types';
+
+// Profiles and the archive read Supabase; the self-hosted server keeps no history
+const HAS_HISTORY = transport.kind === 'supabase';
+
+const OUTCOME_STYLES: Record<PlayerOutcome, { label: string; className: string }> = {
+  win: { label: 'Win', className: 'text-emerald-400' },
+  draw: { label: 'Draw', className: 'text-slate-300' },
+  loss: { label: 'Loss', className: 'text-red-400' },
+};
+
+const CATEGORIES: TimeControlCategory[] = ['bullet', 'blitz', 'rapid', 'classical'];
+
+const RecordRow: React.FC<{ label: string; record: ColorRecord }> = ({ label, record }) => {
+  const total = record.wins + record.draws + record.losses;
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="flex-1 text-slate-300">{label}</span>
+      <span className="w-12 text-right text-emerald-400">{record.wins}</span>
+      <span className="w-12 text-right text-slate-300">{record.draws}</span>
+      <span className="w-12 text-right text-red-400">{record.losses}</span>
+      <span className="w-16 text-right text-slate-500">{total > 0 ? `${Math.round((100 * (record.wins + record.draws / 2)) / total)}%` : '-'}</span>
+    </div>
+  );
+};
+
+const PlayerProfile: React.FC = () => {
+  const { id: playerId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [profiles, setProfiles] = useState<Record<string, Profile>>({});
+  const [ratings, setRatings] = useState<RatingBook>({});
+  const [record, setRecord] = useState<Record<'w' | 'b', ColorRecord> | null>(null);
+  const [games, setGames] = useState<GameState[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  // What the form shows, and what the archive was last loaded with
+  const [filters, setFilters] = useState<ArchiveFilters>(NO_FILTERS);
+  const [applied, setApplied] = useState<ArchiveFilters>(NO_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!playerId || !HAS_HISTORY) return;
+    // Another player's profile starts over from an unfiltered first page
+    setRecord(null);
+    setFilters(NO_FILTERS);
+    setApplied(NO_FILTERS);
+    setPage(0);
+    fetchProfiles([playerId]).then((found) => setProfiles((current) => ({ ...current, ...found })));
+    fetchRatings([playerId]).then(setRatings);
+    fetchPlayerRecord(playerId)
+      .then(setRecord)
+      .catch((err: any) => console.error('Loading results failed', err));
+  }, [playerId]);
+
+  useEffect(() => {
+    if (!playerId || !HAS_HISTORY) return;
+    let cancelled = false;
+    setLoading(true);
+    fetchPlayerGames(playerId, applied, page)
+      .then(async (result) => {
+        if (cancelled) return;
+        setGames(result.games);
+        setTotal(result.total);
+        setError(null);
+        const found = await fetchProfiles(result.games.flatMap((g) => [g.player_white, g.player_black]));
+        if (!cancelled) setProfiles((current) => ({ ...current, ...found }));
+      })
+      .catch((err: any) => {
+        console.error('Loading games failed', err);
+        if (!cancelled) setError(err.message || 'Could not load games.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [playerId, applied, page]);
+
+  const homeLink = (
+    <div className="flex items-center justify-between">
+        <button onClick={() => navigate('/')} className="text-slate-400 hover:text-white flex items-center gap-2 text-sm transition-colors">
+            <Flag className="w-4 h-4" /> Return to Home
+        </button>
+        <SettingsButton />
+    </div>
+  );
+
+  if (!playerId) return null;
+  if (!HAS_HISTORY) {
+    return (
+      <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+            {homeLink}
+            <p className="text-slate-400 text-center py-12">Player profiles need the Supabase backend.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const profile = profiles[playerId];
+  const pages = Math.max(1, Math.ceil(total / ARCHIVE_PAGE_SIZE));
+  const overall: ColorRecord | null = record && {
+    wins: record.w.wins + record.b.wins,
+    draws: record.w.draws + record.b.draws,
+    losses: record.w.losses + record.b.losses,
+  };
+  const ratedCategories = CATEGORIES.filter((c) => ratings[playerId]?.[c]);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setApplied(filters);
+    setPage(0);
+  };
+
+  // Finished games open in the read-only review, ongoing ones in their room
+  const openGame = (g: GameState) => navigate(g.status === 'finished' ? `/game/${g.id}/analysis` : `/game/${g.id}`);
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100 p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {homeLink}
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 flex items-center gap-4">
+            <Avatar profile={profile} size="md" />
+            <div className="flex-1 min-w-0">
+                <h1 className="text-2xl font-bold truncate flex items-center gap-2">
+                    <User className="w-5 h-5 text-emerald-400 shrink-0" />
+                    {displayName(profile)}
+                    {playerId === user.id && <span className="text-sm font-normal text-slate-500">(you)</span>}
+                </h1>
+                <div className="flex flex-wrap gap-3 mt-1 text-sm text-slate-400">
+                    {ratedCategories.length === 0
+                        ? 'No rated games yet'
+                        : ratedCategories.map((c) => (
+                            <span key={c} className="capitalize">
+                                {c} <span className="font-mono text-slate-200">{formatRating(ratings[playerId]![c]!)}</span>
+                            </span>
+                        ))}
+                </div>
+            </div>
+        </div>
+
+        {overall && record && (
+            <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                    {(['wins', 'draws', 'losses'] as const).map((key) => (
+                        <div key={key}>
+                            <div className={`text-3xl font-bold ${key === 'wins' ? 'text-emerald-400' : key === 'losses' ? 'text-red-400' : 'text-slate-200'}`}>
+                                {overall[key]}
+                            </div>
+                            <div className="text-xs uppercase text-slate-400 font-semibold">{key}</div>
+                        </div>
+                    ))}
+                </div>
+                <div className="space-y-1 border-t border-slate-700 pt-4">
+                    <div className="flex items-center gap-2 text-xs uppercase text-slate-500 font-semibold">
+                        <span className="flex-1">By colour</span>
+                        <span className="w-12 text-right">W</span>
+                        <span className="w-12 text-right">D</span>
+                        <span className="w-12 text-right">L</span>
+                        <span className="w-16 text-right">Score</span>
+                    </div>
+                    <RecordRow label="As White" record={record.w} />
+                    <RecordRow label="As Black" record={record.b} />
+                </div>
+            </div>
+        )}
+
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 space-y-4">
+            <h2 className="text-sm uppercase text-slate-400 font-semibold flex items-center gap-2">
+                <Archive className="w-4 h-4" /> Games ({total})
+            </h2>
+
+            <form onSubmit={applyFilters} className="grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+                <input
+                    type="text"
+                    placeholder="Opponent"
+                    aria-label="Opponent"
+                    value={filters.opponent}
+                    onChange={(e) => setFilters({ ...filters, opponent: e.target.value })}
+                    className="md:col-span-2 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-emerald-500 placeholder:text-slate-500"
+                />
+                <select
+                    aria-label="Result"
+                    value={filters.result}
+                    onChange={(e) => setFilters({ ...filters, result: e.target.value as ArchiveFilters['result'] })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5"
+                >
+                    <option value="">Any result</option>
+                    {(Object.keys(OUTCOME_STYLES) as PlayerOutcome[]).map((o) => (
+                        <option key={o} value={o}>{OUTCOME_STYLES[o].label}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Ended by"
+                    value={filters.termination}
+                    onChange={(e) => setFilters({ ...filters, termination: e.target.value as ArchiveFilters['termination'] })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5"
+                >
+                    <option value="">Any ending</option>
+                    {(Object.keys(TERMINATION_LABELS) as Termination[]).map((t) => (
+                        <option key={t} value={t}>{TERMINATION_LABELS[t]}</option>
+                    ))}
+                </select>
+                <input
+                    type="date"
+                    aria-label="From"
+                    value={filters.from}
+                    onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5"
+                />
+                <input
+                    type="date"
+                    aria-label="To"
+                    value={filters.to}
+                    onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                    className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5"
+                />
+                <button
+                    type="submit"
+                    className="col-span-2 md:col-span-6 flex items-center justify-center gap-2 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded font-medium transition-colors"
+                >
+                    <Search className="w-4 h-4" /> Search
+                </button>
+            </form>
+
+            {error && <p className="text-sm text-red-300">{error}</p>}
+
+            {loading ? (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="w-6 h-6 animate-spin text-slate-500" />
+                </div>
+            ) : games.length === 0 ? (
+                <p className="text-sm text-slate-500 text-center py-6">No games found.</p>
+            ) : (
+                <ul className="divide-y divide-slate-700">
+                    {games.map((g) => {
+                        const color = g.player_white === playerId ? 'w' : 'b';
+                        const opponentId = color === 'w' ? g.player_black : g.player_white;
+                        const outcome = outcomeFor(g, playerId);
+                        const ratingChange = color === 'w' ? g.white_rating_change : g.black_rating_change;
+                        return (
+                            <li key={g.id} className="flex items-center gap-3 py-2 text-sm">
+                                <span
+                                    className={`w-3 h-3 rounded-full border shrink-0 ${color === 'w' ? 'bg-white border-slate-300' : 'bg-black border-slate-500'}`}
+                                    title={color === 'w' ? 'Played White' : 'Played Black'}
+                                />
+                                <span className="flex-1 min-w-0 truncate">
+                                    {opponentId ? (
+                                        <Link to={`/player/${opponentId}`} className="hover:text-emerald-400">
+                                            {displayName(profiles[opponentId])}
+                                        </Link>
+                                    ) : (
+                                        '?'
+                                    )}
+                                    <span className="text-slate-500">
+                                        {' · '}{formatTimeControl(getTimeControl(g))}
+                                        {g.variant !== 'standard' && ` · ${VARIANTS[g.variant].label}`}
+                                        {g.rated && ' · Rated'}
+                                    </span>
+                                </span>
+                                <span className={`w-24 text-right ${outcome ? OUTCOME_STYLES[outcome].className : 'text-amber-300'}`}>
+                                    {outcome ? OUTCOME_STYLES[outcome].label : 'In progress'}
+                                    {ratingChange !== null && (
+                                        <span className="text-xs text-slate-500"> ({formatRatingChange(ratingChange)})</span>
+                                    )}
+                                </span>
+                                <span className="hidden md:block w-40 text-slate-400 truncate">
+                                    {g.termination ? TERMINATION_LABELS[g.termination] : ''}
+                                </span>
+                                <span className="hidden md:block w-24 text-right text-slate-500">
+                                    {new Date(g.created_at).toLocaleDateString()}
+                                </span>
+                                <button
+                                    onClick={() => openGame(g)}
+                                    className="px-3 py-1 bg-emerald-600 hover:bg-emerald-500 rounded font-semibold text-xs"
+                                >
+                                    {g.status === 'finished' ? 'Replay' : 'Open'}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {pages > 1 && (
+                <div className="flex items-center justify-center gap-4 text-sm text-slate-400">
+                    <button
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        aria-label="Previous page"
+                        className="p-1 rounded hover:bg-slate-700 disabled:opacity-30"
+                    >
+                        <ChevronLeft className="w-5 h-5" />
+                    </button>
+                    Page {page + 1} of {pages}
+                    <button
+                        onClick={() => setPage(page + 1)}
+                        disabled={page + 1 >= pages}
+                        aria-label="Next page"
+                        className="p-1 rounded hover:bg-slate-700 disabled:opacity-30"
+                    >
+                        <ChevronRight className="w-5 h-5" />
+                    </button>
+                </div>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerProfile;
@@ -1 +1,2010 @@
-�
\ No newline at end of file
+-- Supabase schema for TakaDori online Chess.
+-- Run this in the SQL editor of a fresh project. Clients only ever read
+-- directly; every write that changes the position goes through an RPC.
+
+-- =========================================================================
+-- Tables
+-- =========================================================================
+
+create table if not exists games (
+  id text primary key,
+  created_at timestamptz not null default now(),
+  player_white uuid,
+  player_black uuid,
+  fen text not null default 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  -- Position before the first move; differs from the standard start for
+  -- games created from an imported position.
+  initial_fen text not null default 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+  -- Rules the game is played under; see chess_try_move.
+  variant text not null default 'standard'
+    check (variant in ('standard', 'chess960', 'king_of_the_hill', 'three_check', 'horde')),
+  status text not null default 'waiting' check (status in ('waiting', 'active', 'finished')),
+  turn text not null default 'white' check (turn in ('white', 'black')),
+  -- Time control; base_seconds is null for untimed games.
+  base_seconds int check (base_seconds > 0),
+  increment_seconds int not null default 0 check (increment_seconds >= 0),
+  -- Remaining time of each side as of last_move_at. The side to move has
+  -- been running since last_move_at, which is null until the first move.
+  white_time_ms bigint,
+  black_time_ms bigint,
+  last_move_at timestamptz,
+  -- Number of moves played, i.e. the ply of the last row in moves.
+  ply int not null default 0,
+  -- Side with a pending offer; cleared by the answer or the next move.
+  draw_offer text check (draw_offer in ('w', 'b')),
+  takeback_offer text check (takeback_offer in ('w', 'b')),
+  -- Set by the server when the game finishes, never by clients.
+  result text check (result in ('1-0', '0-1', '1/2-1/2')),
+  termination text check (termination in (
+    'checkmate', 'stalemate', 'repetition', 'fifty_move', 'insufficient_material',
+    'resignation', 'timeout', 'agreement', 'abandonment',
+    'king_in_center', 'third_check', 'horde_captured'
+  )),
+  -- Listed in the lobby on Home while waiting for an opponent.
+  is_public boolean not null default false,
+  -- Only visitors holding the invite code may take the open seat.
+  invite_only boolean not null default false,
+  -- Rated games move both players' ratings when they finish; see rate_game.
+  rated boolean not null default false,
+  -- Each side's rating in the game's time-control category: as of the
+  -- start, then as of the end together with how much it moved. Only set
+  -- for rated games, and only by rate_game.
+  white_rating int,
+  black_rating int,
+  white_rating_change int,
+  black_rating_change int,
+  -- Bumped on every update so clients can drop realtime events that
+  -- arrive after a newer state.
+  version bigint not null default 0,
+  -- Ratings only compare regular, timed games from the usual start.
+  check (not rated or (
+    variant = 'standard'
+    and base_seconds is not null
+    and initial_fen = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
+  ))
+);
+
+-- Invite codes for invite-only games, kept apart from the publicly
+-- readable games table.
+create table if not exists game_invites (
+  game_id text primary key references games (id) on delete cascade,
+  code text not null default replace(gen_random_uuid()::text, '-', '')
+);
+
+create table if not exists moves (
+  id uuid primary key default gen_random_uuid(),
+  game_id text not null references games (id) on delete cascade,
+  ply int not null,
+  color text not null check (color in ('w', 'b')),
+  from_square text not null,
+  to_square text not null,
+  promotion text check (promotion in ('q', 'r', 'b', 'n')),
+  san text not null,
+  uci text not null,
+  fen_after text not null,
+  created_at timestamptz not null default now(),
+  unique (game_id, ply)
+);
+
+create table if not exists profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null check (char_length(display_name) between 1 and 30),
+  avatar_url text,
+  created_at timestamptz not null default now()
+);
+
+-- Glicko-2 rating of each player in each time-control category. Players
+-- without a row count as 1500 with the largest deviation; see player_rating.
+create table if not exists ratings (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  category text not null check (category in ('bullet', 'blitz', 'rapid', 'classical')),
+  rating double precision not null default 1500,
+  deviation double precision not null default 350,
+  volatility double precision not null default 0.06,
+  games int not null default 0,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, category)
+);
+
+-- Board and sound preferences, readable only by their owner. The shape of
+-- `settings` belongs to the client.
+create table if not exists user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  settings jsonb not null default '{}',
+  updated_at timestamptz not null default now()
+);
+
+-- Ids that browsers generated for themselves before accounts existed, and
+-- the account each one was merged into. Game rows hold a stand-in id until
+-- then, so the real one stays known only to the browser that made it up.
+create table if not exists legacy_identities (
+  legacy_id uuid primary key,
+  stand_in_id uuid not null unique default gen_random_uuid(),
+  user_id uuid references auth.users (id) on delete cascade,
+  migrated_at timestamptz
+);
+
+-- In-game chat. Players and spectators talk in separate rooms so nobody
+-- watching can pass moves to a player; both open up once the game ends.
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  game_id text not null references games (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  audience text not null check (audience in ('players', 'spectators')),
+  body text not null check (char_length(body) between 1 and 200),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists messages_game_idx on messages (game_id, created_at);
+
+-- Last heartbeat of each player in a game. Kept out of games so the
+-- heartbeats don't broadcast game updates; abandonment claims check it.
+create table if not exists game_presence (
+  game_id text not null references games (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  seen_at timestamptz not null default now(),
+  primary key (game_id, user_id)
+);
+
+-- Arrows and circles drawn on a position of a finished game, saved for
+-- everyone who reviews it. One set per viewer and position; ply 0 is the
+-- starting position.
+create table if not exists move_annotations (
+  game_id text not null references games (id) on delete cascade,
+  ply int not null check (ply >= 0),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  arrows jsonb not null default '[]' check (jsonb_typeof(arrows) = 'array' and jsonb_array_length(arrows) <= 64),
+  circles jsonb not null default '[]' check (jsonb_typeof(circles) = 'array' and jsonb_array_length(circles) <= 64),
+  updated_at timestamptz not null default now(),
+  primary key (game_id, ply, user_id)
+);
+
+-- Players waiting for Quick play. Rows whose owner stopped polling go stale
+-- and are dropped; a matched row points at the new game until picked up.
+create table if not exists matchmaking_queue (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  base_seconds int check (base_seconds > 0),
+  increment_seconds int not null default 0 check (increment_seconds >= 0),
+  rated boolean not null default false,
+  joined_at timestamptz not null default now(),
+  seen_at timestamptz not null default now(),
+  game_id text references games (id) on delete cascade
+);
+
+-- =========================================================================
+-- Identity
+-- =========================================================================
+
+-- The caller's player id: their Supabase Auth user, anonymous or not. It
+-- comes from the request's signed JWT, so nothing the client merely states
+-- about itself is trusted. Policies and RPCs compare seats against this value only.
+create or replace function player_id() returns uuid
+language sql stable as $$
+  select auth.uid();
+$$;
+
+-- Every new account gets a profile; guests start as "Guest XXXX".
+create or replace function handle_new_user() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into profiles (id, display_name)
+  values (
+    new.id,
+    coalesce(nullif(new.raw_user_meta_data ->> 'display_name', ''), 'Guest ' || upper(left(new.id::text, 4)))
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created on auth.users;
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function handle_new_user();
+
+create or replace function bump_game_version() returns trigger
+language plpgsql as $$
+begin
+  new.version := old.version + 1;
+  return new;
+end;
+$$;
+
+drop trigger if exists games_version on games;
+create trigger games_version
+  before update on games
+  for each row execute function bump_game_version();
+
+-- The caller's colour in the given game, or null when not seated.
+create or replace function player_color(g games) returns text
+language sql stable as $$
+  select case
+    when player_id() is null then null
+    when g.player_white = player_id() then 'w'
+    when g.player_black = player_id() then 'b'
+  end;
+$$;
+
+-- =========================================================================
+-- Chess rules
+--
+-- Positions are handled as a 64 character string, index 0 = a8 and
+-- index 63 = h1 (the same order as FEN), '.' for an empty square.
+-- =========================================================================
+
+create or replace function chess_expand_board(placement text) returns text
+language plpgsql immutable as $$
+declare
+  result text := '';
+  ch text;
+begin
+  foreach ch in array regexp_split_to_array(replace(placement, '/', ''), '') loop
+    if ch ~ '^[1-8]$' then
+      result := result || repeat('.', ch::int);
+    else
+      result := result || ch;
+    end if;
+  end loop;
+  if length(result) <> 64 then
+    raise exception 'Invalid board: %', placement;
+  end if;
+  return result;
+end;
+$$;
+
+create or replace function chess_pack_board(board text) returns text
+language plpgsql immutable as $$
+declare
+  result text := '';
+  empty int;
+  ch text;
+begin
+  for r in 0..7 loop
+    empty := 0;
+    for c in 0..7 loop
+      ch := substr(board, r * 8 + c + 1, 1);
+      if ch = '.' then
+        empty := empty + 1;
+      else
+        if empty > 0 then
+          result := result || empty;
+          empty := 0;
+        end if;
+        result := result || ch;
+      end if;
+    end loop;
+    if empty > 0 then
+      result := result || empty;
+    end if;
+    if r < 7 then
+      result := result || '/';
+    end if;
+  end loop;
+  return result;
+end;
+$$;
+
+create or replace function chess_square_index(square text) returns int
+language sql immutable as $$
+  select case
+    when square ~ '^[a-h][1-8]$'
+      then (8 - substr(square, 2, 1)::int) * 8 + (ascii(substr(square, 1, 1)) - 97)
+  end;
+$$;
+
+create or replace function chess_square_name(idx int) returns text
+language sql immutable as $$
+  select chr(97 + idx % 8) || (8 - idx / 8);
+$$;
+
+create or replace function chess_piece_color(piece text) returns text
+language sql immutable as $$
+  select case
+    when piece is null or piece = '.' then null
+    when piece = upper(piece) then 'w'
+    else 'b'
+  end;
+$$;
+
+-- Piece letter for the given side, e.g. ('n', 'w') -> 'N'.
+create or replace function chess_side_piece(piece_type text, color text) returns text
+language sql immutable as $$
+  select case when color = 'w' then upper(piece_type) else lower(piece_type) end;
+$$;
+
+create or replace function chess_is_attacked(board text, idx int, by_color text) returns boolean
+language plpgsql immutable as $$
+declare
+  r int := idx / 8;
+  c int := idx % 8;
+  rr int;
+  cc int;
+  p text;
+  d int[];
+  knight_steps int[] := array[[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+  king_steps int[] := array[[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+  rook_dirs int[] := array[[-1, 0], [1, 0], [0, -1], [0, 1]];
+  bishop_dirs int[] := array[[-1, -1], [-1, 1], [1, -1], [1, 1]];
+begin
+  -- Pawns attack towards the opponent, so look one row back from their side.
+  rr := r + case when by_color = 'w' then 1 else -1 end;
+  foreach cc in array array[c - 1, c + 1] loop
+    if rr between 0 and 7 and cc between 0 and 7
+       and substr(board, rr * 8 + cc + 1, 1) = chess_side_piece('p', by_color) then
+      return true;
+    end if;
+  end loop;
+
+  foreach d slice 1 in array knight_steps loop
+    rr := r + d[1];
+    cc := c + d[2];
+    if rr between 0 and 7 and cc between 0 and 7
+       and substr(board, rr * 8 + cc + 1, 1) = chess_side_piece('n', by_color) then
+      return true;
+    end if;
+  end loop;
+
+  foreach d slice 1 in array king_steps loop
+    rr := r + d[1];
+    cc := c + d[2];
+    if rr between 0 and 7 and cc between 0 and 7
+       and substr(board, rr * 8 + cc + 1, 1) = chess_side_piece('k', by_color) then
+      return true;
+    end if;
+  end loop;
+
+  foreach d slice 1 in array rook_dirs loop
+    rr := r + d[1];
+    cc := c + d[2];
+    while rr between 0 and 7 and cc between 0 and 7 loop
+      p := substr(board, rr * 8 + cc + 1, 1);
+      if p <> '.' then
+        if p in (chess_side_piece('r', by_color), chess_side_piece('q', by_color)) then
+          return true;
+        end if;
+        exit;
+      end if;
+      rr := rr + d[1];
+      cc := cc + d[2];
+    end loop;
+  end loop;
+
+  foreach d slice 1 in array bishop_dirs loop
+    rr := r + d[1];
+    cc := c + d[2];
+    while rr between 0 and 7 and cc between 0 and 7 loop
+      p := substr(board, rr * 8 + cc + 1, 1);
+      if p <> '.' then
+        if p in (chess_side_piece('b', by_color), chess_side_piece('q', by_color)) then
+          return true;
+        end if;
+        exit;
+      end if;
+      rr := rr + d[1];
+      cc := cc + d[2];
+    end loop;
+  end loop;
+
+  return false;
+end;
+$$;
+
+create or replace function chess_in_check(fen text) returns boolean
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  side text := split_part(fen, ' ', 2);
+  king int := strpos(board, chess_side_piece('k', side)) - 1;
+begin
+  return king >= 0 and chess_is_attacked(board, king, case when side = 'w' then 'b' else 'w' end);
+end;
+$$;
+
+-- Plays from -> to on the given position. Returns the resulting FEN, or null
+-- when the move is not legal.
+--
+-- In Chess960 the castling field holds the files of the rooks that may
+-- still castle (Shredder-FEN, e.g. 'HAha') and the king castles by moving
+-- onto its own rook. In Horde White plays without a king and its pawns may
+-- also double-step from the first rank.
+drop function if exists chess_try_move(text, text, text, text);
+create or replace function chess_try_move(
+  fen text, from_sq text, to_sq text, promotion text default null, variant text default 'standard'
+)
+returns text
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  side text := split_part(fen, ' ', 2);
+  enemy text := case when split_part(fen, ' ', 2) = 'w' then 'b' else 'w' end;
+  castling text := split_part(fen, ' ', 3);
+  ep text := split_part(fen, ' ', 4);
+  halfmove int := coalesce(nullif(split_part(fen, ' ', 5), '')::int, 0);
+  fullmove int := coalesce(nullif(split_part(fen, ' ', 6), '')::int, 1);
+  fi int := chess_square_index(from_sq);
+  ti int := chess_square_index(to_sq);
+  piece text;
+  target text;
+  kind text;
+  fr int; fc int; tr int; tc int; dr int; dc int;
+  step_r int; step_c int; rr int; cc int;
+  dir int;
+  home_row int;
+  castle_side text;
+  new_ep text := '-';
+  is_capture boolean;
+  rook_from int;
+  rook_to int;
+  king int;
+  king_to int;
+  castled boolean := false;
+  new_castling text;
+  corner record;
+begin
+  if fi is null or ti is null or fi = ti then
+    return null;
+  end if;
+
+  piece := substr(board, fi + 1, 1);
+  target := substr(board, ti + 1, 1);
+  if chess_piece_color(piece) is distinct from side then
+    return null;
+  end if;
+  -- Only a Chess960 king may move onto its own piece: its rook, to castle.
+  if chess_piece_color(target) = side
+     and not (variant = 'chess960' and lower(piece) = 'k' and lower(target) = 'r') then
+    return null;
+  end if;
+
+  kind := lower(piece);
+  home_row := case when side = 'w' then 7 else 0 end;
+  fr := fi / 8; fc := fi % 8;
+  tr := ti / 8; tc := ti % 8;
+  dr := tr - fr; dc := tc - fc;
+  is_capture := target <> '.';
+
+  if kind = 'p' then
+    dir := case when side = 'w' then -1 else 1 end;
+    if dc = 0 and dr = dir and target = '.' then
+      null;
+    elsif dc = 0 and dr = 2 * dir and (fr = home_row + dir or (variant = 'horde' and fr = home_row))
+          and target = '.' and substr(board, (fr + dir) * 8 + fc + 1, 1) = '.' then
+      new_ep := chess_square_name((fr + dir) * 8 + fc);
+    elsif abs(dc) = 1 and dr = dir and is_capture then
+      null;
+    elsif abs(dc) = 1 and dr = dir and to_sq = ep then
+      board := overlay(board placing '.' from fr * 8 + tc + 1 for 1);
+      is_capture := true;
+    else
+      return null;
+    end if;
+
+    if tr = 7 - home_row then
+      if promotion is null or promotion not in ('q', 'r', 'b', 'n') then
+        return null;
+      end if;
+      piece := chess_side_piece(promotion, side);
+    end if;
+
+  elsif kind = 'n' then
+    if not ((abs(dr) = 1 and abs(dc) = 2) or (abs(dr) = 2 and abs(dc) = 1)) then
+      return null;
+    end if;
+
+  elsif kind in ('b', 'r', 'q') then
+    if kind = 'b' and abs(dr) <> abs(dc) then
+      return null;
+    elsif kind = 'r' and dr <> 0 and dc <> 0 then
+      return null;
+    elsif kind = 'q' and abs(dr) <> abs(dc) and dr <> 0 and dc <> 0 then
+      return null;
+    end if;
+    step_r := sign(dr);
+    step_c := sign(dc);
+    rr := fr + step_r;
+    cc := fc + step_c;
+    while rr <> tr or cc <> tc loop
+      if substr(board, rr * 8 + cc + 1, 1) <> '.' then
+        return null;
+      end if;
+      rr := rr + step_r;
+      cc := cc + step_c;
+    end loop;
+
+  elsif kind = 'k' and variant = 'chess960' and chess_piece_color(target) = side then
+    if fr <> home_row or tr <> home_row or strpos(castling, chess_side_piece(chr(97 + tc), side)) = 0 then
+      return null;
+    end if;
+    king_to := fr * 8 + case when tc > fc then 6 else 2 end;
+    rook_to := fr * 8 + case when tc > fc then 5 else 3 end;
+    -- Everything either piece crosses or lands on must be empty, bar the two of them.
+    for cc in least(fc, tc, king_to % 8, rook_to % 8) .. greatest(fc, tc, king_to % 8, rook_to % 8) loop
+      if fr * 8 + cc not in (fi, ti) and substr(board, fr * 8 + cc + 1, 1) <> '.' then
+        return null;
+      end if;
+    end loop;
+    board := overlay(board placing '.' from fi + 1 for 1);
+    board := overlay(board placing '.' from ti + 1 for 1);
+    -- The king may not castle out of, through, or into check.
+    for cc in least(fc, king_to % 8) .. greatest(fc, king_to % 8) loop
+      if chess_is_attacked(board, fr * 8 + cc, enemy) then
+        return null;
+      end if;
+    end loop;
+    board := overlay(board placing piece from king_to + 1 for 1);
+    board := overlay(board placing chess_side_piece('r', side) from rook_to + 1 for 1);
+    castled := true;
+    is_capture := false;
+
+  elsif kind = 'k' then
+    if abs(dr) <= 1 and abs(dc) <= 1 then
+      null;
+    elsif variant = 'chess960' then
+      return null;
+    elsif dr = 0 and abs(dc) = 2 and fc = 4 and fr = home_row then
+      castle_side := case when dc > 0 then 'k' else 'q' end;
+      if strpos(castling, chess_side_piece(castle_side, side)) = 0 then
+        return null;
+      end if;
+      rook_from := fr * 8 + case when dc > 0 then 7 else 0 end;
+      rook_to := fr * 8 + case when dc > 0 then 5 else 3 end;
+      if substr(board, rook_from + 1, 1) <> chess_side_piece('r', side) then
+        return null;
+      end if;
+      -- Every square between king and rook must be empty.
+      for cc in least(fc, rook_from % 8) + 1 .. greatest(fc, rook_from % 8) - 1 loop
+        if substr(board, fr * 8 + cc + 1, 1) <> '.' then
+          return null;
+        end if;
+      end loop;
+      -- The king may not castle out of, through, or into check.
+      for cc in least(fc, tc) .. greatest(fc, tc) loop
+        if chess_is_attacked(board, fr * 8 + cc, enemy) then
+          return null;
+        end if;
+      end loop;
+      board := overlay(board placing '.' from rook_from + 1 for 1);
+      board := overlay(board placing chess_side_piece('r', side) from rook_to + 1 for 1);
+    else
+      return null;
+    end if;
+
+  else
+    return null;
+  end if;
+
+  if not castled then
+    board := overlay(board placing '.' from fi + 1 for 1);
+    board := overlay(board placing piece from ti + 1 for 1);
+  end if;
+
+  king := strpos(board, chess_side_piece('k', side)) - 1;
+  if king < 0 then
+    -- Only the Horde plays without a king.
+    if variant <> 'horde' then
+      return null;
+    end if;
+  elsif chess_is_attacked(board, king, enemy) then
+    return null;
+  end if;
+
+  new_castling := castling;
+  if variant = 'chess960' then
+    -- A king move gives up both rights; a rook leaving or captured on its
+    -- square gives up its own.
+    if kind = 'k' then
+      new_castling := regexp_replace(new_castling, case when side = 'w' then '[A-H]' else '[a-h]' end, '', 'g');
+    end if;
+    if fr = home_row then
+      new_castling := replace(new_castling, chess_side_piece(chr(97 + fc), side), '');
+    end if;
+    if tr = 7 - home_row then
+      new_castling := replace(new_castling, chess_side_piece(chr(97 + tc), enemy), '');
+    end if;
+  else
+    -- Moving from or onto a king or rook home square drops the matching rights.
+    for corner in
+      select * from (values (60, 'KQ'), (63, 'K'), (56, 'Q'), (4, 'kq'), (7, 'k'), (0, 'q')) as t (idx, rights)
+    loop
+      if fi = corner.idx or ti = corner.idx then
+        new_castling := translate(new_castling, corner.rights, '');
+      end if;
+    end loop;
+  end if;
+  if new_castling = '' then
+    new_castling := '-';
+  end if;
+
+  halfmove := case when kind = 'p' or is_capture then 0 else halfmove + 1 end;
+  if side = 'b' then
+    fullmove := fullmove + 1;
+  end if;
+
+  -- Only advertise the en passant square when the capture is actually legal.
+  if new_ep <> '-' then
+    if not exists (
+      select 1
+      from unnest(array[ti - 1, ti + 1]) as n (idx)
+      where n.idx / 8 = ti / 8
+        and substr(board, n.idx + 1, 1) = chess_side_piece('p', enemy)
+        and chess_try_move(concat_ws(' ', chess_pack_board(board), enemy, new_castling, new_ep, 0, 1),
+                           chess_square_name(n.idx), new_ep, null, variant) is not null
+    ) then
+      new_ep := '-';
+    end if;
+  end if;
+
+  return concat_ws(' ', chess_pack_board(board), enemy, new_castling, new_ep, halfmove, fullmove);
+end;
+$$;
+
+-- Every legal move in the position, as UCI strings. Chess960 castling is
+-- the king moving onto its rook.
+drop function if exists chess_legal_moves(text);
+create or replace function chess_legal_moves(fen text, variant text default 'standard') returns setof text
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  side text := split_part(fen, ' ', 2);
+  rook_file text;
+  piece text;
+  kind text;
+  r int; c int; rr int; cc int;
+  d int[];
+  targets int[];
+  ti int;
+  from_sq text;
+  to_sq text;
+  promo text;
+  knight_steps int[] := array[[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+  king_steps int[] := array[[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+  rook_dirs int[] := array[[-1, 0], [1, 0], [0, -1], [0, 1]];
+  bishop_dirs int[] := array[[-1, -1], [-1, 1], [1, -1], [1, 1]];
+  dirs int[];
+begin
+  for fi in 0..63 loop
+    piece := substr(board, fi + 1, 1);
+    continue when chess_piece_color(piece) is distinct from side;
+    kind := lower(piece);
+    r := fi / 8;
+    c := fi % 8;
+    targets := '{}';
+
+    if kind = 'p' then
+      rr := r + case when side = 'w' then -1 else 1 end;
+      foreach cc in array array[c - 1, c, c + 1] loop
+        if rr between 0 and 7 and cc between 0 and 7 then
+          targets := targets || (rr * 8 + cc);
+        end if;
+      end loop;
+      rr := r + case when side = 'w' then -2 else 2 end;
+      if rr between 0 and 7 then
+        targets := targets || (rr * 8 + c);
+      end if;
+    elsif kind in ('n', 'k') then
+      foreach d slice 1 in array case when kind = 'n' then knight_steps else king_steps end loop
+        rr := r + d[1];
+        cc := c + d[2];
+        if rr between 0 and 7 and cc between 0 and 7 then
+          targets := targets || (rr * 8 + cc);
+        end if;
+      end loop;
+      if kind = 'k' and variant = 'chess960' then
+        foreach rook_file in array regexp_split_to_array(split_part(fen, ' ', 3), '') loop
+          if rook_file ~ '^[A-Ha-h]$' and chess_piece_color(rook_file) = side
+             and not (r * 8 + ascii(lower(rook_file)) - 97) = any (targets) then
+            targets := targets || (r * 8 + ascii(lower(rook_file)) - 97);
+          end if;
+        end loop;
+      elsif kind = 'k' and c = 4 then
+        targets := targets || (r * 8 + 2) || (r * 8 + 6);
+      end if;
+    else
+      dirs := case kind
+        when 'r' then rook_dirs
+        when 'b' then bishop_dirs
+        else rook_dirs || bishop_dirs
+      end;
+      foreach d slice 1 in array dirs loop
+        rr := r + d[1];
+        cc := c + d[2];
+        while rr between 0 and 7 and cc between 0 and 7 loop
+          targets := targets || (rr * 8 + cc);
+          exit when substr(board, rr * 8 + cc + 1, 1) <> '.';
+          rr := rr + d[1];
+          cc := cc + d[2];
+        end loop;
+      end loop;
+    end if;
+
+    from_sq := chess_square_name(fi);
+    foreach ti in array targets loop
+      to_sq := chess_square_name(ti);
+      if kind = 'p' and ti / 8 in (0, 7) then
+        foreach promo in array array['q', 'r', 'b', 'n'] loop
+          if chess_try_move(fen, from_sq, to_sq, promo, variant) is not null then
+            return next from_sq || to_sq || promo;
+          end if;
+        end loop;
+      elsif chess_try_move(fen, from_sq, to_sq, null, variant) is not null then
+        return next from_sq || to_sq;
+      end if;
+    end loop;
+  end loop;
+end;
+$$;
+
+-- Standard algebraic notation for a move, or null when it is not legal.
+drop function if exists chess_move_san(text, text, text, text);
+create or replace function chess_move_san(
+  fen text, from_sq text, to_sq text, promotion text default null, variant text default 'standard'
+)
+returns text
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  piece text := substr(board, chess_square_index(from_sq) + 1, 1);
+  kind text := lower(piece);
+  after text := chess_try_move(fen, from_sq, to_sq, promotion, variant);
+  is_capture boolean;
+  rivals text[];
+  san text;
+begin
+  if after is null then
+    return null;
+  end if;
+
+  is_capture := substr(board, chess_square_index(to_sq) + 1, 1) <> '.'
+    or (kind = 'p' and left(from_sq, 1) <> left(to_sq, 1));
+
+  if kind = 'k' and (abs(ascii(to_sq) - ascii(from_sq)) = 2
+                     or chess_piece_color(substr(board, chess_square_index(to_sq) + 1, 1)) = chess_piece_color(piece)) then
+    san := case when to_sq > from_sq then 'O-O' else 'O-O-O' end;
+  elsif kind = 'p' then
+    san := case when is_capture then left(from_sq, 1) || 'x' else '' end || to_sq;
+    if promotion is not null and right(to_sq, 1) in ('1', '8') then
+      san := san || '=' || upper(promotion);
+    end if;
+  else
+    -- Other pieces of the same kind that can also reach the target square.
+    select array_agg(left(m, 2)) into rivals
+    from chess_legal_moves(fen, variant) m
+    where substr(m, 3, 2) = to_sq
+      and left(m, 2) <> from_sq
+      and substr(board, chess_square_index(left(m, 2)) + 1, 1) = piece;
+
+    san := upper(kind);
+    if rivals is not null then
+      if not exists (select 1 from unnest(rivals) r where left(r, 1) = left(from_sq, 1)) then
+        san := san || left(from_sq, 1);
+      elsif not exists (select 1 from unnest(rivals) r where right(r, 1) = right(from_sq, 1)) then
+        san := san || right(from_sq, 1);
+      else
+        san := san || from_sq;
+      end if;
+    end if;
+    san := san || case when is_capture then 'x' else '' end || to_sq;
+  end if;
+
+  if chess_in_check(after) then
+    san := san || case when exists (select 1 from chess_legal_moves(after, variant)) then '+' else '#' end;
+  end if;
+  return san;
+end;
+$$;
+
+-- Whether neither side can win any more. A bare king can still walk to the
+-- centre in King of the Hill and Black can always still take the Horde; in
+-- Three-check any piece can still give check.
+drop function if exists chess_insufficient_material(text);
+create or replace function chess_insufficient_material(fen text, variant text default 'standard') returns boolean
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  rest text := translate(board, '.Kk', '');
+  bishop_colors int[] := '{}';
+begin
+  if variant in ('king_of_the_hill', 'horde') then
+    return false;
+  elsif variant = 'three_check' then
+    return rest = '';
+  end if;
+  if rest = '' or (length(rest) = 1 and rest in ('N', 'B', 'n', 'b')) then
+    return true;
+  end if;
+  -- Only bishops left, all standing on the same colour.
+  if translate(rest, 'Bb', '') = '' then
+    for i in 0..63 loop
+      if substr(board, i + 1, 1) in ('B', 'b') then
+        bishop_colors := bishop_colors || ((i / 8 + i % 8) % 2);
+      end if;
+    end loop;
+    return 0 = all (bishop_colors) or 1 = all (bishop_colors);
+  end if;
+  return false;
+end;
+$$;
+
+-- Whether a side could still mate with the material it has left. A lone
+-- king, a single knight or bishops all on one colour cannot. Variants that
+-- are won another way count that too.
+drop function if exists chess_has_mating_material(text, text);
+create or replace function chess_has_mating_material(fen text, color text, variant text default 'standard') returns boolean
+language plpgsql immutable as $$
+declare
+  board text := chess_expand_board(split_part(fen, ' ', 1));
+  own text := '';
+  bishop_colors int[] := '{}';
+  p text;
+begin
+  for i in 0..63 loop
+    p := substr(board, i + 1, 1);
+    if chess_piece_color(p) = color and lower(p) <> 'k' then
+      own := own || lower(p);
+      if lower(p) = 'b' then
+        bishop_colors := bishop_colors || ((i / 8 + i % 8) % 2);
+      end if;
+    end if;
+  end loop;
+  if variant = 'king_of_the_hill' then
+    return true;
+  elsif own = '' then
+    return false;
+  elsif variant = 'three_check' or (variant = 'horde' and color = 'w') then
+    return true;
+  elsif own = 'n' then
+    return false;
+  end if;
+  if translate(own, 'b', '') = '' then
+    return not (0 = all (bishop_colors) or 1 = all (bishop_colors));
+  end if;
+  return true;
+end;
+$$;
+
+-- The part of a FEN that decides whether two positions repeat: placement,
+-- side to move, castling rights and en passant square.
+create or replace function chess_position_key(fen text) returns text
+language sql immutable as $$
+  select array_to_string((string_to_array(fen, ' '))[1:4], ' ');
+$$;
+
+-- Result string for a win by the given colour.
+create or replace function win_for(color text) returns text
+language sql immutable as $$
+  select case when color = 'w' then '1-0' else '0-1' end;
+$$;
+
+-- =========================================================================
+-- Clocks
+-- =========================================================================
+
+-- Time left on a side's clock right now, using the database clock only.
+create or replace function clock_remaining_ms(g games, color text) returns bigint
+language sql stable as $$
+  select case when color = 'w' then g.white_time_ms else g.black_time_ms end
+    - case
+        when g.last_move_at is not null and g.status <> 'finished' and split_part(g.fen, ' ', 2) = color
+          then floor(extract(epoch from now() - g.last_move_at) * 1000)::bigint
+        else 0
+      end;
+$$;
+
+create or replace function server_time() returns timestamptz
+language sql stable as $$
+  select now();
+$$;
+
+-- =========================================================================
+-- RPCs
+-- =========================================================================
+
+-- Validates and plays a move for the caller in a single transaction:
+-- checks the seat and turn, checks legality against the stored position,
+-- appends to the move log and advances the game.
+-- p_ply is the ply the client means this move to be. A retry of a move
+-- the server already applied returns the game unchanged; any other move
+-- for a ply that is not next fails with 40001 so the client resyncs.
+drop function if exists submit_move(text, text, text, text);
+create or replace function submit_move(
+  p_game_id text, p_from text, p_to text, p_promotion text default null, p_ply int default null
+)
+returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+  side text;
+  promotion text := nullif(lower(p_promotion), '');
+  new_fen text;
+  san text;
+  next_ply int;
+  remaining bigint;
+  outcome text;
+  reason text;
+  repetitions int;
+  checks int;
+begin
+  select * into g from games where id = p_game_id for update;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+
+  if p_ply is not null and p_ply <> g.ply + 1 then
+    if exists (
+      select 1 from moves m
+      where m.game_id = g.id and m.ply = p_ply and m.color = player_color(g)
+        and m.from_square = lower(p_from) and m.to_square = lower(p_to)
+    ) then
+      return g;
+    end if;
+    raise exception 'Move % is out of date; the game is at move %', p_ply, g.ply
+      using errcode = '40001';
+  end if;
+
+  if g.status = 'finished' then
+    raise exception 'Game is already finished';
+  end if;
+  -- claim_seat starts the game once both seats are taken
+  if g.status = 'waiting' then
+    raise exception 'Waiting for an opponent to join';
+  end if;
+
+  side := split_part(g.fen, ' ', 2);
+  if player_color(g) is distinct from side then
+    raise exception 'Not your turn' using errcode = '42501';
+  end if;
+
+  -- A move that arrives after the flag fell does not count.
+  if g.base_seconds is not null then
+    remaining := clock_remaining_ms(g, side);
+    if remaining <= 0 then
+      return flag_game(g, side);
+    end if;
+  end if;
+
+  new_fen := chess_try_move(g.fen, lower(p_from), lower(p_to), promotion, g.variant);
+  if new_fen is null then
+    raise exception 'Illegal move %-%', p_from, p_to using errcode = '22023';
+  end if;
+
+  -- The promotion piece only means something when a pawn reaches the last rank.
+  if chess_square_index(lower(p_to)) / 8 not in (0, 7)
+     or lower(substr(chess_expand_board(split_part(g.fen, ' ', 1)), chess_square_index(lower(p_from)) + 1, 1)) <> 'p' then
+    promotion := null;
+  end if;
+  san := chess_move_san(g.fen, lower(p_from), lower(p_to), promotion, g.variant);
+  next_ply := g.ply + 1;
+
+  insert into moves (game_id, ply, color, from_square, to_square, promotion, san, uci, fen_after)
+  values (
+    g.id, next_ply, side, lower(p_from), lower(p_to), promotion, san,
+    lower(p_from) || lower(p_to) || coalesce(promotion, ''), new_fen
+  );
+
+  -- Replay the whole log (which now includes this move) for repetitions.
+  select count(*) into repetitions
+  from (
+    select g.initial_fen as fen
+    union all
+    select m.fen_after from moves m where m.game_id = g.id
+  ) positions
+  where chess_position_key(positions.fen) = chess_position_key(new_fen);
+
+  -- Checks given by the mover, this move included.
+  if g.variant = 'three_check' then
+    select count(*) into checks
+    from moves m
+    where m.game_id = g.id and m.color = side and m.san ~ '[+#]$';
+  end if;
+
+  -- A variant's own win comes first: it ends the game before the opponent
+  -- would have to answer.
+  if g.variant = 'king_of_the_hill'
+     and chess_square_name(strpos(chess_expand_board(split_part(new_fen, ' ', 1)), chess_side_piece('k', side)) - 1)
+         in ('d4', 'e4', 'd5', 'e5') then
+    outcome := win_for(side);
+    reason := 'king_in_center';
+  elsif g.variant = 'three_check' and checks >= 3 then
+    outcome := win_for(side);
+    reason := 'third_check';
+  elsif g.variant = 'horde' and split_part(new_fen, ' ', 1) !~ '[A-Z]' then
+    outcome := win_for('b');
+    reason := 'horde_captured';
+  elsif not exists (select 1 from chess_legal_moves(new_fen, g.variant)) then
+    if chess_in_check(new_fen) then
+      outcome := win_for(side);
+      reason := 'checkmate';
+    else
+      outcome := '1/2-1/2';
+      reason := 'stalemate';
+    end if;
+  elsif chess_insufficient_material(new_fen, g.variant) then
+    outcome := '1/2-1/2';
+    reason := 'insufficient_material';
+  elsif split_part(new_fen, ' ', 5)::int >= 100 then
+    outcome := '1/2-1/2';
+    reason := 'fifty_move';
+  elsif repetitions >= 3 then
+    outcome := '1/2-1/2';
+    reason := 'repetition';
+  end if;
+
+  update games
+  set fen = new_fen,
+      ply = next_ply,
+      turn = case when side = 'w' then 'black' else 'white' end,
+      status = case when outcome is not null then 'finished' else 'active' end,
+      result = outcome,
+      termination = reason,
+      -- Any pending offer lapses once a move is played.
+      draw_offer = null,
+      takeback_offer = null,
+      -- Clocks start with White's first move; every move earns the increment.
+      white_time_ms = case
+        when g.base_seconds is not null and side = 'w' then remaining + g.increment_seconds * 1000
+        else g.white_time_ms
+      end,
+      black_time_ms = case
+        when g.base_seconds is not null and side = 'b' then remaining + g.increment_seconds * 1000
+        else g.black_time_ms
+      end,
+      last_move_at = case when g.base_seconds is not null then now() end
+  where id = g.id
+  returning * into g;
+
+  return g;
+end;
+$$;
+
+grant execute on function submit_move(text, text, text, text, int) to authenticated;
+
+-- Ends the game because the given side ran out of time. It is a loss for
+-- that side unless the opponent cannot mate, which makes it a draw.
+create or replace function flag_game(g games, color text) returns games
+language plpgsql as $$
+declare
+  opponent text := case when color = 'w' then 'b' else 'w' end;
+begin
+  update games
+  set status = 'finished',
+      result = case
+        when chess_has_mating_material(g.fen, opponent, g.variant) then win_for(opponent)
+        else '1/2-1/2'
+      end,
+      termination = 'timeout',
+      draw_offer = null,
+      takeback_offer = null,
+      white_time_ms = case when color = 'w' then 0 else clock_remaining_ms(g, 'w') end,
+      black_time_ms = case when color = 'b' then 0 else clock_remaining_ms(g, 'b') end,
+      last_move_at = now()
+  where id = g.id
+  returning * into g;
+  return g;
+end;
+$$;
+
+revoke execute on function flag_game(games, text) from public, anon, authenticated;
+
+-- Called by either client when it sees the side to move run out of time.
+-- The database clock decides; an early call is rejected.
+create or replace function claim_timeout(p_game_id text) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+  side text;
+begin
+  select * into g from games where id = p_game_id for update;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+  if g.status = 'finished' or g.base_seconds is null then
+    return g;
+  end if;
+
+  side := split_part(g.fen, ' ', 2);
+  if clock_remaining_ms(g, side) > 0 then
+    raise exception 'Clock has not run out' using errcode = '22023';
+  end if;
+  return flag_game(g, side);
+end;
+$$;
+
+grant execute on function claim_timeout(text) to authenticated;
+
+-- Game rows are readable by anyone, so the ids browsers made up for
+-- themselves before accounts are swapped for stand-ins there: the real id is
+-- then the browser's proof that the seats are its own. Seats taken since
+-- hold account ids, and stand-ins already swapped in are left alone.
+insert into legacy_identities (legacy_id)
+select distinct seat
+from games, lateral (values (player_white), (player_black)) seats (seat)
+where seat is not null
+  and not exists (select 1 from auth.users u where u.id = seat)
+  and not exists (select 1 from legacy_identities l where l.stand_in_id = seat)
+on conflict (legacy_id) do nothing;
+
+update games g set player_white = l.stand_in_id
+from legacy_identities l
+where g.player_white = l.legacy_id;
+
+update games g set player_black = l.stand_in_id
+from legacy_identities l
+where g.player_black = l.legacy_id;
+
+-- Moves the seats held by a browser's old locally generated id over to the
+-- caller's account. Each old id can only ever be claimed once. An id that
+-- never took a seat has nothing to move.
+create or replace function migrate_legacy_identity(p_legacy_id uuid) returns int
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  stand_in uuid;
+  moved int := 0;
+  n int;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in first' using errcode = '42501';
+  end if;
+
+  update legacy_identities
+  set user_id = auth.uid(), migrated_at = coalesce(migrated_at, now())
+  where legacy_id = p_legacy_id and (user_id is null or user_id = auth.uid())
+  returning stand_in_id into stand_in;
+
+  if stand_in is null then
+    if exists (select 1 from legacy_identities where legacy_id = p_legacy_id) then
+      raise exception 'This identity was already migrated to another account' using errcode = '42501';
+    end if;
+    return 0;
+  end if;
+
+  update games set player_white = auth.uid() where player_white = stand_in;
+  get diagnostics n = row_count;
+  moved := moved + n;
+  update games set player_black = auth.uid() where player_black = stand_in;
+  get diagnostics n = row_count;
+  return moved + n;
+end;
+$$;
+
+grant execute on function migrate_legacy_identity(uuid) to authenticated;
+
+-- Locks a game in progress for an in-game action by a seated player.
+create or replace function lock_game_for_player(p_game_id text) returns games
+language plpgsql as $$
+declare
+  g games;
+begin
+  select * into g from games where id = p_game_id for update;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+  if player_color(g) is null then
+    raise exception 'Only players can do that' using errcode = '42501';
+  end if;
+  if g.status = 'finished' then
+    raise exception 'Game is already finished';
+  end if;
+  if g.status <> 'active' then
+    raise exception 'The game has not started';
+  end if;
+  return g;
+end;
+$$;
+
+revoke execute on function lock_game_for_player(text) from public, anon, authenticated;
+
+create or replace function resign(p_game_id text) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+begin
+  update games
+  set status = 'finished',
+      result = win_for(case when player_color(g) = 'w' then 'b' else 'w' end),
+      termination = 'resignation',
+      white_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'w') end,
+      black_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'b') end,
+      draw_offer = null,
+      takeback_offer = null
+  where id = g.id
+  returning * into g;
+  return g;
+end;
+$$;
+
+grant execute on function resign(text) to authenticated;
+
+-- Offering a draw while the opponent's offer is pending accepts it.
+create or replace function offer_draw(p_game_id text) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+  me text := player_color(g);
+begin
+  if g.draw_offer is not null and g.draw_offer <> me then
+    return respond_draw(p_game_id, true);
+  end if;
+
+  update games set draw_offer = me where id = g.id returning * into g;
+  return g;
+end;
+$$;
+
+grant execute on function offer_draw(text) to authenticated;
+
+create or replace function respond_draw(p_game_id text, p_accept boolean) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+begin
+  if g.draw_offer is null or g.draw_offer = player_color(g) then
+    raise exception 'No draw offer to answer' using errcode = '22023';
+  end if;
+
+  if p_accept then
+    update games
+    set status = 'finished',
+        result = '1/2-1/2',
+        termination = 'agreement',
+        white_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'w') end,
+        black_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'b') end,
+        draw_offer = null,
+        takeback_offer = null
+    where id = g.id
+    returning * into g;
+  else
+    update games set draw_offer = null where id = g.id returning * into g;
+  end if;
+  return g;
+end;
+$$;
+
+grant execute on function respond_draw(text, boolean) to authenticated;
+
+create or replace function request_takeback(p_game_id text) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+  me text := player_color(g);
+begin
+  -- Nothing to take back before the requester has moved.
+  if not exists (select 1 from moves where game_id = g.id and color = me) then
+    raise exception 'No move to take back' using errcode = '22023';
+  end if;
+
+  update games set takeback_offer = me where id = g.id returning * into g;
+  return g;
+end;
+$$;
+
+grant execute on function request_takeback(text) to authenticated;
+
+-- Accepting rewinds to just before the requester's last move: one ply if
+-- the opponent has not replied yet, otherwise two.
+create or replace function respond_takeback(p_game_id text, p_accept boolean) returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+  target_ply int;
+  new_fen text;
+begin
+  if g.takeback_offer is null or g.takeback_offer = player_color(g) then
+    raise exception 'No takeback request to answer' using errcode = '22023';
+  end if;
+
+  if not p_accept then
+    update games set takeback_offer = null where id = g.id returning * into g;
+    return g;
+  end if;
+
+  select max(ply) - 1 into target_ply
+  from moves
+  where game_id = g.id and color = g.takeback_offer;
+
+  delete from moves where game_id = g.id and ply > target_ply;
+
+  select coalesce(
+    (select fen_after from moves where game_id = g.id and ply = target_ply),
+    g.initial_fen
+  ) into new_fen;
+
+  -- Clocks keep the time already used; the side to move starts again now.
+  update games
+  set fen = new_fen,
+      ply = target_ply,
+      turn = case when split_part(new_fen, ' ', 2) = 'w' then 'white' else 'black' end,
+      white_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'w') end,
+      black_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'b') end,
+      last_move_at = case when g.base_seconds is not null and target_ply > 0 then now() end,
+      draw_offer = null,
+      takeback_offer = null
+  where id = g.id
+  returning * into g;
+  return g;
+end;
+$$;
+
+grant execute on function respond_takeback(text, boolean) to authenticated;
+
+-- Unused 4-digit game code, in the same range Home generates.
+create or replace function new_game_id() returns text
+language plpgsql as $$
+declare
+  candidate text;
+begin
+  loop
+    candidate := (1000 + floor(random() * 9000))::int::text;
+    exit when not exists (select 1 from games where id = candidate);
+  end loop;
+  return candidate;
+end;
+$$;
+
+revoke execute on function new_game_id() from public, anon, authenticated;
+
+-- Posts a chat message to the caller's room: the players' room for seated
+-- players, the spectators' room for everyone else. At most five messages
+-- per ten seconds per game.
+create or replace function send_message(p_game_id text, p_body text) returns messages
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+  body text := btrim(p_body);
+  msg messages;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in first' using errcode = '42501';
+  end if;
+  select * into g from games where id = p_game_id;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+  if char_length(body) not between 1 and 200 then
+    raise exception 'Messages must be 1 to 200 characters' using errcode = '22023';
+  end if;
+  if (
+    select count(*) from messages
+    where game_id = g.id and user_id = auth.uid() and created_at > now() - interval '10 seconds'
+  ) >= 5 then
+    raise exception 'Slow down a little' using errcode = '54000';
+  end if;
+
+  insert into messages (game_id, user_id, audience, body)
+  values (g.id, auth.uid(), case when player_color(g) is null then 'spectators' else 'players' end, body)
+  returning * into msg;
+  return msg;
+end;
+$$;
+
+grant execute on function send_message(text, text) to authenticated;
+
+-- Heartbeat from a seated player's open game room.
+create or replace function touch_game(p_game_id text) returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+begin
+  select * into g from games where id = p_game_id;
+  if not found or player_color(g) is null then
+    return;
+  end if;
+  insert into game_presence (game_id, user_id) values (g.id, auth.uid())
+  on conflict (game_id, user_id) do update set seen_at = now();
+end;
+$$;
+
+grant execute on function touch_game(text) to authenticated;
+
+-- Ends a game whose opponent has been gone for more than a minute, as a
+-- win for the caller or, if they prefer, a draw. The opponent counts as
+-- present from their last heartbeat, their last move or the game's start.
+create or replace function claim_abandonment(p_game_id text, p_draw boolean default false)
+returns games
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games := lock_game_for_player(p_game_id);
+  mine text := player_color(g);
+  opponent_id uuid;
+  last_seen timestamptz;
+begin
+  opponent_id := case when mine = 'w' then g.player_black else g.player_white end;
+  if opponent_id is null then
+    raise exception 'Nobody has taken the other seat';
+  end if;
+  select greatest(p.seen_at, g.last_move_at, g.created_at) into last_seen
+  from (select 1) one
+  left join game_presence p on p.game_id = g.id and p.user_id = opponent_id;
+
+  if last_seen > now() - interval '60 seconds' then
+    raise exception 'Your opponent was here less than a minute ago';
+  end if;
+
+  update games
+  set status = 'finished',
+      result = case when p_draw then '1/2-1/2' else win_for(mine) end,
+      termination = 'abandonment',
+      white_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'w') end,
+      black_time_ms = case when g.base_seconds is not null then clock_remaining_ms(g, 'b') end,
+      draw_offer = null,
+      takeback_offer = null
+  where id = g.id
+  returning * into g;
+  return g;
+end;
+$$;
+
+grant execute on function claim_abandonment(text, boolean) to authenticated;
+
+-- Seats the caller in an open seat if they may take it and returns their
+-- role: 'w', 'b' or 'spectator'. Runs under a row lock, so two visitors can
+-- never both get the same seat.
+create or replace function claim_seat(p_game_id text, p_invite text default null)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+  me uuid := auth.uid();
+begin
+  if me is null then
+    raise exception 'Sign in first' using errcode = '42501';
+  end if;
+
+  select * into g from games where id = p_game_id for update;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+
+  if g.player_white = me then
+    return 'w';
+  elsif g.player_black = me then
+    return 'b';
+  end if;
+
+  if g.status <> 'waiting' then
+    return 'spectator';
+  end if;
+  if g.invite_only and not exists (
+    select 1 from game_invites where game_id = g.id and code = p_invite
+  ) then
+    return 'spectator';
+  end if;
+
+  if g.player_white is null then
+    update games
+    set player_white = me,
+        status = case when g.player_black is not null then 'active' else 'waiting' end
+    where id = g.id;
+    return 'w';
+  elsif g.player_black is null then
+    update games
+    set player_black = me,
+        status = case when g.player_white is not null then 'active' else 'waiting' end
+    where id = g.id;
+    return 'b';
+  end if;
+  return 'spectator';
+end;
+$$;
+
+grant execute on function claim_seat(text, text) to authenticated;
+
+-- Turns invite-only on or off for a waiting game. Returns the invite code
+-- the host shares, or null once the game is open to anyone again.
+create or replace function set_invite_only(p_game_id text, p_enabled boolean)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  g games;
+  invite_code text;
+begin
+  select * into g from games where id = p_game_id for update;
+  if not found then
+    raise exception 'Game not found' using errcode = 'P0002';
+  end if;
+  if player_color(g) is null then
+    raise exception 'Only players can do that' using errcode = '42501';
+  end if;
+  if g.status <> 'waiting' then
+    raise exception 'The game has already started';
+  end if;
+
+  update games set invite_only = p_enabled where id = g.id;
+  if not p_enabled then
+    return null;
+  end if;
+
+  insert into game_invites (game_id) values (g.id) on conflict (game_id) do nothing;
+  select code into invite_code from game_invites where game_id = g.id;
+  return invite_code;
+end;
+$$;
+
+grant execute on function set_invite_only(text, boolean) to authenticated;
+
+-- Quick play. Pairs the caller with the longest-waiting player on the same
+-- time control, rated or casual, and returns the new game's id, or queues the caller and
+-- returns null. Clients call it repeatedly while searching: each call keeps
+-- the entry fresh and returns the game once someone else was paired with us.
+drop function if exists join_queue(int, int);
+create or replace function join_queue(
+  p_base_seconds int,
+  p_increment_seconds int default 0,
+  p_rated boolean default false
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  me uuid := auth.uid();
+  entry matchmaking_queue;
+  opponent matchmaking_queue;
+  new_id text;
+  white uuid;
+  black uuid;
+  -- Untimed games have no rating pool
+  is_rated boolean := coalesce(p_rated, false) and p_base_seconds is not null;
+begin
+  if me is null then
+    raise exception 'Sign in first' using errcode = '42501';
+  end if;
+
+  delete from matchmaking_queue where game_id is null and seen_at < now() - interval '15 seconds';
+
+  select * into entry from matchmaking_queue where user_id = me for update;
+  if found and entry.game_id is not null then
+    delete from matchmaking_queue where user_id = me;
+    return entry.game_id;
+  end if;
+
+  select * into opponent
+  from matchmaking_queue
+  where user_id <> me
+    and game_id is null
+    and base_seconds is not distinct from p_base_seconds
+    and increment_seconds = coalesce(p_increment_seconds, 0)
+    and rated = is_rated
+  order by joined_at
+  limit 1
+  for update skip locked;
+
+  if not found then
+    insert into matchmaking_queue (user_id, base_seconds, increment_seconds, rated)
+    values (me, p_base_seconds, coalesce(p_increment_seconds, 0), is_rated)
+    on conflict (user_id) do update
+    set seen_at = now(),
+        joined_at = case
+          when matchmaking_queue.base_seconds is not distinct from excluded.base_seconds
+           and matchmaking_queue.increment_seconds = excluded.increment_seconds
+           and matchmaking_queue.rated = excluded.rated
+            then matchmaking_queue.joined_at
+          else now()
+        end,
+        base_seconds = excluded.base_seconds,
+        increment_seconds = excluded.increment_seconds,
+        rated = excluded.rated;
+    return null;
+  end if;
+
+  if random() < 0.5 then
+    white := me; black := opponent.user_id;
+  else
+    white := opponent.user_id; black := me;
+  end if;
+
+  new_id := new_game_id();
+  insert into games (id, player_white, player_black, status, base_seconds, increment_seconds, white_time_ms, black_time_ms, rated)
+  values (
+    new_id, white, black, 'active',
+    p_base_seconds, coalesce(p_increment_seconds, 0),
+    p_base_seconds * 1000::bigint, p_base_seconds * 1000::bigint,
+    is_rated
+  );
+
+  update matchmaking_queue set game_id = new_id where user_id = opponent.user_id;
+  delete from matchmaking_queue where user_id = me;
+  return new_id;
+end;
+$$;
+
+grant execute on function join_queue(int, int, boolean) to authenticated;
+
+-- =========================================================================
+-- Ratings
+-- =========================================================================
+
+-- Rating pool of a time control. Mirrors getTimeControlCategory in
+-- lib/timeControl.ts: estimated duration of base + 40 increments.
+create or replace function time_control_category(base_seconds int, increment_seconds int) returns text
+language sql immutable as $$
+  select case
+    when base_seconds is null then null
+    when base_seconds + 40 * increment_seconds < 180 then 'bullet'
+    when base_seconds + 40 * increment_seconds < 480 then 'blitz'
+    when base_seconds + 40 * increment_seconds < 1500 then 'rapid'
+    else 'classical'
+  end;
+$$;
+
+-- A player's rating in a pool, or the starting rating when they have none.
+create or replace function player_rating(p_user_id uuid, p_category text) returns ratings
+language sql stable as $$
+  select coalesce(
+    (select r from ratings r where r.user_id = p_user_id and r.category = p_category),
+    row(p_user_id, p_category, 1500, 350, 0.06, 0, now())::ratings
+  );
+$$;
+
+-- The function whose zero is the new volatility, step 5 of the Glicko-2
+-- paper (glicko.net/glicko/glicko2.pdf).
+create or replace function glicko2_volatility_target(
+  x double precision, delta double precision, phi double precision, v double precision,
+  a double precision, tau double precision
+) returns double precision
+language sql immutable as $$
+  select exp(x) * (delta ^ 2 - phi ^ 2 - v - exp(x)) / (2 * (phi ^ 2 + v + exp(x)) ^ 2) - (x - a) / tau ^ 2;
+$$;
+
+-- One Glicko-2 rating period holding a single game with `score` (1, 0.5
+-- or 0) against the opponent, which is how chess servers usually rate.
+-- Ratings and deviations are on the familiar 1500-centred scale.
+create or replace function glicko2_update(
+  rating double precision,
+  deviation double precision,
+  volatility double precision,
+  opponent_rating double precision,
+  opponent_deviation double precision,
+  score double precision,
+  out new_rating double precision,
+  out new_deviation double precision,
+  out new_volatility double precision
+)
+language plpgsql immutable as $$
+declare
+  scale constant double precision := 173.7178;
+  -- How fast volatility may change; the paper suggests 0.3 to 1.2
+  tau constant double precision := 0.5;
+  mu double precision := (rating - 1500) / scale;
+  phi double precision := deviation / scale;
+  opponent_mu double precision := (opponent_rating - 1500) / scale;
+  opponent_phi double precision := opponent_deviation / scale;
+  g double precision;
+  expected double precision;
+  v double precision;
+  delta double precision;
+  a double precision := ln(volatility ^ 2);
+  lower_x double precision;
+  upper_x double precision;
+  mid_x double precision;
+  f_lower double precision;
+  f_upper double precision;
+  f_mid double precision;
+  k int := 1;
+  phi_star double precision;
+begin
+  g := 1 / sqrt(1 + 3 * opponent_phi ^ 2 / pi() ^ 2);
+  expected := 1 / (1 + exp(-g * (mu - opponent_mu)));
+  v := 1 / (g ^ 2 * expected * (1 - expected));
+  delta := v * g * (score - expected);
+
+  -- New volatility by the Illinois algorithm
+  lower_x := a;
+  if delta ^ 2 > phi ^ 2 + v then
+    upper_x := ln(delta ^ 2 - phi ^ 2 - v);
+  else
+    while glicko2_volatility_target(a - k * tau, delta, phi, v, a, tau) < 0 loop
+      k := k + 1;
+    end loop;
+    upper_x := a - k * tau;
+  end if;
+  f_lower := glicko2_volatility_target(lower_x, delta, phi, v, a, tau);
+  f_upper := glicko2_volatility_target(upper_x, delta, phi, v, a, tau);
+  while abs(upper_x - lower_x) > 0.000001 loop
+    mid_x := lower_x + (lower_x - upper_x) * f_lower / (f_upper - f_lower);
+    f_mid := glicko2_volatility_target(mid_x, delta, phi, v, a, tau);
+    if f_mid * f_upper <= 0 then
+      lower_x := upper_x;
+      f_lower := f_upper;
+    else
+      f_lower := f_lower / 2;
+    end if;
+    upper_x := mid_x;
+    f_upper := f_mid;
+  end loop;
+  new_volatility := exp(lower_x / 2);
+
+  phi_star := sqrt(phi ^ 2 + new_volatility ^ 2);
+  phi := 1 / sqrt(1 / phi_star ^ 2 + 1 / v);
+  new_rating := 1500 + scale * (mu + phi ^ 2 * g * (score - expected));
+  -- Keep even long-standing ratings able to move
+  new_deviation := least(greatest(scale * phi, 45), 350);
+end;
+$$;
+
+-- Fills in the ratings of rated games as they start, and when one
+-- finishes moves both players' ratings in the game's pool. Works off the
+-- status change, so every way a game can end is covered.
+create or replace function rate_game() returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  pool text := time_control_category(new.base_seconds, new.increment_seconds);
+  w ratings;
+  b ratings;
+  white_score double precision;
+  white_after record;
+  black_after record;
+begin
+  if not new.rated or new.player_white is null or new.player_black is null then
+    return new;
+  end if;
+  w := player_rating(new.player_white, pool);
+  b := player_rating(new.player_black, pool);
+
+  if new.status = 'active' and (tg_op = 'INSERT' or old.status = 'waiting') then
+    new.white_rating := round(w.rating);
+    new.black_rating := round(b.rating);
+  end if;
+
+  if new.status = 'finished' and new.result is not null and (tg_op = 'INSERT' or old.status <> 'finished') then
+    white_score := case new.result when '1-0' then 1 when '0-1' then 0 else 0.5 end;
+    select * into white_after from glicko2_update(w.rating, w.deviation, w.volatility, b.rating, b.deviation, white_score);
+    select * into black_after from glicko2_update(b.rating, b.deviation, b.volatility, w.rating, w.deviation, 1 - white_score);
+
+    insert into ratings (user_id, category, rating, deviation, volatility, games)
+    values
+      (new.player_white, pool, white_after.new_rating, white_after.new_deviation, white_after.new_volatility, 1),
+      (new.player_black, pool, black_after.new_rating, black_after.new_deviation, black_after.new_volatility, 1)
+    on conflict (user_id, category) do update
+    set rating = excluded.rating,
+        deviation = excluded.deviation,
+        volatility = excluded.volatility,
+        games = ratings.games + 1,
+        updated_at = now();
+
+    -- Another rated game may have finished since this one started
+    new.white_rating := round(w.rating);
+    new.black_rating := round(b.rating);
+    new.white_rating_change := round(white_after.new_rating) - round(w.rating);
+    new.black_rating_change := round(black_after.new_rating) - round(b.rating);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists games_rating on games;
+create trigger games_rating
+  before insert or update on games
+  for each row execute function rate_game();
+
+-- =========================================================================
+-- Player history
+-- =========================================================================
+
+create index if not exists games_white_idx on games (player_white, created_at desc);
+create index if not exists games_black_idx on games (player_black, created_at desc);
+
+-- Wins, draws and losses of a player's finished games, one row per colour
+-- they have played.
+create or replace function player_results(p_user_id uuid)
+returns table (color text, wins bigint, draws bigint, losses bigint)
+language sql stable as $$
+  select
+    case when g.player_white = p_user_id then 'w' else 'b' end,
+    count(*) filter (where g.result = case when g.player_white = p_user_id then '1-0' else '0-1' end),
+    count(*) filter (where g.result = '1/2-1/2'),
+    count(*) filter (where g.result = case when g.player_white = p_user_id then '0-1' else '1-0' end)
+  from games g
+  where g.status = 'finished' and p_user_id in (g.player_white, g.player_black)
+  group by 1;
+$$;
+
+grant execute on function player_results(uuid) to authenticated;
+
+-- A player's games past the lobby, newest first, for the archive on their
+-- profile. Every filter is optional: p_opponent is part of the opponent's
+-- name, p_result is 'win', 'draw' or 'loss' from the player's side, and
+-- the dates bound created_at (p_to is exclusive). Clients page with range().
+create or replace function player_games(
+  p_user_id uuid,
+  p_opponent text default null,
+  p_result text default null,
+  p_termination text default null,
+  p_from timestamptz default null,
+  p_to timestamptz default null
+)
+returns setof games
+language sql stable as $$
+  select g.*
+  from games g
+  left join profiles opponent
+    on opponent.id = case when g.player_white = p_user_id then g.player_black else g.player_white end
+  where p_user_id in (g.player_white, g.player_black)
+    and g.status <> 'waiting'
+    and (p_opponent is null or opponent.display_name ilike '%' || p_opponent || '%')
+    and (p_result is null or p_result = case
+      when g.result = '1/2-1/2' then 'draw'
+      when g.result = case when g.player_white = p_user_id then '1-0' else '0-1' end then 'win'
+      when g.result is not null then 'loss'
+    end)
+    and (p_termination is null or g.termination = p_termination)
+    and (p_from is null or g.created_at >= p_from)
+    and (p_to is null or g.created_at < p_to)
+  order by g.created_at desc;
+$$;
+
+grant execute on function player_games(uuid, text, text, text, timestamptz, timestamptz) to authenticated;
+
+-- =========================================================================
+-- Row level security
+-- =========================================================================
+
+alter table games enable row level security;
+alter table moves enable row level security;
+alter table profiles enable row level security;
+alter table legacy_identities enable row level security;
+alter table matchmaking_queue enable row level security;
+alter table game_invites enable row level security;
+alter table game_presence enable row level security;
+alter table messages enable row level security;
+alter table user_settings enable row level security;
+alter table move_annotations enable row level security;
+alter table ratings enable row level security;
+
+drop policy if exists "profiles are public" on profiles;
+create policy "profiles are public" on profiles
+  for select using (true);
+
+drop policy if exists "own profile" on profiles;
+create policy "own profile" on profiles
+  for update using (id = auth.uid()) with check (id = auth.uid());
+
+revoke update on profiles from anon, authenticated;
+grant update (display_name, avatar_url) on profiles to authenticated;
+
+-- Ratings are only written by rate_game
+drop policy if exists "ratings are public" on ratings;
+create policy "ratings are public" on ratings
+  for select using (true);
+
+drop policy if exists "own settings" on user_settings;
+create policy "own settings" on user_settings
+  for all using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- legacy_identities, game_invites and game_presence have no policies: only the RPCs that
+-- manage them touch them.
+
+-- Players see and leave their own queue entry; join_queue does the rest.
+drop policy if exists "own queue entry" on matchmaking_queue;
+create policy "own queue entry" on matchmaking_queue
+  for select using (user_id = auth.uid());
+
+drop policy if exists "leave queue" on matchmaking_queue;
+create policy "leave queue" on matchmaking_queue
+  for delete using (user_id = auth.uid());
+
+drop policy if exists "games are public" on games;
+create policy "games are public" on games
+  for select using (true);
+
+drop policy if exists "creator takes a seat" on games;
+create policy "creator takes a seat" on games
+  for insert with check (
+    status = 'waiting'
+    and player_id() is not null
+    and (
+      (player_white = player_id() and player_black is null)
+      or (player_black = player_id() and player_white is null)
+    )
+    and fen = initial_fen
+    and ply = 0
+    and result is null
+    and termination is null
+    and draw_offer is null
+    and takeback_offer is null
+    and turn = case when split_part(fen, ' ', 2) = 'w' then 'white' else 'black' end
+    and last_move_at is null
+    and white_time_ms is not distinct from base_seconds * 1000::bigint
+    and black_time_ms is not distinct from base_seconds * 1000::bigint
+    and white_rating is null
+    and black_rating is null
+    and white_rating_change is null
+    and black_rating_change is null
+  );
+
+-- No update policy: seats are taken through claim_seat and everything else
+-- changes through the game RPCs.
+drop policy if exists "seated players write" on games;
+revoke update on games from anon, authenticated;
+
+-- Players read the players' room and everyone else the spectators' room
+-- until the game is over. Messages are only written by send_message.
+drop policy if exists "chat rooms" on messages;
+create policy "chat rooms" on messages
+  for select using (
+    exists (
+      select 1 from games g
+      where g.id = messages.game_id
+        and (
+          g.status = 'finished'
+          or (audience = 'players') = coalesce(auth.uid() in (g.player_white, g.player_black), false)
+        )
+    )
+  );
+
+drop policy if exists "moves are public" on moves;
+create policy "moves are public" on moves
+  for select using (true);
+
+-- No insert/update/delete policies on moves: the log is append-only through
+-- submit_move, which runs as the table owner.
+
+-- Annotations wait until the game is over, so nobody watching can coach
+-- a player with them
+drop policy if exists "annotations are public" on move_annotations;
+create policy "annotations are public" on move_annotations
+  for select using (true);
+
+drop policy if exists "annotate finished games" on move_annotations;
+create policy "annotate finished games" on move_annotations
+  for insert with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from games g
+      where g.id = move_annotations.game_id and g.status = 'finished' and move_annotations.ply <= g.ply
+    )
+  );
+
+drop policy if exists "own annotations" on move_annotations;
+create policy "own annotations" on move_annotations
+  for update using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- =========================================================================
+-- Realtime
+-- =========================================================================
+
+alter publication supabase_realtime add table games, moves, messages, move_annotations;
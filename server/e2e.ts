@@ -0,0 +1,176 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { WebSocket } from 'ws';
+import { ClientRequest, ServerMessage } from '../lib/wsProtocol';
+import { STARTING_FEN } from '../constants';
+import { GameState, MoveRecord } from '../types';
+
+/*
+ * Plays a game between two clients against the self-hosted server, for
+ * checking multiplayer end to end on one machine:
+ *
+ *   npm run server:e2e
+ *
+ * Starts its own server on E2E_PORT (8788) unless WS_URL points at one
+ * that is already running.
+ */
+
+const TIMEOUT_MS = 5000;
+
+type Push = Exclude<ServerMessage, { type: 'reply' }>;
+
+interface Client {
+  name: string;
+  request: <T>(message: ClientRequest | Record<string, unknown>) => Promise<T>;
+  // Resolves with the first push, old or new, that matches
+  push: (matches: (push: Push) => boolean) => Promise<Push>;
+  close: () => void;
+}
+
+const connect = (url: string, name: string): Promise<Client> =>
+  new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    let nextId = 1;
+    const pending = new Map<number, { resolve: (data: any) => void; reject: (err: Error) => void }>();
+    const pushes: Push[] = [];
+    let onPush = () => {};
+
+    ws.on('message', (raw) => {
+      const message: ServerMessage = JSON.parse(raw.toString());
+      if (message.type === 'reply') {
+        const request = pending.get(message.id);
+        pending.delete(message.id);
+        if ('error' in message) request?.reject(new Error(message.error));
+        else request?.resolve(message.data);
+      } else {
+        pushes.push(message);
+        onPush();
+      }
+    });
+    ws.on('error', reject);
+
+    const client: Client = {
+      name,
+      request: (message) =>
+        new Promise((res, rej) => {
+          const id = nextId++;
+          const timer = setTimeout(() => rej(new Error(`${name}: no reply to ${JSON.stringify(message)}`)), TIMEOUT_MS);
+          pending.set(id, {
+            resolve: (data) => { clearTimeout(timer); res(data); },
+            reject: (err) => { clearTimeout(timer); rej(err); },
+          });
+          ws.send(JSON.stringify({ ...message, id }));
+        }),
+      push: (matches) =>
+        new Promise((res, rej) => {
+          const timer = setTimeout(() => rej(new Error(`${name}: expected push never came`)), TIMEOUT_MS);
+          const check = () => {
+            const found = pushes.find(matches);
+            if (!found) return;
+            clearTimeout(timer);
+            res(found);
+          };
+          onPush = check;
+          check();
+        }),
+      close: () => ws.close(),
+    };
+
+    ws.on('open', async () => {
+      try {
+        await client.request({ type: 'hello', playerId: randomUUID() });
+        resolve(client);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+
+// Resolves with the server's error message, failing if the request went through
+const refused = async (client: Client, message: ClientRequest | Record<string, unknown>): Promise<string> => {
+  try {
+    await client.request(message);
+  } catch (err: any) {
+    return err.message;
+  }
+  throw new Error(`${client.name}: ${JSON.stringify(message)} was accepted`);
+};
+
+const step = (label: string) => console.log(`ok - ${label}`);
+
+const run = async (url: string) => {
+  const alice = await connect(url, 'alice');
+  const bob = await connect(url, 'bob');
+  step('both clients said hello');
+
+  const gameId = await alice.request<string>({
+    type: 'create',
+    options: {
+      seat: 'white',
+      initialFen: STARTING_FEN,
+      variant: 'standard',
+      timeControl: null,
+      isPublic: false,
+      inviteOnly: false,
+      rated: false,
+    },
+  });
+  assert.equal(await alice.request({ type: 'claim', gameId, invite: null }), 'w');
+  await alice.request({ type: 'subscribe', gameId });
+  await bob.request({ type: 'subscribe', gameId });
+  step(`alice created game ${gameId} as White`);
+
+  assert.match(
+    await refused(alice, { type: 'move', gameId, move: { ply: 1, from: 'e2', to: 'e4' } }),
+    /opponent/
+  );
+  assert.equal(await refused(alice, { type: 'action', gameId, action: 'resign' }), 'The game has not started');
+  step('no moves or resigning before both seats are taken');
+
+  assert.equal(await bob.request({ type: 'claim', gameId, invite: null }), 'b');
+  await alice.push((p) => p.type === 'game' && p.game.status === 'active');
+  step('bob took Black and alice saw the game start');
+
+  // Fool's mate, each move checked from the other side
+  const moves: [Client, Client, string, string][] = [
+    [alice, bob, 'f2', 'f3'],
+    [bob, alice, 'e7', 'e5'],
+    [alice, bob, 'g2', 'g4'],
+    [bob, alice, 'd8', 'h4'],
+  ];
+  for (const [i, [mover, watcher, from, to]] of moves.entries()) {
+    await mover.request<GameState>({ type: 'move', gameId, move: { ply: i + 1, from, to } });
+    const seen = await watcher.push((p) => p.type === 'move' && p.move.ply === i + 1);
+    assert.equal((seen as { move: MoveRecord }).move.uci, from + to);
+  }
+  step('four moves played and seen by the opponent');
+
+  const { game } = await bob.request<{ game: GameState }>({ type: 'join', gameId });
+  assert.deepEqual([game.status, game.result, game.termination], ['finished', '0-1', 'checkmate']);
+  step('the game ended in checkmate');
+
+  assert.equal(await refused(alice, { type: 'move', gameId, move: null }), 'A move is required');
+  assert.equal(await refused(alice, { type: 'create', options: null }), 'Game options are required');
+  assert.equal(await refused(alice, { type: 'action', gameId, action: 'explode' }), 'Unknown action');
+  assert.equal(await refused(alice, { type: 'nonsense' }), 'Unknown request');
+  step('malformed requests are refused with a reason');
+
+  alice.close();
+  bob.close();
+};
+
+let url = process.env.WS_URL;
+if (!url) {
+  // The server listens as soon as it is loaded, on PORT
+  process.env.PORT = process.env.E2E_PORT ?? '8788';
+  await import('./index');
+  url = `ws://localhost:${process.env.PORT}`;
+}
+
+run(url).then(
+  () => process.exit(0),
+  (err) => {
+    console.error('not ok -', err.message);
+    process.exit(1);
+  }
+);
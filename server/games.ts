@@ -0,0 +1,306 @@
+import { randomUUID } from 'node:crypto';
+import { GameState, MoveRecord, Player, PromotionPiece, Variant } from '../types';
+import { CreateGameOptions, GameAction, SubmittedMove } from '../lib/transport';
+import { getBoardOutcome, replayGame } from '../lib/chess';
+import { VARIANTS, createChess } from '../lib/variants';
+import { getRemainingMs } from '../lib/timeControl';
+import { GameStore, StoredGame } from './store';
+
+/*
+ * Game rules for the self-hosted server. Each function mirrors the RPC of
+ * the same name in schema.sql, so both backends behave alike.
+ */
+
+// A request the rules refuse; the message goes back to the client
+export class GameError extends Error {}
+
+type Color = 'w' | 'b';
+
+const opponentOf = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+const winFor = (color: Color) => (color === 'w' ? '1-0' : '0-1');
+const sideToMove = (game: GameState) => game.fen.split(' ')[1] as Color;
+
+const playerColor = (game: GameState, playerId: string): Color | null => {
+  if (game.player_white === playerId) return 'w';
+  if (game.player_black === playerId) return 'b';
+  return null;
+};
+
+const load = (store: GameStore, gameId: string): StoredGame => {
+  const entry = store.get(gameId);
+  if (!entry) throw new GameError('Game not found');
+  return entry;
+};
+
+// Every change bumps the version, like the games_version trigger
+const update = (store: GameStore, entry: StoredGame, changes: Partial<GameState>): GameState => {
+  entry.game = { ...entry.game, ...changes, version: entry.game.version + 1 };
+  store.put(entry);
+  return entry.game;
+};
+
+const remainingMs = (game: GameState, color: Color, now: number) => getRemainingMs(game, color, now) ?? 0;
+
+// Both clocks as they stand now, for when the game stops
+const stoppedClocks = (game: GameState, now: number): Partial<GameState> => (
+  game.base_seconds === null ? {} : {
+    white_time_ms: remainingMs(game, 'w', now),
+    black_time_ms: remainingMs(game, 'b', now),
+  }
+);
+
+// Whether `color` could still mate: anything beyond a lone knight or
+// bishops that all stand on one square colour. Variants that are won
+// another way count that too.
+const hasMatingMaterial = (fen: string, color: Color, variant: Variant) => {
+  if (variant === 'king_of_the_hill') return true;
+  const pieces: string[] = [];
+  const bishopSquareColors = new Set<number>();
+  createChess(fen, variant).board().forEach((row, rank) => row.forEach((square, file) => {
+    if (!square || square.color !== color || square.type === 'k') return;
+    pieces.push(square.type);
+    if (square.type === 'b') bishopSquareColors.add((rank + file) % 2);
+  }));
+  if (pieces.length === 0) return false;
+  if (variant === 'three_check' || (variant === 'horde' && color === 'w')) return true;
+  if (pieces.length === 1 && pieces[0] === 'n') return false;
+  if (pieces.every((p) => p === 'b')) return bishopSquareColors.size > 1;
+  return true;
+};
+
+const flagGame = (store: GameStore, entry: StoredGame, color: Color, now: number) => {
+  const { game } = entry;
+  const opponent = opponentOf(color);
+  return update(store, entry, {
+    ...stoppedClocks(game, now),
+    [color === 'w' ? 'white_time_ms' : 'black_time_ms']: 0,
+    status: 'finished',
+    result: hasMatingMaterial(game.fen, opponent, game.variant) ? winFor(opponent) : '1/2-1/2',
+    termination: 'timeout',
+    draw_offer: null,
+    takeback_offer: null,
+    last_move_at: new Date(now).toISOString(),
+  });
+};
+
+export const createGame = (store: GameStore, playerId: string, options: CreateGameOptions, now: number): GameState => {
+  const { seat, initialFen, variant, timeControl, isPublic, inviteOnly, rated } = options;
+  if (!(variant in VARIANTS)) throw new GameError('Unknown variant');
+  // Ratings need accounts, which this server does not have
+  if (rated) throw new GameError('Rated games are not available on this server');
+  try {
+    createChess(initialFen, variant);
+  } catch {
+    throw new GameError('Invalid starting position');
+  }
+  if (timeControl && !(timeControl.baseSeconds > 0 && timeControl.incrementSeconds >= 0)) {
+    throw new GameError('Invalid time control');
+  }
+
+  // Unused 4-digit code, the same range the Supabase backend uses
+  let id: string;
+  do {
+    id = Math.floor(1000 + Math.random() * 9000).toString();
+  } while (store.get(id));
+
+  const game: GameState = {
+    id,
+    created_at: new Date(now).toISOString(),
+    player_white: seat === 'white' ? playerId : null,
+    player_black: seat === 'black' ? playerId : null,
+    fen: initialFen,
+    initial_fen: initialFen,
+    variant,
+    status: 'waiting',
+    turn: initialFen.split(' ')[1] === 'b' ? 'black' : 'white',
+    base_seconds: timeControl?.baseSeconds ?? null,
+    increment_seconds: timeControl?.incrementSeconds ?? 0,
+    white_time_ms: timeControl ? timeControl.baseSeconds * 1000 : null,
+    black_time_ms: timeControl ? timeControl.baseSeconds * 1000 : null,
+    last_move_at: null,
+    ply: 0,
+    draw_offer: null,
+    takeback_offer: null,
+    result: null,
+    termination: null,
+    is_public: isPublic && !inviteOnly,
+    invite_only: inviteOnly,
+    rated: false,
+    white_rating: null,
+    black_rating: null,
+    white_rating_change: null,
+    black_rating_change: null,
+    version: 0,
+  };
+  store.put({ game, moves: [], inviteCode: randomUUID().replace(/-/g, '') });
+  return game;
+};
+
+export const claimSeat = (store: GameStore, playerId: string, gameId: string, invite: string | null): Player['color'] => {
+  const entry = load(store, gameId);
+  const { game } = entry;
+  const mine = playerColor(game, playerId);
+  if (mine) return mine;
+
+  if (game.status !== 'waiting') return 'spectator';
+  if (game.invite_only && invite !== entry.inviteCode) return 'spectator';
+
+  if (game.player_white === null) {
+    update(store, entry, { player_white: playerId, status: game.player_black ? 'active' : 'waiting' });
+    return 'w';
+  }
+  if (game.player_black === null) {
+    update(store, entry, { player_black: playerId, status: game.player_white ? 'active' : 'waiting' });
+    return 'b';
+  }
+  return 'spectator';
+};
+
+// Returns the game and the new move, or no move when nothing was played
+// (a retry of a move already in the log, or the flag fell first).
+export const submitMove = (
+  store: GameStore, playerId: string, gameId: string, move: SubmittedMove, now: number
+): { game: GameState; record: MoveRecord | null } => {
+  const entry = load(store, gameId);
+  const { game } = entry;
+
+  if (move.ply !== game.ply + 1) {
+    const logged = entry.moves[move.ply - 1];
+    if (logged && logged.color === playerColor(game, playerId)
+        && logged.from_square === move.from.toLowerCase() && logged.to_square === move.to.toLowerCase()) {
+      return { game, record: null };
+    }
+    throw new GameError(`Move ${move.ply} is out of date; the game is at move ${game.ply}`);
+  }
+  if (game.status === 'finished') throw new GameError('Game is already finished');
+  // claimSeat starts the game once both seats are taken
+  if (game.status === 'waiting') throw new GameError('Waiting for an opponent to join');
+
+  const side = sideToMove(game);
+  if (playerColor(game, playerId) !== side) throw new GameError('Not your turn');
+
+  // A move that arrives after the flag fell does not count
+  const remaining = remainingMs(game, side, now);
+  if (game.base_seconds !== null && remaining <= 0) {
+    return { game: flagGame(store, entry, side, now), record: null };
+  }
+
+  const board = replayGame(game.initial_fen, entry.moves, game.variant);
+  let played;
+  try {
+    played = board.move({ from: move.from.toLowerCase(), to: move.to.toLowerCase(), promotion: move.promotion });
+  } catch {
+    throw new GameError(`Illegal move ${move.from}-${move.to}`);
+  }
+
+  const record: MoveRecord = {
+    id: randomUUID(),
+    game_id: game.id,
+    ply: move.ply,
+    color: side,
+    from_square: played.from,
+    to_square: played.to,
+    promotion: (played.promotion as PromotionPiece | undefined) ?? null,
+    san: played.san,
+    uci: played.lan,
+    fen_after: played.after,
+    created_at: new Date(now).toISOString(),
+  };
+  entry.moves.push(record);
+
+  const outcome = getBoardOutcome(board);
+  // Clocks start with White's first move; every move earns the increment
+  const timed = game.base_seconds !== null;
+  const updated = update(store, entry, {
+    fen: played.after,
+    ply: record.ply,
+    turn: side === 'w' ? 'black' : 'white',
+    status: outcome ? 'finished' : 'active',
+    result: outcome?.result ?? null,
+    termination: outcome?.termination ?? null,
+    draw_offer: null,
+    takeback_offer: null,
+    ...(timed ? { [side === 'w' ? 'white_time_ms' : 'black_time_ms']: remaining + game.increment_seconds * 1000 } : {}),
+    last_move_at: timed ? new Date(now).toISOString() : null,
+  });
+  return { game: updated, record };
+};
+
+const claimTimeout = (store: GameStore, entry: StoredGame, now: number): GameState => {
+  const { game } = entry;
+  if (game.status === 'finished' || game.base_seconds === null) return game;
+  const side = sideToMove(game);
+  if (remainingMs(game, side, now) > 0) throw new GameError('Clock has not run out');
+  return flagGame(store, entry, side, now);
+};
+
+// Accepting rewinds to just before the requester's last move
+const takeBack = (store: GameStore, entry: StoredGame, requester: Color, now: number): GameState => {
+  const { game } = entry;
+  const lastOwn = entry.moves.map((m) => m.color).lastIndexOf(requester);
+  entry.moves = entry.moves.slice(0, lastOwn);
+  const fen = entry.moves.length > 0 ? entry.moves[entry.moves.length - 1].fen_after : game.initial_fen;
+  // Clocks keep the time already used; the side to move starts again now
+  return update(store, entry, {
+    ...stoppedClocks(game, now),
+    fen,
+    ply: entry.moves.length,
+    turn: fen.split(' ')[1] === 'w' ? 'white' : 'black',
+    last_move_at: game.base_seconds !== null && entry.moves.length > 0 ? new Date(now).toISOString() : null,
+    draw_offer: null,
+    takeback_offer: null,
+  });
+};
+
+export const runAction = (
+  store: GameStore, playerId: string, gameId: string, action: GameAction, accept: boolean | undefined, now: number
+): GameState => {
+  const entry = load(store, gameId);
+  if (action === 'claim_timeout') return claimTimeout(store, entry, now);
+
+  const { game } = entry;
+  const me = playerColor(game, playerId);
+  if (!me) throw new GameError('Only players can do that');
+  if (game.status === 'finished') throw new GameError('Game is already finished');
+  if (game.status !== 'active') throw new GameError('The game has not started');
+
+  switch (action) {
+    case 'resign':
+      return update(store, entry, {
+        ...stoppedClocks(game, now),
+        status: 'finished',
+        result: winFor(opponentOf(me)),
+        termination: 'resignation',
+        draw_offer: null,
+        takeback_offer: null,
+      });
+
+    case 'offer_draw':
+      // Offering a draw while the opponent's offer is pending accepts it
+      if (game.draw_offer && game.draw_offer !== me) return runAction(store, playerId, gameId, 'respond_draw', true, now);
+      return update(store, entry, { draw_offer: me });
+
+    case 'respond_draw':
+      if (!game.draw_offer || game.draw_offer === me) throw new GameError('No draw offer to answer');
+      if (!accept) return update(store, entry, { draw_offer: null });
+      return update(store, entry, {
+        ...stoppedClocks(game, now),
+        status: 'finished',
+        result: '1/2-1/2',
+        termination: 'agreement',
+        draw_offer: null,
+        takeback_offer: null,
+      });
+
+    case 'request_takeback':
+      // Nothing to take back before the requester has moved
+      if (!entry.moves.some((m) => m.color === me)) throw new GameError('No move to take back');
+      return update(store, entry, { takeback_offer: me });
+
+    case 'respond_takeback':
+      if (!game.takeback_offer || game.takeback_offer === me) throw new GameError('No takeback request to answer');
+      if (!accept) return update(store, entry, { takeback_offer: null });
+      return takeBack(store, entry, game.takeback_offer, now);
+  }
+  throw new GameError(`Unknown action ${action}`);
+};
@@ -0,0 +1,125 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { ClientMessage, ServerMessage } from '../lib/wsProtocol';
+import { createMemoryStore } from './store';
+import { GameError, claimSeat, createGame, runAction, submitMove } from './games';
+import { readMessage, requestId } from './messages';
+
+/*
+ * Self-hosted game server: the browser connects with VITE_TRANSPORT=ws.
+ * There are no accounts; each browser names itself with a random id in
+ * its hello, so only run this where you trust the players.
+ */
+
+const PORT = Number(process.env.PORT ?? 8787);
+const store = createMemoryStore();
+// Sockets subscribed to each game
+const rooms = new Map<string, Set<WebSocket>>();
+
+const sendTo = (ws: WebSocket, message: ServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(message));
+};
+
+const broadcast = (gameId: string, message: ServerMessage) => {
+  rooms.get(gameId)?.forEach((ws) => sendTo(ws, message));
+};
+
+const leave = (ws: WebSocket, gameId: string) => {
+  const room = rooms.get(gameId);
+  room?.delete(ws);
+  if (room?.size === 0) rooms.delete(gameId);
+};
+
+const wss = new WebSocketServer({ port: PORT });
+
+wss.on('connection', (ws) => {
+  let playerId: string | null = null;
+  const subscribed = new Set<string>();
+
+  const me = () => {
+    if (!playerId) throw new GameError('Say hello first');
+    return playerId;
+  };
+
+  // Runs a request and says what to reply; pushes go out as a side effect
+  const handle = (message: ClientMessage): unknown => {
+    const now = Date.now();
+    switch (message.type) {
+      case 'hello':
+        playerId = message.playerId;
+        return null;
+
+      case 'time':
+        return now;
+
+      case 'create':
+        return createGame(store, me(), message.options, now).id;
+
+      case 'join': {
+        const entry = store.get(message.gameId);
+        if (!entry) throw new GameError('Game not found');
+        return { game: entry.game, moves: entry.moves };
+      }
+
+      case 'claim': {
+        const before = store.get(message.gameId)?.game.version;
+        const role = claimSeat(store, me(), message.gameId, message.invite);
+        const game = store.get(message.gameId)!.game;
+        if (game.version !== before) broadcast(game.id, { type: 'game', game });
+        return role;
+      }
+
+      case 'move': {
+        const before = store.get(message.gameId)?.game.version;
+        const { game, record } = submitMove(store, me(), message.gameId, message.move, now);
+        if (record) broadcast(game.id, { type: 'move', move: record });
+        if (game.version !== before) broadcast(game.id, { type: 'game', game });
+        return game;
+      }
+
+      case 'action': {
+        const before = store.get(message.gameId)?.game.version;
+        const game = runAction(store, me(), message.gameId, message.action, message.accept, now);
+        if (game.version !== before) broadcast(game.id, { type: 'game', game });
+        return game;
+      }
+
+      case 'subscribe': {
+        const room = rooms.get(message.gameId) ?? new Set<WebSocket>();
+        room.add(ws);
+        rooms.set(message.gameId, room);
+        subscribed.add(message.gameId);
+        return null;
+      }
+
+      case 'unsubscribe':
+        leave(ws, message.gameId);
+        subscribed.delete(message.gameId);
+        return null;
+    }
+    throw new GameError('Unknown request');
+  };
+
+  ws.on('message', (raw) => {
+    let data: unknown;
+    try {
+      data = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    // Nothing to answer without an id
+    const id = requestId(data);
+    if (id === null) return;
+    try {
+      const message = readMessage(data);
+      sendTo(ws, { type: 'reply', id, ok: true, data: handle(message) });
+    } catch (err: any) {
+      if (!(err instanceof GameError)) console.error(`${(data as { type?: unknown }).type} failed`, err);
+      const error = err instanceof GameError ? err.message : 'Server error';
+      sendTo(ws, { type: 'reply', id, ok: false, error });
+    }
+  });
+
+  ws.on('close', () => subscribed.forEach((gameId) => leave(ws, gameId)));
+});
+
+console.log(`Game server listening on ws://localhost:${PORT}`);
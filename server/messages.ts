@@ -0,0 +1,124 @@
+import { ClientMessage } from '../lib/wsProtocol';
+import { CreateGameOptions, GameAction, SubmittedMove } from '../lib/transport';
+import { PromotionPiece } from '../types';
+import { GameError } from './games';
+
+/*
+ * Browsers send whatever they like, and the game rules trust their
+ * arguments. Every request is checked against the shape its type promises
+ * here, and rebuilt from the fields it should have.
+ */
+
+type Fields = Record<string, unknown>;
+
+const GAME_ACTIONS: GameAction[] = [
+  'resign',
+  'offer_draw',
+  'respond_draw',
+  'request_takeback',
+  'respond_takeback',
+  'claim_timeout',
+];
+
+const PROMOTIONS: PromotionPiece[] = ['q', 'r', 'b', 'n'];
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (fields: Fields, key: string, what: string): string => {
+  const value = fields[key];
+  if (typeof value !== 'string' || value.length === 0) throw new GameError(`${what} is required`);
+  if (value.length > 200) throw new GameError(`${what} is too long`);
+  return value;
+};
+
+const flag = (fields: Fields, key: string, what: string): boolean => {
+  const value = fields[key];
+  if (typeof value !== 'boolean') throw new GameError(`${what} must be true or false`);
+  return value;
+};
+
+const readOptions = (value: unknown): CreateGameOptions => {
+  if (!isObject(value)) throw new GameError('Game options are required');
+  const seat = value.seat;
+  if (seat !== 'white' && seat !== 'black') throw new GameError('The seat must be "white" or "black"');
+
+  let timeControl: CreateGameOptions['timeControl'] = null;
+  if (value.timeControl !== null && value.timeControl !== undefined) {
+    const tc = value.timeControl;
+    if (!isObject(tc) || !Number.isInteger(tc.baseSeconds) || !Number.isInteger(tc.incrementSeconds)) {
+      throw new GameError('The time control needs whole seconds for the base time and increment');
+    }
+    timeControl = { baseSeconds: tc.baseSeconds as number, incrementSeconds: tc.incrementSeconds as number };
+  }
+
+  return {
+    seat,
+    initialFen: text(value, 'initialFen', 'A starting position'),
+    // createGame checks it names a variant
+    variant: text(value, 'variant', 'A variant') as CreateGameOptions['variant'],
+    timeControl,
+    isPublic: flag(value, 'isPublic', 'isPublic'),
+    inviteOnly: flag(value, 'inviteOnly', 'inviteOnly'),
+    rated: value.rated === undefined ? false : flag(value, 'rated', 'rated'),
+  };
+};
+
+const readMove = (value: unknown): SubmittedMove => {
+  if (!isObject(value)) throw new GameError('A move is required');
+  if (!Number.isInteger(value.ply) || (value.ply as number) < 1) throw new GameError('The move needs a ply of 1 or more');
+  const move: SubmittedMove = {
+    ply: value.ply as number,
+    from: text(value, 'from', 'The square moved from'),
+    to: text(value, 'to', 'The square moved to'),
+  };
+  if (value.promotion !== undefined && value.promotion !== null) {
+    if (!PROMOTIONS.includes(value.promotion as PromotionPiece)) {
+      throw new GameError('Pawns promote to q, r, b or n');
+    }
+    move.promotion = value.promotion as PromotionPiece;
+  }
+  return move;
+};
+
+// The id to answer a raw request under, if it has one
+export const requestId = (data: unknown): number | null =>
+  isObject(data) && Number.isInteger(data.id) ? (data.id as number) : null;
+
+/**
+ * The request in `data`, checked and stripped of unknown fields. Throws a
+ * GameError saying what is wrong, which goes back to the client.
+ */
+export const readMessage = (data: unknown): ClientMessage => {
+  const id = requestId(data);
+  if (!isObject(data) || id === null) throw new GameError('Requests need a numeric id');
+
+  switch (data.type) {
+    case 'hello':
+      return { type: 'hello', id, playerId: text(data, 'playerId', 'A player id') };
+    case 'time':
+      return { type: 'time', id };
+    case 'create':
+      return { type: 'create', id, options: readOptions(data.options) };
+    case 'join':
+    case 'subscribe':
+    case 'unsubscribe':
+      return { type: data.type, id, gameId: text(data, 'gameId', 'A game id') };
+    case 'claim': {
+      const invite = data.invite ?? null;
+      if (invite !== null && typeof invite !== 'string') throw new GameError('The invite code must be text');
+      return { type: 'claim', id, gameId: text(data, 'gameId', 'A game id'), invite: invite as string | null };
+    }
+    case 'move':
+      return { type: 'move', id, gameId: text(data, 'gameId', 'A game id'), move: readMove(data.move) };
+    case 'action': {
+      const action = data.action as GameAction;
+      if (!GAME_ACTIONS.includes(action)) throw new GameError('Unknown action');
+      if (data.accept !== undefined && typeof data.accept !== 'boolean') {
+        throw new GameError('accept must be true or false');
+      }
+      return { type: 'action', id, gameId: text(data, 'gameId', 'A game id'), action, accept: data.accept as boolean | undefined };
+    }
+  }
+  throw new GameError('Unknown request');
+};
@@ -0,0 +1,25 @@
+import { GameState, MoveRecord } from '../types';
+
+export interface StoredGame {
+  game: GameState;
+  moves: MoveRecord[];
+  // Lets a visitor past invite-only, like game_invites in schema.sql
+  inviteCode: string;
+}
+
+// Where the server keeps its games
+export interface GameStore {
+  get: (gameId: string) => StoredGame | undefined;
+  put: (entry: StoredGame) => void;
+}
+
+// Games live as long as the process does
+export const createMemoryStore = (): GameStore => {
+  const games = new Map<string, StoredGame>();
+  return {
+    get: (gameId) => games.get(gameId),
+    put: (entry) => {
+      games.set(entry.game.id, entry);
+    },
+  };
+};
@@ -4,15 +4,73 @@ export interface GameState {
   player_white: string | null;
   player_black: string | null;
   fen: string;
+  initial_fen: string; // position before the first move
+  variant: Variant;
   status: 'waiting' | 'active' | 'finished';
   turn: 'white' | 'black';
+  base_seconds: number | null; // null for untimed games
+  increment_seconds: number;
+  white_time_ms: number | null; // remaining as of last_move_at
+  black_time_ms: number | null;
+  last_move_at: string | null; // server timestamp the side to move started thinking
+  ply: number; // moves played so far
+  draw_offer: 'w' | 'b' | null; // side with a pending draw offer
+  takeback_offer: 'w' | 'b' | null; // side asking to take back their last move
+  result: Exclude<GameResult, '*'> | null; // set by the server once finished
+  termination: Termination | null;
+  // Listed in the Home lobby while waiting
+  is_public: boolean;
+  // Open seat only for visitors with the invite code
+  invite_only: boolean;
+  rated: boolean;
+  // Ratings in the game's pool, filled in by the server for rated games:
+  // as of the start, then as of the end along with the change
+  white_rating: number | null;
+  black_rating: number | null;
+  white_rating_change: number | null;
+  black_rating_change: number | null;
+  version: number; // bumped by the server on every update
 }
 
+export type GameResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export type Termination =
+  | 'checkmate'
+  | 'stalemate'
+  | 'repetition'
+  | 'fifty_move'
+  | 'insufficient_material'
+  | 'resignation'
+  | 'timeout'
+  | 'agreement'
+  | 'abandonment'
+  // Wins that only exist in a variant
+  | 'king_in_center'
+  | 'third_check'
+  | 'horde_captured';
+
+// Rules a game is played under
+export type Variant = 'standard' | 'chess960' | 'king_of_the_hill' | 'three_check' | 'horde';
+
+export interface TimeControl {
+  baseSeconds: number;
+  incrementSeconds: number;
+}
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
 export interface MoveRecord {
   id: string;
   game_id: string;
+  ply: number; // 1-based position in the game's move log
+  color: 'w' | 'b';
   from_square: string;
   to_square: string;
+  promotion: PromotionPiece | null;
+  san: string;
+  uci: string;
   fen_after: string;
   created_at: string;
 }
@@ -21,3 +79,88 @@ export interface Player {
   id: string;
   color: 'w' | 'b' | 'spectator';
 }
+
+export interface Profile {
+  id: string;
+  display_name: string;
+  avatar_url: string | null;
+}
+
+// Glicko-2 rating in one time-control category
+export interface Rating {
+  user_id: string;
+  category: TimeControlCategory;
+  rating: number;
+  deviation: number;
+  volatility: number;
+  games: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  game_id: string;
+  user_id: string;
+  audience: 'players' | 'spectators';
+  body: string;
+  created_at: string;
+}
+
+// A game against the in-browser engine, kept in localStorage
+export interface BotGame {
+  id: string;
+  created_at: string;
+  player_color: 'w' | 'b';
+  level: number;
+  initial_fen: string;
+  moves: MoveRecord[];
+  result: Exclude<GameResult, '*'> | null;
+  termination: Termination | null;
+}
+
+export type MoveClassification = 'inaccuracy' | 'mistake' | 'blunder';
+
+// A pass-and-play game on one device, kept in IndexedDB
+export interface LocalGame {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  // Turn the board towards the side to move after every move
+  auto_flip: boolean;
+  initial_fen: string;
+  moves: MoveRecord[];
+  result: Exclude<GameResult, '*'> | null;
+  termination: Termination | null;
+}
+
+export type BoardTheme = 'green' | 'brown' | 'blue' | 'gray' | 'purple';
+
+export type PieceSet = 'classic' | 'glyphs' | 'letters';
+
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+// How boards look and sound, saved per user
+export interface Settings {
+  board_theme: BoardTheme;
+  piece_set: PieceSet;
+  show_coordinates: boolean;
+  animation_speed: AnimationSpeed;
+  sound: boolean;
+  // The build badge in the corner of the board
+  show_badge: boolean;
+}
+
+export type AnnotationColor = 'green' | 'red' | 'blue' | 'yellow';
+
+// Arrows and circled squares drawn on a position
+export interface BoardAnnotations {
+  arrows: { from: string; to: string; color: AnnotationColor }[];
+  circles: { square: string; color: AnnotationColor }[];
+}
+
+// Annotations a viewer saved on a position of a finished game
+export interface MoveAnnotation extends BoardAnnotations {
+  game_id: string;
+  ply: number;
+  user_id: string;
+  updated_at: string;
+}
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'supabase' (default) or 'ws'
+  readonly VITE_TRANSPORT?: string;
+  // Address of the self-hosted game server when VITE_TRANSPORT is 'ws'
+  readonly VITE_WS_URL?: string;
+}